@@ -1,177 +1,541 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Upload, Settings, Download, Image as ImageIcon, RefreshCw, Trash2, Archive, Loader2, AlertCircle } from 'lucide-react';
+import { Upload, Settings, Download, Image as ImageIcon, RefreshCw, Trash2, Archive, Loader2, AlertCircle, HardDrive, FolderOpen, Undo2, Redo2 } from 'lucide-react';
 import JSZip from 'jszip';
 import { ImageCard } from './components/ImageCard';
 import { 
+  AltTextOptions,
+  AltTextStatus,
+  CaptioningConfig,
+  ImageEdits,
   ImageFormat, 
+  NamingOptions,
   ProcessingStatus, 
   ProcessedImage, 
-  ConversionSettings 
+  ConversionSettings,
+  QualityMode,
+  SettingsPreset
 } from './types';
-import { convertImageClientSide, downloadBlob, fileToDataURL } from './utils/converter';
-import { generateImageAltText } from './services/geminiService';
+import { createDownscaledDataURL, createFallbackBlob, createOutputURL, createPreviewURL, downloadBlob } from './utils/converter';
+import { isAnimatedSource } from './utils/sourceDecoders';
+import { formatBytes } from './utils/pipeline';
+import { DEFAULT_NAMING_OPTIONS, buildFileName } from './utils/naming';
+import { ImportedFile, collectDroppedFiles, collectInputFiles } from './utils/fileImport';
+import { AspectPreset, hasEdits } from './utils/imageEdits';
+import { buildManifestCsv, buildManifestJson, buildPictureHtml, needsFallback, planExport, toManifestEntry } from './utils/exportManifest';
+import { TaskQueue, createTaskQueue } from './utils/taskQueue';
+import { ConversionPool, createConversionPool, getDefaultConcurrency, isAbortError } from './utils/workerPool';
+import { convertWithRecovery, toConversionFailure } from './utils/conversionErrors';
+import { analyzeConversion } from './utils/qualityAnalysis';
+import { readImageMetadata } from './utils/metadata';
+import { HistoryEntry, entryJobIds, useImageStore } from './utils/imageStore';
+import { BUILT_IN_PRESETS, DEFAULT_SETTINGS, createPreset, sanitizeSettings } from './utils/presets';
+import {
+  AltTextResult,
+  DEFAULT_ALT_TEXT_OPTIONS,
+  describeCaptioningError,
+  isRetryableCaptioningError
+} from './services/captioning';
+import { DEFAULT_CAPTIONING_CONFIG, createCaptioningProvider } from './services/captioningProviders';
+import {
+  RestoredImage,
+  deleteImage,
+  getStorageEstimate,
+  loadAltTextOptions,
+  loadCaptioningConfig,
+  loadGlobalSettings,
+  loadImages,
+  loadNamingOptions,
+  loadPresets,
+  requestPersistentStorage,
+  saveAltTextOptions,
+  saveCaptioningConfig,
+  saveGlobalSettings,
+  saveImage,
+  saveNamingOptions,
+  savePresets
+} from './services/workspaceStorage';
+import { ResizeControls } from './components/ResizeControls';
+import { TargetSizeControls } from './components/TargetSizeControls';
+import { ComparisonViewer } from './components/ComparisonViewer';
+import { ImageEditor } from './components/ImageEditor';
+import { MetadataPolicySelect } from './components/MetadataPanel';
+import { EncoderControls } from './components/EncoderControls';
+import { FormatOptions } from './components/FormatOptions';
+import { PresetManager } from './components/PresetManager';
+import { NamingControls } from './components/NamingControls';
+import { WatermarkControls } from './components/WatermarkControls';
+import { SelectionBar } from './components/SelectionBar';
+import { AltTextQueueBar } from './components/AltTextQueueBar';
+import { ConversionFailures } from './components/ConversionFailures';
+import { StatsDashboard } from './components/StatsDashboard';
+
+const revokeConvertedUrls = (img: ProcessedImage) => {
+  if (img.convertedUrl) URL.revokeObjectURL(img.convertedUrl);
+  img.variants.forEach(v => URL.revokeObjectURL(v.url));
+  if (img.metrics) URL.revokeObjectURL(img.metrics.heatmapUrl);
+};
+
+// Captioning does not need full resolution; smaller uploads are faster and cheaper
+const ALT_TEXT_MAX_SIDE = 768;
+
+const ALT_TEXT_RETRY_POLICY = {
+  maxRetries: 4,
+  baseDelay: 2000,
+  maxDelay: 30000,
+  isRetryable: isRetryableCaptioningError
+};
+
+const UPLOAD_ACCEPT = "image/*,.heic,.heif,.zip,application/zip";
+
+// Not in React's input typings; makes the picker select a whole folder
+const FOLDER_INPUT_PROPS = { webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+// Fields that, when changed, make a card worth saving again
+const PERSISTED_FIELDS: (keyof ProcessedImage)[] = ['settings', 'edits', 'status', 'convertedBlob', 'conversionError', 'altText', 'textSuggestions', 'metadata'];
+
+const fromStoredImage = async (stored: RestoredImage): Promise<ProcessedImage> => {
+  const { convertedBlob } = stored;
+  return {
+    id: stored.id,
+    originalFile: stored.file,
+    relativeDir: stored.relativeDir,
+    edits: stored.edits,
+    resizeBeforeEdits: stored.resizeBeforeEdits,
+    previewUrl: await createPreviewURL(stored.file),
+    convertedBlob,
+    convertedUrl: convertedBlob ? await createOutputURL(convertedBlob) : null,
+    // Anything that was not finished is converted again
+    status: convertedBlob ? ProcessingStatus.COMPLETED : stored.status === ProcessingStatus.ERROR ? ProcessingStatus.ERROR : ProcessingStatus.IDLE,
+    originalSize: stored.file.size,
+    convertedSize: convertedBlob?.size ?? 0,
+    convertedWidth: stored.convertedWidth,
+    convertedHeight: stored.convertedHeight,
+    variants: stored.variants.map(v => ({ ...v, url: URL.createObjectURL(v.blob), size: v.blob.size })),
+    chosenQuality: stored.chosenQuality,
+    targetMet: stored.targetMet,
+    encoderUsed: stored.encoderUsed,
+    formatReason: stored.formatReason,
+    keptOriginal: stored.keptOriginal,
+    frameCount: stored.frameCount,
+    animated: await isAnimatedSource(stored.file).catch(() => false),
+    conversionError: stored.conversionError,
+    recoveredResize: stored.recoveredResize,
+    recoveryNote: stored.recoveryNote,
+    metadataWarning: stored.metadataWarning,
+    metadata: stored.metadata,
+    settings: sanitizeSettings(stored.settings),
+    altText: stored.altText,
+    textSuggestions: stored.textSuggestions
+  };
+};
 
 const App: React.FC = () => {
-  const [images, setImages] = useState<ProcessedImage[]>([]);
-  // Global defaults for new images
-  const [globalSettings, setGlobalSettings] = useState<ConversionSettings>({
-    format: ImageFormat.WEBP,
-    quality: 0.8
-  });
+  const { images, undoEntry, redoEntry, dispatch } = useImageStore();
+  // Latest list, for async callbacks that must check what changed while they ran
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  const [globalSettings, setGlobalSettings] = useState<ConversionSettings>(DEFAULT_SETTINGS);
+  const [presets, setPresets] = useState<SettingsPreset[]>(BUILT_IN_PRESETS);
+  const [namingOptions, setNamingOptions] = useState<NamingOptions>(DEFAULT_NAMING_OPTIONS);
   const [isDragOver, setIsDragOver] = useState(false);
   const [isZipping, setIsZipping] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Last toggled card, used as the anchor of shift-click ranges
+  const lastSelectedRef = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  const [concurrency, setConcurrency] = useState(getDefaultConcurrency);
+  const poolRef = useRef<ConversionPool | null>(null);
+  // In-flight conversions, keyed by image id, so they can be cancelled
+  const jobsRef = useRef(new Map<string, AbortController>());
+
+  if (!poolRef.current) {
+    poolRef.current = createConversionPool(concurrency);
+  }
+
+  useEffect(() => {
+    poolRef.current?.setConcurrency(concurrency);
+  }, [concurrency]);
+
+  useEffect(() => {
+    return () => poolRef.current?.dispose();
+  }, []);
+
+  const [altConcurrency, setAltConcurrency] = useState(2);
+  const altQueueRef = useRef<TaskQueue<AltTextResult> | null>(null);
+  const [altTextOptions, setAltTextOptions] = useState<AltTextOptions>(DEFAULT_ALT_TEXT_OPTIONS);
+  const [captioningConfig, setCaptioningConfig] = useState<CaptioningConfig>(DEFAULT_CAPTIONING_CONFIG);
+  // Size of the current alt-text batch, for the progress bar; reset once the queue drains
+  const [altBatchTotal, setAltBatchTotal] = useState(0);
+  // Latest alt-text run of each pending id; a superseded run must not touch the image
+  const altRunsRef = useRef(new Map<string, symbol>());
+
+  if (!altQueueRef.current) {
+    altQueueRef.current = createTaskQueue<AltTextResult>(altConcurrency, ALT_TEXT_RETRY_POLICY);
+  }
+
+  useEffect(() => {
+    altQueueRef.current?.setConcurrency(altConcurrency);
+  }, [altConcurrency]);
+
+  useEffect(() => {
+    return () => altQueueRef.current?.cancelAll();
+  }, []);
+
+  const pendingAltCount = images.filter(img =>
+    img.altTextStatus !== undefined && img.altTextStatus !== AltTextStatus.ERROR
+  ).length;
+
+  useEffect(() => {
+    if (pendingAltCount === 0) setAltBatchTotal(0);
+  }, [pendingAltCount]);
+
+  // Images the "generate all" action would queue
+  const altCandidates = images.filter(img =>
+    !img.altText && (img.altTextStatus === undefined || img.altTextStatus === AltTextStatus.ERROR)
+  );
+
+  // Nothing is saved until the previous session has been restored
+  const [isRestored, setIsRestored] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<number | null>(null);
+  // Last saved version of each card, to only write what changed
+  const persistedRef = useRef(new Map<string, ProcessedImage>());
+
+  const refreshStorageUsage = () => {
+    getStorageEstimate()
+      .then(estimate => setStorageUsage(estimate?.usage ?? null))
+      .catch(() => setStorageUsage(null));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const restore = async () => {
+      try {
+        const [settings, savedPresets, savedAltOptions, savedCaptioning, savedNaming, stored] = await Promise.all([
+          loadGlobalSettings(),
+          loadPresets(),
+          loadAltTextOptions(),
+          loadCaptioningConfig(),
+          loadNamingOptions(),
+          loadImages()
+        ]);
+        if (cancelled) return;
+        if (savedAltOptions) setAltTextOptions({ ...DEFAULT_ALT_TEXT_OPTIONS, ...savedAltOptions });
+        if (savedCaptioning) setCaptioningConfig({ ...DEFAULT_CAPTIONING_CONFIG, ...savedCaptioning });
+        if (savedNaming) setNamingOptions({ ...DEFAULT_NAMING_OPTIONS, ...savedNaming });
+        if (settings) setGlobalSettings(sanitizeSettings(settings));
+        setPresets([
+          ...BUILT_IN_PRESETS,
+          ...savedPresets.map(p => ({ ...p, builtIn: false, settings: sanitizeSettings(p.settings) }))
+        ]);
+
+        const restored = await Promise.all(stored.map(fromStoredImage));
+        if (cancelled) {
+          restored.forEach(revokeConvertedUrls);
+          return;
+        }
+        restored.forEach(img => persistedRef.current.set(img.id, img));
+        dispatch({ type: 'add', images: restored, atStart: true });
+      } catch (error) {
+        console.warn("Could not restore the saved workspace", error);
+      } finally {
+        if (!cancelled) {
+          setIsRestored(true);
+          refreshStorageUsage();
+        }
+      }
+    };
+
+    restore();
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isRestored) return;
+
+    const persisted = persistedRef.current;
+    const writes: Promise<void>[] = [];
+
+    images.forEach(img => {
+      const saved = persisted.get(img.id);
+      if (saved && PERSISTED_FIELDS.every(field => saved[field] === img[field])) return;
+      persisted.set(img.id, img);
+      writes.push(saveImage(img));
+    });
+
+    const currentIds = new Set(images.map(img => img.id));
+    persisted.forEach((_, id) => {
+      if (currentIds.has(id)) return;
+      persisted.delete(id);
+      writes.push(deleteImage(id));
+    });
+
+    if (writes.length === 0) return;
+    Promise.all(writes)
+      .then(() => requestPersistentStorage())
+      .catch(error => console.warn("Could not save the workspace", error))
+      .finally(refreshStorageUsage);
+  }, [images, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveGlobalSettings(globalSettings).catch(error => console.warn("Could not save settings", error));
+  }, [globalSettings, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    savePresets(presets).catch(error => console.warn("Could not save presets", error));
+  }, [presets, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveAltTextOptions(altTextOptions).catch(error => console.warn("Could not save alt text options", error));
+  }, [altTextOptions, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveCaptioningConfig(captioningConfig).catch(error => console.warn("Could not save captioning settings", error));
+  }, [captioningConfig, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveNamingOptions(namingOptions).catch(error => console.warn("Could not save naming options", error));
+  }, [namingOptions, isRestored]);
+
+  const cancelConversion = (id: string) => {
+    jobsRef.current.get(id)?.abort();
+    jobsRef.current.delete(id);
+  };
 
   // Effect to process IDLE images automatically
   useEffect(() => {
-    const processIdleImages = async () => {
-      const idleImages = images.filter(img => img.status === ProcessingStatus.IDLE);
-      
-      if (idleImages.length === 0) return;
-
-      // Mark as converting first to prevent double processing
-      setImages(prev => prev.map(img => 
-        img.status === ProcessingStatus.IDLE ? { ...img, status: ProcessingStatus.CONVERTING } : img
-      ));
-
-      // Process each image
-      for (const img of idleImages) {
-        try {
-          const blob = await convertImageClientSide(
-            img.originalFile, 
-            img.settings.format, 
-            img.settings.quality
-          );
-          
-          setImages(prev => prev.map(p => {
-            if (p.id === img.id) {
-              // Revoke old URL if exists
-              if (p.convertedUrl) URL.revokeObjectURL(p.convertedUrl);
-              
-              return {
-                ...p,
-                status: ProcessingStatus.COMPLETED,
-                convertedBlob: blob,
-                convertedUrl: URL.createObjectURL(blob),
-                convertedSize: blob.size
-              };
-            }
-            return p;
-          }));
-        } catch (error) {
-          console.error(`Error converting ${img.id}:`, error);
-          setImages(prev => prev.map(p => 
-            p.id === img.id ? { ...p, status: ProcessingStatus.ERROR } : p
-          ));
+    const idleImages = images.filter(img => img.status === ProcessingStatus.IDLE);
+    
+    if (idleImages.length === 0) return;
+
+    // Mark as converting first to prevent double processing
+    dispatch({ type: 'startConversions' });
+
+    const convertImage = async (img: ProcessedImage) => {
+      // A new conversion supersedes any job still running for the same image
+      cancelConversion(img.id);
+      const controller = new AbortController();
+      jobsRef.current.set(img.id, controller);
+
+      try {
+        const { result, recoveredResize, recoveryNote } = await convertWithRecovery(
+          poolRef.current!.convert, img.originalFile, img.settings, img.edits, controller.signal
+        );
+        const convertedUrl = await createOutputURL(result.blob);
+        if (controller.signal.aborted) {
+          URL.revokeObjectURL(convertedUrl);
+          return;
         }
+
+        // The previous output's URLs are revoked by the store once undo no longer needs them
+        dispatch({
+          type: 'update',
+          ids: [img.id],
+          changes: {
+            status: ProcessingStatus.COMPLETED,
+            conversionError: undefined,
+            recoveredResize,
+            recoveryNote,
+            convertedBlob: result.blob,
+            convertedUrl,
+            convertedSize: result.blob.size,
+            convertedWidth: result.width,
+            convertedHeight: result.height,
+            chosenQuality: result.quality,
+            targetMet: result.targetMet,
+            encoderUsed: result.encoder,
+            formatReason: result.formatReason,
+            keptOriginal: result.keptOriginal,
+            frameCount: result.frameCount,
+            metadataWarning: result.metadataWarning,
+            metrics: undefined,
+            variants: result.variants.map(v => ({
+              width: v.width,
+              height: v.height,
+              blob: v.blob,
+              url: URL.createObjectURL(v.blob),
+              size: v.blob.size
+            }))
+          }
+        });
+      } catch (error) {
+        if (isAbortError(error)) return;
+        console.error(`Error converting ${img.id}:`, error);
+        const conversionError = toConversionFailure(error);
+        dispatch({ type: 'update', ids: [img.id], changes: { status: ProcessingStatus.ERROR, conversionError, recoveredResize: undefined, recoveryNote: undefined } });
+      } finally {
+        if (jobsRef.current.get(img.id) === controller) jobsRef.current.delete(img.id);
       }
     };
 
-    processIdleImages();
+    // The pool enforces the concurrency limit, so every job can be queued at once
+    idleImages.forEach(convertImage);
   }, [images]);
 
-  const handleFiles = async (fileList: FileList | null) => {
-    if (!fileList) return;
-
-    // Convert FileList to Array to ensure proper iteration
-    const files = Array.from(fileList);
+  const handleFiles = async (imports: Promise<ImportedFile[]>) => {
+    const files = await imports.catch(err => {
+      console.error("Error reading dropped files", err);
+      return [] as ImportedFile[];
+    });
     const newImages: ProcessedImage[] = [];
     
-    for (const file of files) {
-      if (!file.type.startsWith('image/')) continue;
-
+    for (const { file, relativeDir } of files) {
       try {
-        const previewUrl = await fileToDataURL(file);
+        const previewUrl = await createPreviewURL(file);
+        const metadata = await readImageMetadata(file).catch(err => {
+          console.warn("Could not read metadata", file.name, err);
+          return undefined;
+        });
+        const animated = await isAnimatedSource(file).catch(() => false);
         
         newImages.push({
           id: crypto.randomUUID(), // Ensure unique ID
           originalFile: file,
+          relativeDir: relativeDir || undefined,
           previewUrl,
           convertedBlob: null,
           convertedUrl: null,
           status: ProcessingStatus.IDLE, // This triggers the useEffect
           originalSize: file.size,
           convertedSize: 0,
+          convertedWidth: 0,
+          convertedHeight: 0,
+          variants: [],
           settings: { ...globalSettings }, // Copy global settings as initial defaults
           altText: undefined,
-          isGeneratingAlt: false
+          metadata,
+          animated
         });
       } catch (err) {
         console.error("Error reading file", file.name, err);
       }
     }
 
-    setImages(prev => [...prev, ...newImages]);
+    dispatch({ type: 'add', images: newImages });
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    handleFiles(e.dataTransfer.files);
+    handleFiles(collectDroppedFiles(e.dataTransfer));
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    handleFiles(e.target.files);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (e.target.files) handleFiles(collectInputFiles(e.target.files));
+    e.target.value = '';
   };
 
-  const handleRemove = (id: string) => {
-    setImages(prev => {
-      const img = prev.find(p => p.id === id);
-      if (img?.convertedUrl) URL.revokeObjectURL(img.convertedUrl);
-      return prev.filter(p => p.id !== id);
-    });
+  const cancelJobs = ({ conversions, altText }: { conversions: string[]; altText: string[] }) => {
+    conversions.forEach(cancelConversion);
+    altText.forEach(id => altQueueRef.current?.cancel(id));
+  };
+
+  const removeImages = (ids: string[], label = `Remover ${ids.length} imagem(ns)`) => {
+    const removed = new Set(ids);
+    cancelJobs({ conversions: ids, altText: ids });
+    dispatch({ type: 'remove', ids, label });
+    setSelectedIds(prev => new Set([...prev].filter(id => !removed.has(id))));
+  };
+
+  const handleClearAll = () => {
+    const withAltText = images.filter(img => img.altText).length;
+    const message = `Remover todas as ${images.length} imagem(ns)${withAltText > 0 ? `, incluindo ${withAltText} Alt Text(s) gerado(s)` : ''}? Dá para desfazer com Ctrl+Z.`;
+    if (!window.confirm(message)) return;
+    removeImages(images.map(img => img.id), 'Limpar todas');
   };
 
-  const handleDownload = (id: string) => {
+  // Running jobs of the images an entry touches are cancelled: their results would overwrite it
+  const stepHistory = (entry: HistoryEntry | null, type: 'undo' | 'redo') => {
+    if (!entry) return;
+    cancelJobs(entryJobIds(entry));
+    dispatch({ type });
+  };
+
+  const handleUndo = () => stepHistory(undoEntry, 'undo');
+  const handleRedo = () => stepHistory(redoEntry, 'redo');
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || editingId || comparingId) return;
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) handleUndo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleRemove = (id: string) =>
+    removeImages([id], `Remover "${images.find(img => img.id === id)?.originalFile.name ?? 'imagem'}"`);
+
+  const handleDownload = (id: string, variantWidth?: number) => {
     const img = images.find(p => p.id === id);
-    if (img && img.convertedBlob) {
-      // Use the ACTUAL blob type for extension to avoid corrupted files if browser fallback occurred
-      const mime = img.convertedBlob.type; 
-      let ext = mime.split('/')[1];
-      if (ext === 'jpeg') ext = 'jpg';
-      
-      const name = img.originalFile.name.replace(/\.[^/.]+$/, "");
-      downloadBlob(img.convertedBlob, `${name}_opti.${ext}`);
+    if (!img || !img.convertedBlob) return;
+
+    const context = { index: images.indexOf(img) + 1, date: new Date() };
+    if (variantWidth === undefined) {
+      downloadBlob(img.convertedBlob, buildFileName(img, context, namingOptions));
+      return;
     }
+
+    const variant = img.variants.find(v => v.width === variantWidth);
+    if (variant) {
+      downloadBlob(variant.blob, buildFileName(img, { ...context, variantWidth }, namingOptions));
+    }
+  };
+
+  // JPEG/PNG copies for the <img> of outputs not every browser can show
+  const renderFallbacks = async (targets: ProcessedImage[]) => {
+    const fallbacks = new Map<string, Blob>();
+    for (const img of targets) {
+      if (img.status !== ProcessingStatus.COMPLETED || !img.convertedBlob || !img.convertedUrl) continue;
+      if (!needsFallback(img.convertedBlob)) continue;
+      try {
+        fallbacks.set(img.id, await createFallbackBlob(img.convertedUrl));
+      } catch (error) {
+        console.warn(`No fallback for ${img.originalFile.name}`, error);
+      }
+    }
+    return fallbacks;
   };
 
-  const handleDownloadAllZip = async () => {
-    const completedImages = images.filter(img => img.status === ProcessingStatus.COMPLETED && img.convertedBlob);
-    if (completedImages.length === 0) return;
+  const downloadZip = async (targets: ProcessedImage[], zipName: string) => {
+    if (!targets.some(img => img.status === ProcessingStatus.COMPLETED && img.convertedBlob)) return;
 
     setIsZipping(true);
 
     try {
+      const exported = planExport(targets, namingOptions, images, await renderFallbacks(targets));
       const zip = new JSZip();
-      const usedNames = new Set<string>();
 
-      completedImages.forEach(img => {
-        if (!img.convertedBlob) return;
-
-        // Determine correct extension
-        const mime = img.convertedBlob.type; 
-        let ext = mime.split('/')[1];
-        if (ext === 'jpeg') ext = 'jpg';
-
-        // Base name
-        const baseName = img.originalFile.name.replace(/\.[^/.]+$/, "") + "_opti";
-        let fileName = `${baseName}.${ext}`;
-
-        // Handle duplicates
-        let counter = 1;
-        while (usedNames.has(fileName)) {
-          fileName = `${baseName}_(${counter}).${ext}`;
-          counter++;
-        }
-        usedNames.add(fileName);
-
-        zip.file(fileName, img.convertedBlob);
+      // Paths keep the folder each file was imported from
+      exported.forEach(({ main, variants, fallback }) => {
+        zip.file(main.path, main.blob);
+        variants.forEach(v => zip.file(v.path, v.blob));
+        if (fallback) zip.file(fallback.path, fallback.blob);
       });
 
+      const manifest = exported.map(toManifestEntry);
+      zip.file("manifest.json", buildManifestJson(manifest));
+      zip.file("manifest.csv", buildManifestCsv(manifest));
+
       const content = await zip.generateAsync({ type: "blob" });
-      downloadBlob(content, "optipix_otimizadas.zip");
+      downloadBlob(content, zipName);
     } catch (error) {
       console.error("Failed to zip files", error);
       alert("Ocorreu um erro ao criar o arquivo ZIP.");
@@ -180,33 +544,153 @@ const App: React.FC = () => {
     }
   };
 
-  const handleGenerateAlt = async (id: string) => {
-    setImages(prev => prev.map(p => p.id === id ? { ...p, isGeneratingAlt: true } : p));
-    
-    const img = images.find(p => p.id === id);
-    if (!img) return;
+  const handleDownloadAllZip = () => downloadZip(images, "optipix_otimizadas.zip");
 
+  const copyHtml = async (targets: ProcessedImage[]) => {
+    // Same plan as the ZIP, so the markup names the files it contains
+    const exported = planExport(targets, namingOptions, images, await renderFallbacks(targets));
+    const html = exported.map(buildPictureHtml).join('\n\n');
+    if (!html) return false;
     try {
-      const altText = await generateImageAltText(img.previewUrl, img.originalFile.type);
-      setImages(prev => prev.map(p => p.id === id ? { ...p, altText, isGeneratingAlt: false } : p));
+      await navigator.clipboard.writeText(html);
+      return true;
     } catch (error) {
-        setImages(prev => prev.map(p => p.id === id ? { ...p, isGeneratingAlt: false } : p));
-        alert("Erro ao conectar com Gemini AI. Verifique sua chave de API.");
+      console.error("Failed to copy HTML", error);
+      alert("Não foi possível copiar o HTML para a área de transferência.");
+      return false;
     }
   };
 
-  // Fix: Completed the handleUpdateImageSettings function
-  const handleUpdateImageSettings = (id: string, newSettings: Partial<ConversionSettings>) => {
-    setImages(prev => prev.map(img => {
-      if (img.id === id) {
-        return {
-          ...img,
-          settings: { ...img.settings, ...newSettings },
-          status: ProcessingStatus.IDLE
-        };
+  const updateAltState = (id: string, changes: Partial<ProcessedImage>) => {
+    dispatch({ type: 'update', ids: [id], changes });
+  };
+
+  const queueAltText = (ids: string[]) => {
+    const targets = images.filter(img => ids.includes(img.id));
+    if (targets.length === 0) return;
+
+    dispatch({ type: 'update', ids, changes: { altTextStatus: AltTextStatus.QUEUED, altTextError: undefined } });
+    // Ids queued again replace their pending run and are already counted
+    const added = targets.filter(img => !altRunsRef.current.has(img.id)).length;
+    setAltBatchTotal(total => total + added);
+    const provider = createCaptioningProvider(captioningConfig);
+
+    targets.forEach(img => {
+      let thumbnail: Promise<string> | null = null;
+      const run = Symbol(img.id);
+      altRunsRef.current.set(img.id, run);
+      const settle = () => {
+        if (altRunsRef.current.get(img.id) !== run) return false;
+        altRunsRef.current.delete(img.id);
+        return true;
+      };
+
+      altQueueRef.current!.run(img.id, async (signal) => {
+        // Only the downscaled copy is sent; it is reused across retries
+        thumbnail ??= createDownscaledDataURL(img.previewUrl, ALT_TEXT_MAX_SIDE);
+        return provider.generate({ imageDataUrl: await thumbnail, mimeType: ImageFormat.JPEG, options: altTextOptions }, signal);
+      }, {
+        onStart: () => updateAltState(img.id, { altTextStatus: AltTextStatus.GENERATING }),
+        onRetry: (attempt, delay, error) => updateAltState(img.id, {
+          altTextStatus: AltTextStatus.RETRYING,
+          altTextError: `${describeCaptioningError(error)} Nova tentativa (${attempt}) em ${Math.ceil(delay / 1000)}s.`
+        })
+      }).then(
+        result => {
+          if (settle()) dispatch({ type: 'altTextGenerated', id: img.id, altText: result.altText, textSuggestions: result.suggestions });
+        },
+        error => {
+          if (!settle()) return;
+          if (isAbortError(error)) {
+            updateAltState(img.id, { altTextStatus: undefined, altTextError: undefined });
+            return;
+          }
+          console.error(`Error generating alt text for ${img.id}:`, error);
+          updateAltState(img.id, { altTextStatus: AltTextStatus.ERROR, altTextError: describeCaptioningError(error) });
+        }
+      );
+    });
+  };
+
+  const handleGenerateAlt = (id: string) => queueAltText([id]);
+
+  const handleCancelAlt = (id: string) => altQueueRef.current?.cancel(id);
+
+  const handleAnalyze = async (id: string) => {
+    const img = images.find(p => p.id === id);
+    if (!img || img.status !== ProcessingStatus.COMPLETED) return;
+
+    dispatch({ type: 'update', ids: [id], changes: { isAnalyzing: true } });
+
+    try {
+      const metrics = await analyzeConversion(img);
+      // Discard the result if the image was re-converted or removed meanwhile
+      if (imagesRef.current.find(p => p.id === id)?.convertedUrl !== img.convertedUrl) {
+        URL.revokeObjectURL(metrics.heatmapUrl);
+        dispatch({ type: 'update', ids: [id], changes: { isAnalyzing: false } });
+        return;
       }
-      return img;
-    }));
+      dispatch({ type: 'update', ids: [id], changes: { metrics, isAnalyzing: false } });
+    } catch (error) {
+      console.error(`Error analyzing ${id}:`, error);
+      dispatch({ type: 'update', ids: [id], changes: { isAnalyzing: false } });
+    }
+  };
+
+  // Changing settings (even to nothing) queues a new conversion; only labelled changes can be undone
+  const updateImagesSettings = (ids: string[], newSettings: Partial<ConversionSettings>, label?: string) => {
+    ids.forEach(cancelConversion);
+    dispatch({ type: 'updateSettings', ids, settings: newSettings, label });
+  };
+
+  const handleUpdateImageSettings = (id: string, newSettings: Partial<ConversionSettings>) =>
+    updateImagesSettings([id], newSettings, 'Alterar configurações');
+
+  const retryConversions = (ids: string[]) => updateImagesSettings(ids, {});
+
+  const handleSaveEdits = (id: string, edits: ImageEdits, aspect?: AspectPreset) => {
+    cancelConversion(id);
+    dispatch({ type: 'updateEdits', id, edits: hasEdits(edits) ? edits : undefined, size: aspect?.size });
+    setEditingId(null);
+  };
+
+  const handleApplyPreset = (preset: SettingsPreset, ids: string[]) => {
+    updateImagesSettings(ids, preset.settings, `Aplicar preset "${preset.name}"`);
+  };
+
+  const handleToggleSelect = (id: string, extendRange: boolean) => {
+    // Read the anchor now: the state updater may run after the ref moves on
+    const anchorIndex = images.findIndex(p => p.id === lastSelectedRef.current);
+    const index = images.findIndex(p => p.id === id);
+    lastSelectedRef.current = id;
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const select = !prev.has(id);
+      const range = extendRange && anchorIndex !== -1
+        ? images.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1).map(p => p.id)
+        : [id];
+      range.forEach(rangeId => select ? next.add(rangeId) : next.delete(rangeId));
+      return next;
+    });
+  };
+
+  const selectedImages = images.filter(img => selectedIds.has(img.id));
+  const failedImages = images.filter(img => img.status === ProcessingStatus.ERROR);
+  const editingImage = images.find(img => img.id === editingId);
+
+
+
+  const handleSavePreset = (name: string) => {
+    setPresets(prev => [...prev, createPreset(name, globalSettings)]);
+  };
+
+  const handleRenamePreset = (id: string, name: string) => {
+    setPresets(prev => prev.map(p => p.id === id && !p.builtIn ? { ...p, name: name.trim() } : p));
+  };
+
+  const handleDeletePreset = (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id || p.builtIn));
   };
 
   return (
@@ -222,6 +706,26 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-4">
+            {(undoEntry || redoEntry) && (
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={handleUndo}
+                  disabled={!undoEntry}
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent rounded-lg transition-colors"
+                  title={undoEntry ? `Desfazer: ${undoEntry.label} (Ctrl+Z)` : 'Nada para desfazer'}
+                >
+                  <Undo2 size={16} />
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={!redoEntry}
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent rounded-lg transition-colors"
+                  title={redoEntry ? `Refazer: ${redoEntry.label} (Ctrl+Shift+Z)` : 'Nada para refazer'}
+                >
+                  <Redo2 size={16} />
+                </button>
+              </div>
+            )}
             {images.length > 0 && (
               <button 
                 onClick={handleDownloadAllZip}
@@ -264,55 +768,206 @@ const App: React.FC = () => {
               </div>
               <div className="space-y-1">
                 <p className="text-xl font-semibold">Arraste e solte ou clique para selecionar</p>
-                <p className="text-sm text-slate-500">Suporta PNG, JPG, WEBP e AVIF</p>
+                <p className="text-sm text-slate-500">Suporta PNG, JPG, WEBP e AVIF, pastas e arquivos ZIP</p>
               </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+              >
+                <FolderOpen size={16} />
+                Selecionar pasta
+              </button>
               <input 
                 type="file" 
                 ref={fileInputRef} 
                 onChange={handleFileSelect} 
                 className="hidden" 
                 multiple 
-                accept="image/*" 
+                accept={UPLOAD_ACCEPT} 
               />
+              <input type="file" ref={folderInputRef} onChange={handleFileSelect} className="hidden" {...FOLDER_INPUT_PROPS} />
             </div>
           </div>
         ) : (
           <div className="space-y-6">
             {/* Global Actions */}
             <div className="flex flex-wrap items-center justify-between gap-4 bg-slate-900/80 p-4 rounded-2xl border border-slate-800">
-              <div className="flex items-center gap-6">
+              <div className="flex flex-wrap items-center gap-6">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Preset:</span>
+                  <PresetManager
+                    presets={presets}
+                    onApply={(preset) => setGlobalSettings(preset.settings)}
+                    onApplyToAll={(preset) => {
+                      setGlobalSettings(preset.settings);
+                      handleApplyPreset(preset, images.map(img => img.id));
+                    }}
+                    onSaveCurrent={handleSavePreset}
+                    onRename={handleRenamePreset}
+                    onDelete={handleDeletePreset}
+                    onImport={(imported) => setPresets(prev => [...prev, ...imported])}
+                  />
+                </div>
                 <div className="flex items-center gap-2">
                   <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Global Format:</span>
                   <div className="flex bg-slate-950 p-1 rounded-lg border border-slate-800">
                     <button 
-                      onClick={() => setGlobalSettings(s => ({ ...s, format: ImageFormat.WEBP }))}
-                      className={`px-3 py-1 text-xs font-bold rounded ${globalSettings.format === ImageFormat.WEBP ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                      onClick={() => setGlobalSettings(s => ({ ...s, autoFormat: true }))}
+                      className={`px-3 py-1 text-xs font-bold rounded ${globalSettings.autoFormat ? 'bg-pink-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                      title="Testa AVIF, WebP e JPEG e fica com o menor arquivo aceitável"
+                    >
+                      AUTO
+                    </button>
+                    <button 
+                      onClick={() => setGlobalSettings(s => ({ ...s, format: ImageFormat.WEBP, autoFormat: false }))}
+                      className={`px-3 py-1 text-xs font-bold rounded ${!globalSettings.autoFormat && globalSettings.format === ImageFormat.WEBP ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
                     >
                       WEBP
                     </button>
                     <button 
-                      onClick={() => setGlobalSettings(s => ({ ...s, format: ImageFormat.AVIF }))}
-                      className={`px-3 py-1 text-xs font-bold rounded ${globalSettings.format === ImageFormat.AVIF ? 'bg-purple-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                      onClick={() => setGlobalSettings(s => ({ ...s, format: ImageFormat.AVIF, autoFormat: false }))}
+                      className={`px-3 py-1 text-xs font-bold rounded ${!globalSettings.autoFormat && globalSettings.format === ImageFormat.AVIF ? 'bg-purple-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
                     >
                       AVIF
                     </button>
+                    <button 
+                      onClick={() => setGlobalSettings(s => ({ ...s, format: ImageFormat.JXL, autoFormat: false }))}
+                      className={`px-3 py-1 text-xs font-bold rounded ${!globalSettings.autoFormat && globalSettings.format === ImageFormat.JXL ? 'bg-teal-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                      title="JPEG XL (encoder WASM)"
+                    >
+                      JXL
+                    </button>
+                    <button 
+                      onClick={() => setGlobalSettings(s => ({ ...s, format: ImageFormat.JPEG, autoFormat: false }))}
+                      className={`px-3 py-1 text-xs font-bold rounded ${!globalSettings.autoFormat && globalSettings.format === ImageFormat.JPEG ? 'bg-amber-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      JPEG
+                    </button>
+                    <button 
+                      onClick={() => setGlobalSettings(s => ({ ...s, format: ImageFormat.PNG, autoFormat: false }))}
+                      className={`px-3 py-1 text-xs font-bold rounded ${!globalSettings.autoFormat && globalSettings.format === ImageFormat.PNG ? 'bg-emerald-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      PNG
+                    </button>
                   </div>
+                  <FormatOptions
+                    settings={globalSettings}
+                    onChange={(changes) => setGlobalSettings(s => ({ ...s, ...changes }))}
+                  />
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Encoder:</span>
+                  <EncoderControls
+                    settings={globalSettings}
+                    onChange={(changes) => setGlobalSettings(s => ({ ...s, ...changes }))}
+                  />
                 </div>
                 <div className="flex items-center gap-3">
                   <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Global Quality:</span>
+                  <div className="flex bg-slate-950 p-1 rounded-lg border border-slate-800">
+                    <button 
+                      onClick={() => setGlobalSettings(s => ({ ...s, qualityMode: QualityMode.FIXED }))}
+                      className={`px-3 py-1 text-xs font-bold rounded ${globalSettings.qualityMode === QualityMode.FIXED ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      %
+                    </button>
+                    <button 
+                      onClick={() => setGlobalSettings(s => ({ ...s, qualityMode: QualityMode.TARGET_SIZE }))}
+                      className={`px-3 py-1 text-xs font-bold rounded ${globalSettings.qualityMode === QualityMode.TARGET_SIZE ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                    >
+                      KB
+                    </button>
+                    <button 
+                      onClick={() => setGlobalSettings(s => ({ ...s, qualityMode: QualityMode.MIN_SSIM }))}
+                      className={`px-3 py-1 text-xs font-bold rounded ${globalSettings.qualityMode === QualityMode.MIN_SSIM ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                      title="Menor qualidade que mantém o SSIM mínimo"
+                    >
+                      SSIM
+                    </button>
+                  </div>
+                  {globalSettings.qualityMode === QualityMode.FIXED && !globalSettings.autoFormat && globalSettings.format === ImageFormat.PNG ? (
+                    <span className="text-xs text-slate-500">Sem perdas</span>
+                  ) : globalSettings.qualityMode === QualityMode.FIXED ? (
+                    <>
+                      <input 
+                        type="range" min="0.1" max="1.0" step="0.05" 
+                        value={globalSettings.quality}
+                        onChange={(e) => setGlobalSettings(s => ({ ...s, quality: parseFloat(e.target.value) }))}
+                        className="w-32 accent-blue-500"
+                      />
+                      <span className="text-xs font-mono text-blue-400 font-bold">{Math.round(globalSettings.quality * 100)}%</span>
+                    </>
+                  ) : globalSettings.qualityMode === QualityMode.TARGET_SIZE ? (
+                    <TargetSizeControls
+                      settings={globalSettings}
+                      onChange={(changes) => setGlobalSettings(s => ({ ...s, ...changes }))}
+                    />
+                  ) : (
+                    <input 
+                      type="number" min="0.5" max="0.999" step="0.005"
+                      value={globalSettings.minSsim}
+                      onChange={(e) => {
+                        const minSsim = parseFloat(e.target.value);
+                        if (minSsim > 0 && minSsim < 1) setGlobalSettings(s => ({ ...s, minSsim }));
+                      }}
+                      className="w-20 bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs font-mono text-blue-400 font-bold focus:outline-none focus:border-blue-500"
+                      title="SSIM mínimo"
+                    />
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Metadados:</span>
+                  <MetadataPolicySelect
+                    value={globalSettings.metadataPolicy}
+                    onChange={(metadataPolicy) => setGlobalSettings(s => ({ ...s, metadataPolicy }))}
+                  />
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Marca d'água:</span>
+                  <WatermarkControls
+                    watermark={globalSettings.watermark}
+                    onChange={(watermark) => setGlobalSettings(s => ({ ...s, watermark }))}
+                  />
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Nomes:</span>
+                  <NamingControls
+                    options={namingOptions}
+                    onChange={setNamingOptions}
+                    previewImage={images.find(img => img.convertedBlob)}
+                  />
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Paralelo:</span>
                   <input 
-                    type="range" min="0.1" max="1.0" step="0.05" 
-                    value={globalSettings.quality}
-                    onChange={(e) => setGlobalSettings(s => ({ ...s, quality: parseFloat(e.target.value) }))}
-                    className="w-32 accent-blue-500"
+                    type="number" min="1" max="16"
+                    value={concurrency}
+                    onChange={(e) => setConcurrency(Math.min(16, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                    className="w-14 bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs font-mono text-blue-400 font-bold focus:outline-none focus:border-blue-500"
+                    title="Número máximo de conversões simultâneas"
                   />
-                  <span className="text-xs font-mono text-blue-400 font-bold">{Math.round(globalSettings.quality * 100)}%</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Global Resize:</span>
+                  <div className="w-72">
+                    <ResizeControls
+                      resize={globalSettings.resize}
+                      onChange={(resize) => setGlobalSettings(s => ({ ...s, resize }))}
+                    />
+                  </div>
                 </div>
               </div>
 
               <div className="flex items-center gap-2">
+                {storageUsage !== null && (
+                  <span className="flex items-center gap-1 text-xs text-slate-500" title="Espaço usado para salvar a sessão neste navegador">
+                    <HardDrive size={14} />
+                    {formatBytes(storageUsage, 1)}
+                  </span>
+                )}
                 <button 
-                  onClick={() => setImages([])}
+                  onClick={handleClearAll}
+                  title="Remove todas as imagens, inclusive as salvas neste navegador"
                   className="flex items-center gap-2 px-3 py-2 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded-lg text-sm transition-colors"
                 >
                   <Trash2 size={16} />
@@ -325,10 +980,55 @@ const App: React.FC = () => {
                   <Upload size={16} />
                   Adicionar Mais
                 </button>
-                <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" multiple accept="image/*" />
+                <button 
+                  onClick={() => folderInputRef.current?.click()}
+                  className="p-2 bg-slate-800 hover:bg-slate-700 text-white rounded-lg transition-colors"
+                  title="Adicionar pasta"
+                >
+                  <FolderOpen size={16} />
+                </button>
+                <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" multiple accept={UPLOAD_ACCEPT} />
+                <input type="file" ref={folderInputRef} onChange={handleFileSelect} className="hidden" {...FOLDER_INPUT_PROPS} />
               </div>
             </div>
 
+            <SelectionBar
+              selectedCount={selectedImages.length}
+              totalCount={images.length}
+              failedCount={failedImages.length}
+              presets={presets}
+              isZipping={isZipping}
+              onSelectAll={() => setSelectedIds(new Set(images.map(img => img.id)))}
+              onSelectNone={() => setSelectedIds(new Set())}
+              onSelectFailed={() => setSelectedIds(new Set(failedImages.map(img => img.id)))}
+              onApplyGlobalSettings={() => updateImagesSettings(selectedImages.map(img => img.id), globalSettings, 'Aplicar configurações globais')}
+              onApplyPreset={(preset) => handleApplyPreset(preset, selectedImages.map(img => img.id))}
+              onReconvert={() => updateImagesSettings(selectedImages.map(img => img.id), {})}
+              onGenerateAlt={() => queueAltText(selectedImages.map(img => img.id))}
+              onDownloadZip={() => downloadZip(selectedImages, "optipix_selecao.zip")}
+              onCopyHtml={() => copyHtml(selectedImages)}
+              onRemove={() => removeImages(selectedImages.map(img => img.id))}
+            />
+
+            <ConversionFailures failed={failedImages} onRetry={retryConversions} />
+
+            <StatsDashboard images={images} />
+
+            <AltTextQueueBar
+              batchTotal={altBatchTotal}
+              pendingCount={pendingAltCount}
+              failedCount={images.filter(img => img.altTextStatus === AltTextStatus.ERROR).length}
+              missingCount={altCandidates.length}
+              concurrency={altConcurrency}
+              onConcurrencyChange={setAltConcurrency}
+              options={altTextOptions}
+              onOptionsChange={setAltTextOptions}
+              captioningConfig={captioningConfig}
+              onCaptioningConfigChange={setCaptioningConfig}
+              onGenerateAll={() => queueAltText(altCandidates.map(img => img.id))}
+              onCancelAll={() => altQueueRef.current?.cancelAll()}
+            />
+
             {/* Images List */}
             <div className="grid grid-cols-1 gap-6">
               {images.map(image => (
@@ -337,8 +1037,20 @@ const App: React.FC = () => {
                   image={image}
                   onRemove={handleRemove}
                   onDownload={handleDownload}
+                  onCopyHtml={(id) => copyHtml(images.filter(img => img.id === id))}
                   onGenerateAlt={handleGenerateAlt}
+                  onCancelAlt={handleCancelAlt}
+                  onUpdateAltText={(id, altText) => dispatch({ type: 'editAltText', id, altText })}
+                  altTextMaxLength={altTextOptions.maxLength}
+                  onAnalyze={handleAnalyze}
+                  onCompare={setComparingId}
+                  onEdit={setEditingId}
                   onUpdateSettings={handleUpdateImageSettings}
+                  onRetry={(id) => retryConversions([id])}
+                  presets={presets}
+                  onApplyPreset={(id, preset) => handleApplyPreset(preset, [id])}
+                  isSelected={selectedIds.has(image.id)}
+                  onToggleSelect={handleToggleSelect}
                 />
               ))}
             </div>
@@ -346,6 +1058,23 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {editingImage && (
+        <ImageEditor
+          image={editingImage}
+          onSave={handleSaveEdits}
+          onClose={() => setEditingId(null)}
+        />
+      )}
+
+      {comparingId && (
+        <ComparisonViewer
+          images={images.filter(img => img.status === ProcessingStatus.COMPLETED && img.convertedUrl)}
+          currentId={comparingId}
+          onNavigate={setComparingId}
+          onClose={() => setComparingId(null)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="mt-auto border-t border-slate-900 bg-slate-950 p-8 text-center text-slate-600">
         <div className="max-w-6xl mx-auto flex flex-col md:flex-row justify-between items-center gap-4">
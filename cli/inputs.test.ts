@@ -0,0 +1,53 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { expandInputs } from './inputs';
+
+const FILES = ['a.jpg', 'b.png', 'notes.txt', 'fotos/c.jpg', 'fotos/2024/d.JPG', 'fotos/2024/e.webp', 'fotos/.cache/f.jpg', 'x1.png', 'x10.png'];
+
+describe('expandInputs', () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'optipix-inputs-'));
+    for (const file of FILES) {
+      await mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await writeFile(path.join(root, file), '');
+    }
+  });
+
+  afterAll(() => rm(root, { recursive: true, force: true }));
+
+  // Inputs as "relativeDir|file name", in a stable order
+  const expand = async (...patterns: string[]) =>
+    (await expandInputs(patterns.map(pattern => `${root}/${pattern}`)))
+      .map(input => `${input.relativeDir}|${path.basename(input.path)}`)
+      .sort();
+
+  it('walks folders for images, skipping hidden entries', async () => {
+    expect(await expand('fotos')).toEqual(['2024|d.JPG', '2024|e.webp', '|c.jpg']);
+  });
+
+  it('keeps files listed explicitly whatever their extension', async () => {
+    expect(await expand('notes.txt')).toEqual(['|notes.txt']);
+  });
+
+  it('matches * and ? within a single folder', async () => {
+    expect(await expand('*.jpg')).toEqual(['|a.jpg']);
+    expect(await expand('x?.png')).toEqual(['|x1.png']);
+  });
+
+  it('matches ** across any number of folders, including none', async () => {
+    expect(await expand('**/*.jpg')).toEqual(['fotos|c.jpg', '|a.jpg']);
+    expect(await expand('fotos/**/*.{jpg,JPG}')).toEqual(['2024|d.JPG', '|c.jpg']);
+  });
+
+  it('lists each file once across overlapping patterns', async () => {
+    expect(await expand('*.png', 'b.png', '{b,x1}.png')).toEqual(['|b.png', '|x1.png', '|x10.png']);
+  });
+
+  it('returns nothing for globs under a missing folder', async () => {
+    expect(await expand('missing/*.jpg')).toEqual([]);
+  });
+});
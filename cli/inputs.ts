@@ -0,0 +1,108 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+import { IMAGE_TYPES_BY_EXTENSION } from './nodeBackend';
+
+/**
+ * Expands the command-line inputs (files, folders and quoted globs) into image
+ * files, keeping the folder each one came from so the output can mirror it.
+ */
+
+export interface InputFile {
+  path: string;
+  relativeDir: string; // Folder relative to the input root, '' for the root
+}
+
+const GLOB_CHARS = /[*?{]/;
+
+const toPosix = (value: string) => value.split(path.sep).join('/');
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+const isImagePath = (name: string) => getExtension(name) in IMAGE_TYPES_BY_EXTENSION;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Converts a glob with `*`, `**`, `?` and `{a,b}` into a RegExp over
+ * '/'-separated relative paths.
+ */
+const globToRegExp = (glob: string) => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no folder at all
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      source += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+// Every file below `dir`, as posix paths relative to it. Hidden entries are skipped.
+const walk = async (dir: string, prefix = ''): Promise<string[]> => {
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.')) continue;
+    const relative = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await walk(path.join(dir, entry.name), relative));
+    } else if (entry.isFile()) {
+      files.push(relative);
+    }
+  }
+  return files;
+};
+
+const dirName = (relative: string) => relative.split('/').slice(0, -1).join('/');
+
+const expandPattern = async (pattern: string): Promise<InputFile[]> => {
+  const parts = toPosix(pattern).split('/');
+  const firstGlob = parts.findIndex(part => GLOB_CHARS.test(part));
+
+  if (firstGlob === -1) {
+    const info = await stat(pattern).catch(() => null);
+    if (!info) throw new Error(`Entrada não encontrada: ${pattern}`);
+    if (info.isFile()) return [{ path: path.resolve(pattern), relativeDir: '' }];
+    return (await walk(pattern))
+      .filter(isImagePath)
+      .map(relative => ({ path: path.resolve(pattern, relative), relativeDir: dirName(relative) }));
+  }
+
+  // Walk from the fixed part of the pattern and match the rest
+  const base = parts.slice(0, firstGlob).join('/') || '.';
+  const matcher = globToRegExp(parts.slice(firstGlob).join('/'));
+  const info = await stat(base).catch(() => null);
+  if (!info?.isDirectory()) return [];
+  return (await walk(base))
+    .filter(relative => matcher.test(relative) && isImagePath(relative))
+    .map(relative => ({ path: path.resolve(base, relative), relativeDir: dirName(relative) }));
+};
+
+/**
+ * Files listed explicitly are kept whatever their extension, so unsupported
+ * ones are reported instead of silently skipped.
+ */
+export const expandInputs = async (patterns: string[]): Promise<InputFile[]> => {
+  const seen = new Set<string>();
+  const inputs: InputFile[] = [];
+  for (const pattern of patterns) {
+    for (const input of await expandPattern(pattern)) {
+      if (seen.has(input.path)) continue;
+      seen.add(input.path);
+      inputs.push(input);
+    }
+  }
+  return inputs;
+};
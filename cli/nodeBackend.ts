@@ -0,0 +1,85 @@
+import { ImageFormat } from '../types';
+import { ConversionError } from '../utils/conversionErrors';
+import type { PixelBuffer } from '../utils/metrics';
+import { ConversionBackend } from '../utils/pipeline';
+import { resamplePixels } from '../utils/pixels';
+import { DecodedSource, decodeWithCodecs, detectSourceKind, isAnimatedWebp } from '../utils/sourceDecoders';
+
+type Decoder = (buffer: ArrayBuffer) => Promise<PixelBuffer | null>;
+
+// Decoders are imported lazily, like the encoders
+const DECODERS: Record<string, () => Promise<Decoder>> = {
+  [ImageFormat.JPEG]: async () => (await import('@jsquash/jpeg/decode.js')).default,
+  [ImageFormat.PNG]: async () => (await import('@jsquash/png/decode.js')).default,
+  [ImageFormat.WEBP]: async () => (await import('@jsquash/webp/decode.js')).default,
+  [ImageFormat.AVIF]: async () => (await import('@jsquash/avif/decode.js')).default,
+  [ImageFormat.JXL]: async () => (await import('@jsquash/jxl/decode.js')).default
+};
+
+export const IMAGE_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: ImageFormat.JPEG,
+  jpeg: ImageFormat.JPEG,
+  png: ImageFormat.PNG,
+  webp: ImageFormat.WEBP,
+  avif: ImageFormat.AVIF,
+  jxl: ImageFormat.JXL,
+  gif: 'image/gif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml' // Picked up so it is reported as unsupported rather than skipped
+};
+
+const UNREADABLE = 'Não foi possível decodificar a imagem (arquivo corrompido?)';
+export const ANIMATED_UNSUPPORTED = 'Imagens animadas não são suportadas na linha de comando; converta no app.';
+
+/**
+ * Decodes an image with the shared HEIC/TIFF/GIF decoders or the jSquash WASM
+ * decoders. MozJPEG applies the EXIF orientation, matching what browsers do.
+ * Sources the app converts differently fail instead of producing another
+ * output: SVG needs a DOM and animated WebP a decoder that does not load in Node.
+ */
+export const decodeSource = async (blob: Blob): Promise<DecodedSource> => {
+  const kind = await detectSourceKind(blob);
+  if (kind === 'svg') throw new Error('SVG não é suportado na linha de comando; converta no app.');
+  if (kind === 'heic' || kind === 'tiff' || kind === 'gif') {
+    const decoded = await decodeWithCodecs(blob, kind).catch(error => {
+      // Too large to decode is not a corrupt file
+      if (error instanceof ConversionError) throw error;
+      return null;
+    });
+    if (!decoded) throw new Error(UNREADABLE);
+    return decoded;
+  }
+  if (kind === 'webp' && isAnimatedWebp(new Uint8Array(await blob.slice(0, 32).arrayBuffer()))) {
+    throw new Error(ANIMATED_UNSUPPORTED);
+  }
+
+  const load = DECODERS[blob.type];
+  if (!load) {
+    throw new Error(`Formato não suportado: ${blob.type || 'desconhecido'}`);
+  }
+  const decode = await load();
+  // Codec errors are opaque (e.g. "unwrap_throw failed")
+  const decoded = await decode(await blob.arrayBuffer()).catch(() => null);
+  if (!decoded) {
+    throw new Error(UNREADABLE);
+  }
+  return { pixels: decoded, animation: null };
+};
+
+export const decodeImage = async (blob: Blob): Promise<PixelBuffer> => (await decodeSource(blob)).pixels;
+
+/**
+ * Pipeline backend over decoded pixels. There is no canvas in Node: drawing
+ * is done in JS and encoding always goes through the WASM encoders.
+ */
+export const createNodeBackend = (source: PixelBuffer): ConversionBackend => ({
+  render: async () => {
+    throw new Error('Encoder nativo indisponível fora do navegador');
+  },
+  supportsNative: async () => false,
+  rasterize: async (geometry, background) => resamplePixels(source, geometry, background),
+  decode: decodeImage
+});
@@ -0,0 +1,41 @@
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Browser globals the jSquash codecs rely on, provided for Node.
+ */
+
+class NodeImageData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+  colorSpace = 'srgb';
+
+  constructor(dataOrWidth: Uint8ClampedArray | number, width: number, height?: number) {
+    if (typeof dataOrWidth === 'number') {
+      this.data = new Uint8ClampedArray(dataOrWidth * width * 4);
+      this.width = dataOrWidth;
+      this.height = width;
+    } else {
+      this.data = dataOrWidth;
+      this.width = width;
+      this.height = height ?? dataOrWidth.length / 4 / width;
+    }
+  }
+}
+
+/**
+ * - `fetch` for file: URLs, which the codecs use to load the .wasm next to their JS
+ * - `ImageData`, which the decoders construct and OxiPNG checks for
+ */
+export const installNodeGlobals = () => {
+  const fetchRemote = globalThis.fetch;
+  globalThis.fetch = async (input, init) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (!url.startsWith('file:')) return fetchRemote(input, init);
+    const bytes = await readFile(fileURLToPath(url));
+    return new Response(new Uint8Array(bytes), { headers: { 'Content-Type': 'application/wasm' } });
+  };
+
+  globalThis.ImageData ??= NodeImageData as unknown as typeof ImageData;
+};
@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  ConversionSettings,
+  EncoderPreference,
+  ImageFormat,
+  NamingOptions,
+  ProcessedImage,
+  ProcessingStatus
+} from '../types';
+import { buildManifestCsv, buildManifestJson, planExport, toManifestEntry } from '../utils/exportManifest';
+import { DEFAULT_NAMING_OPTIONS } from '../utils/naming';
+import { formatBytes, parseWidthList, runConversion } from '../utils/pipeline';
+import { DEFAULT_SETTINGS, parsePresets, sanitizeSettings } from '../utils/presets';
+import { isWatermarkActive } from '../utils/watermark';
+import { InputFile, expandInputs } from './inputs';
+import { ANIMATED_UNSUPPORTED, IMAGE_TYPES_BY_EXTENSION, createNodeBackend, decodeSource } from './nodeBackend';
+import { installNodeGlobals } from './nodeEnvironment';
+
+/**
+ * Batch converter for Node: runs the same pipeline as the app over files on disk.
+ *
+ *   optipix convert ./in --out ./out --format webp --quality 0.8
+ */
+
+const USAGE = `Uso: optipix convert <entradas...> --out <pasta> [opções]
+
+Entradas: arquivos, pastas (percorridas recursivamente) ou globs entre aspas,
+ex.: "fotos/**/*.{jpg,png}". A estrutura de pastas é mantida na saída.
+
+Opções:
+  -o, --out <pasta>        Pasta de saída (obrigatória)
+  -f, --format <formato>   webp, avif, jpeg, png, jxl ou auto
+  -q, --quality <0-1>      Qualidade, ex.: 0.8
+      --max-width <px>     Largura máxima
+      --max-height <px>    Altura máxima
+      --widths <lista>     Variantes responsivas, ex.: "320,640,1280"
+      --preset <arquivo>   Arquivo JSON exportado pelo gerenciador de presets
+      --preset-name <nome> Preset do arquivo a usar (padrão: o primeiro)
+      --name <modelo>      Modelo de nome, ex.: "{name}-{width}w" (padrão: ${DEFAULT_NAMING_OPTIONS.template})
+      --no-manifest        Não grava manifest.json e manifest.csv
+  -h, --help               Mostra esta ajuda
+
+Sai com código 1 se alguma imagem falhar e 2 se os argumentos forem inválidos.`;
+
+const OPTIONS = {
+  out: { type: 'string', short: 'o' },
+  format: { type: 'string', short: 'f' },
+  quality: { type: 'string', short: 'q' },
+  'max-width': { type: 'string' },
+  'max-height': { type: 'string' },
+  widths: { type: 'string' },
+  preset: { type: 'string' },
+  'preset-name': { type: 'string' },
+  name: { type: 'string' },
+  'no-manifest': { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' }
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>['values'];
+
+const FORMATS_BY_NAME: Record<string, ImageFormat> = {
+  webp: ImageFormat.WEBP,
+  avif: ImageFormat.AVIF,
+  jpeg: ImageFormat.JPEG,
+  jpg: ImageFormat.JPEG,
+  png: ImageFormat.PNG,
+  jxl: ImageFormat.JXL
+};
+
+const EXIT_FAILURES = 1;
+const EXIT_USAGE = 2;
+
+// Invalid arguments: reported with the usage hint and exit code 2
+class UsageError extends Error {}
+
+const parseDimension = (value: string | undefined, option: string): number | null | undefined => {
+  if (value === undefined) return undefined;
+  const number = parseInt(value, 10);
+  if (!(number > 0)) throw new UsageError(`--${option} deve ser um número de pixels maior que zero.`);
+  return number;
+};
+
+const readPresetFile = async (file: string, name?: string): Promise<ConversionSettings> => {
+  const presets = parsePresets(await readFile(file, 'utf8'));
+  const preset = name ? presets.find(p => p.name === name) : presets[0];
+  if (!preset) {
+    throw new UsageError(`Preset "${name}" não encontrado (disponíveis: ${presets.map(p => p.name).join(', ')}).`);
+  }
+  return preset.settings;
+};
+
+/**
+ * Preset (or defaults) with the command-line overrides on top, validated by
+ * the same sanitizer as imported presets.
+ */
+const resolveSettings = async (values: CliValues): Promise<ConversionSettings> => {
+  const base = values.preset ? await readPresetFile(values.preset, values['preset-name']) : DEFAULT_SETTINGS;
+  const overrides: Partial<ConversionSettings> = {};
+
+  if (values.format !== undefined) {
+    const name = values.format.toLowerCase();
+    if (name === 'auto') {
+      overrides.autoFormat = true;
+    } else if (FORMATS_BY_NAME[name]) {
+      overrides.format = FORMATS_BY_NAME[name];
+      overrides.autoFormat = false;
+    } else {
+      throw new UsageError(`Formato desconhecido: ${values.format}`);
+    }
+  }
+  if (values.quality !== undefined) {
+    const quality = parseFloat(values.quality);
+    if (!(quality > 0 && quality <= 100)) throw new UsageError('--quality deve estar entre 0 e 1 (ou 1 e 100).');
+    overrides.quality = quality > 1 ? quality / 100 : quality;
+  }
+
+  const maxWidth = parseDimension(values['max-width'], 'max-width');
+  const maxHeight = parseDimension(values['max-height'], 'max-height');
+  const settings = sanitizeSettings({
+    ...base,
+    ...overrides,
+    resize: {
+      ...base.resize,
+      ...(maxWidth !== undefined && { maxWidth }),
+      ...(maxHeight !== undefined && { maxHeight }),
+      ...(values.widths !== undefined && { targetWidths: parseWidthList(values.widths) })
+    },
+    // There is no canvas in Node
+    encoder: EncoderPreference.WASM
+  });
+
+  // Converting without it would silently produce different files than the app
+  if (isWatermarkActive(settings.watermark)) {
+    throw new UsageError('A marca d\'água não é suportada na linha de comando; desative-a no preset.');
+  }
+  return settings;
+};
+
+const readInputFile = async (input: InputFile): Promise<File> => {
+  const [bytes, info] = await Promise.all([readFile(input.path), stat(input.path)]);
+  const name = path.basename(input.path);
+  const type = IMAGE_TYPES_BY_EXTENSION[name.split('.').pop()?.toLowerCase() ?? ''] ?? '';
+  return new File([new Uint8Array(bytes)], name, { type, lastModified: info.mtimeMs });
+};
+
+const convertFile = async (input: InputFile, settings: ConversionSettings, index: number): Promise<ProcessedImage> => {
+  const file = await readInputFile(input);
+  const { pixels, animation } = await decodeSource(file);
+  if (animation) throw new Error(ANIMATED_UNSUPPORTED);
+  const result = await runConversion(file, pixels.width, pixels.height, settings, createNodeBackend(pixels));
+
+  return {
+    id: String(index),
+    originalFile: file,
+    relativeDir: input.relativeDir || undefined,
+    previewUrl: '',
+    convertedBlob: result.blob,
+    convertedUrl: null,
+    status: ProcessingStatus.COMPLETED,
+    originalSize: file.size,
+    convertedSize: result.blob.size,
+    convertedWidth: result.width,
+    convertedHeight: result.height,
+    variants: result.variants.map(v => ({ ...v, url: '', size: v.blob.size })),
+    chosenQuality: result.quality,
+    targetMet: result.targetMet,
+    encoderUsed: result.encoder,
+    formatReason: result.formatReason,
+    keptOriginal: result.keptOriginal,
+    metadataWarning: result.metadataWarning,
+    settings
+  };
+};
+
+const writeOutput = async (root: string, relativePath: string, data: Blob | string) => {
+  const target = path.join(root, relativePath);
+  await mkdir(path.dirname(target), { recursive: true });
+  await writeFile(target, typeof data === 'string' ? data : new Uint8Array(await data.arrayBuffer()));
+};
+
+const describeInput = (input: InputFile) =>
+  input.relativeDir ? `${input.relativeDir}/${path.basename(input.path)}` : path.basename(input.path);
+
+const savings = (image: ProcessedImage) =>
+  `${formatBytes(image.originalSize)} → ${formatBytes(image.convertedSize)} (${Math.round((image.convertedSize / image.originalSize - 1) * 100)}%)`;
+
+const convert = async (patterns: string[], values: CliValues): Promise<number> => {
+  if (!values.out) throw new UsageError('Informe a pasta de saída com --out.');
+  if (patterns.length === 0) throw new UsageError('Informe ao menos um arquivo, pasta ou glob de entrada.');
+
+  const settings = await resolveSettings(values);
+  const naming: NamingOptions = { ...DEFAULT_NAMING_OPTIONS, ...(values.name && { template: values.name }) };
+  const inputs = await expandInputs(patterns);
+  if (inputs.length === 0) {
+    console.error('Nenhuma imagem encontrada nas entradas.');
+    return EXIT_FAILURES;
+  }
+
+  installNodeGlobals();
+  const converted: ProcessedImage[] = [];
+  let failures = 0;
+
+  for (const [index, input] of inputs.entries()) {
+    try {
+      const image = await convertFile(input, settings, index);
+      converted.push(image);
+      console.log(`✓ ${describeInput(input)}  ${savings(image)} · ${image.encoderUsed}`);
+      if (image.targetMet === false) console.log('  meta de tamanho/qualidade não atingida');
+      if (image.formatReason) console.log(`  ${image.formatReason}`);
+      if (image.metadataWarning) console.log(`  ${image.metadataWarning}`);
+    } catch (error) {
+      failures++;
+      console.error(`✗ ${describeInput(input)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const exported = planExport(converted, naming);
+  for (const { main, variants } of exported) {
+    for (const file of [main, ...variants]) {
+      await writeOutput(values.out, file.path, file.blob);
+    }
+  }
+  if (!values['no-manifest'] && exported.length > 0) {
+    const entries = exported.map(toManifestEntry);
+    await writeOutput(values.out, 'manifest.json', buildManifestJson(entries));
+    await writeOutput(values.out, 'manifest.csv', buildManifestCsv(entries));
+  }
+
+  console.log(`\n${converted.length} de ${inputs.length} imagem(ns) convertida(s) em ${values.out}${failures ? `, ${failures} com falha` : ''}.`);
+  return failures > 0 ? EXIT_FAILURES : 0;
+};
+
+const main = async (args: string[]): Promise<number> => {
+  try {
+    const { values, positionals } = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+    const [command, ...patterns] = positionals;
+    if (values.help || !command) {
+      console.log(USAGE);
+      return values.help ? 0 : EXIT_USAGE;
+    }
+    if (command !== 'convert') throw new UsageError(`Comando desconhecido: ${command}`);
+    return await convert(patterns, values);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const parseError = (error as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS');
+    if (error instanceof UsageError || parseError) {
+      console.error(`${message}\n\nUse --help para ver as opções.`);
+      return EXIT_USAGE;
+    }
+    console.error(message);
+    return EXIT_FAILURES;
+  }
+};
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
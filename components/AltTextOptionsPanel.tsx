@@ -0,0 +1,86 @@
+import React from 'react';
+import { AltTextOptions, AltTextTone } from '../types';
+import { ALT_TEXT_LANGUAGES } from '../services/captioning';
+
+interface AltTextOptionsPanelProps {
+  options: AltTextOptions;
+  onChange: (options: AltTextOptions) => void;
+}
+
+const TONE_LABELS: Record<AltTextTone, string> = {
+  [AltTextTone.NEUTRAL]: 'Neutro',
+  [AltTextTone.DESCRIPTIVE]: 'Descritivo',
+  [AltTextTone.COMMERCIAL]: 'Comercial',
+  [AltTextTone.EDITORIAL]: 'Editorial'
+};
+
+const fieldClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500";
+
+export const AltTextOptionsPanel: React.FC<AltTextOptionsPanelProps> = ({ options, onChange }) => {
+  const update = (changes: Partial<AltTextOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 w-full pt-2 border-t border-slate-800">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={options.language}
+          onChange={(e) => update({ language: e.target.value })}
+          className={fieldClass}
+          title="Idioma"
+        >
+          {ALT_TEXT_LANGUAGES.map(language => (
+            <option key={language.code} value={language.code}>{language.label}</option>
+          ))}
+        </select>
+        <select
+          value={options.tone}
+          onChange={(e) => update({ tone: e.target.value as AltTextTone })}
+          className={fieldClass}
+          title="Tom"
+        >
+          {Object.values(AltTextTone).map(tone => (
+            <option key={tone} value={tone}>{TONE_LABELS[tone]}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs text-slate-500" title="Tamanho máximo do alt text">
+          Máx.
+          <input
+            type="number" min="40" max="300" step="10"
+            value={options.maxLength}
+            onChange={(e) => {
+              const maxLength = parseInt(e.target.value, 10);
+              if (maxLength >= 40 && maxLength <= 300) update({ maxLength });
+            }}
+            className={`${fieldClass} w-16 font-mono`}
+          />
+          caracteres
+        </label>
+        <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={options.includeSuggestions}
+            onChange={(e) => update({ includeSuggestions: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Sugerir título, legenda e nome de arquivo
+        </label>
+      </div>
+      <div className="flex flex-col gap-2">
+        <input
+          type="text"
+          value={options.context}
+          onChange={(e) => update({ context: e.target.value })}
+          placeholder="Contexto da página (ex.: artigo sobre trilhas na Serra da Mantiqueira)"
+          className={fieldClass}
+        />
+        <input
+          type="text"
+          value={options.keywords}
+          onChange={(e) => update({ keywords: e.target.value })}
+          placeholder="Palavras-chave, separadas por vírgula"
+          className={fieldClass}
+        />
+      </div>
+    </div>
+  );
+};
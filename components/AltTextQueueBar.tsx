@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2, Settings2, Wand2, X } from 'lucide-react';
+import { AltTextOptions, CaptioningConfig } from '../types';
+import { AltTextOptionsPanel } from './AltTextOptionsPanel';
+import { CaptioningSettings } from './CaptioningSettings';
+
+interface AltTextQueueBarProps {
+  batchTotal: number;
+  pendingCount: number;
+  failedCount: number;
+  missingCount: number; // Images without alt text that are not queued
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  options: AltTextOptions;
+  onOptionsChange: (options: AltTextOptions) => void;
+  captioningConfig: CaptioningConfig;
+  onCaptioningConfigChange: (config: CaptioningConfig) => void;
+  onGenerateAll: () => void;
+  onCancelAll: () => void;
+}
+
+export const AltTextQueueBar: React.FC<AltTextQueueBarProps> = ({
+  batchTotal,
+  pendingCount,
+  failedCount,
+  missingCount,
+  concurrency,
+  onConcurrencyChange,
+  options,
+  onOptionsChange,
+  captioningConfig,
+  onCaptioningConfigChange,
+  onGenerateAll,
+  onCancelAll
+}) => {
+  const [showOptions, setShowOptions] = useState(false);
+  const isRunning = pendingCount > 0;
+  const done = Math.max(0, batchTotal - pendingCount);
+  const percent = batchTotal > 0 ? Math.round((done / batchTotal) * 100) : 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-slate-900/50 rounded-xl border border-slate-800">
+      <span className="text-xs font-semibold text-slate-300">Alt Text</span>
+
+      {isRunning ? (
+        <div className="flex items-center gap-2 flex-1 min-w-[12rem]">
+          <Loader2 className="w-3 h-3 text-blue-400 animate-spin flex-shrink-0" />
+          <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <span className="text-xs font-mono text-slate-400">{done}/{batchTotal}</span>
+          <button
+            onClick={onCancelAll}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+          >
+            <X size={12} /> Cancelar
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={onGenerateAll}
+          disabled={missingCount === 0}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 rounded-lg text-xs transition-colors disabled:opacity-40"
+        >
+          <Wand2 size={14} /> Gerar para todas sem Alt Text ({missingCount})
+        </button>
+      )}
+
+      {failedCount > 0 && (
+        <span className="flex items-center gap-1 text-xs text-red-400">
+          <AlertCircle size={12} /> {failedCount} com erro
+        </span>
+      )}
+
+      <label className="flex items-center gap-1.5 text-xs text-slate-500 ml-auto" title="Requisições simultâneas ao serviço de legendas">
+        Simultâneas
+        <input
+          type="number" min="1" max="8" step="1"
+          value={concurrency}
+          onChange={(e) => {
+            const value = parseInt(e.target.value, 10);
+            if (value >= 1 && value <= 8) onConcurrencyChange(value);
+          }}
+          className="w-12 bg-slate-950 border border-slate-800 rounded px-2 py-0.5 text-xs font-mono text-blue-400 focus:outline-none focus:border-blue-500"
+        />
+      </label>
+      <button
+        onClick={() => setShowOptions(v => !v)}
+        className={`p-1.5 rounded transition-colors ${showOptions ? 'text-blue-400 bg-blue-500/10' : 'text-slate-500 hover:text-slate-300'}`}
+        title="Opções de geração (serviço, idioma, tamanho, tom, contexto)"
+      >
+        <Settings2 size={14} />
+      </button>
+
+      {showOptions && (
+        <>
+          <CaptioningSettings config={captioningConfig} onChange={onCaptioningConfigChange} />
+          <AltTextOptionsPanel options={options} onChange={onOptionsChange} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Copy, Loader2, RefreshCw, Wand2, X } from 'lucide-react';
+import { AltTextStatus, ProcessedImage } from '../types';
+
+const ALT_STATUS_LABELS: Record<AltTextStatus, string> = {
+  [AltTextStatus.QUEUED]: 'Na fila',
+  [AltTextStatus.GENERATING]: 'Gerando Alt Text…',
+  [AltTextStatus.RETRYING]: 'Aguardando nova tentativa',
+  [AltTextStatus.ERROR]: 'Erro'
+};
+
+interface AltTextSectionProps {
+  image: ProcessedImage;
+  maxLength: number;
+  onGenerate: (id: string) => void;
+  onCancel: (id: string) => void;
+  onChange: (id: string, altText: string) => void;
+}
+
+const SuggestionRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex items-start gap-1.5 group/suggestion">
+    <span className="text-slate-500 w-12 flex-shrink-0">{label}</span>
+    <span className="text-slate-300 flex-1 min-w-0 break-words">{value}</span>
+    <button
+      onClick={() => navigator.clipboard?.writeText(value)}
+      className="opacity-0 group-hover/suggestion:opacity-100 text-slate-500 hover:text-white transition-opacity"
+      title="Copiar"
+    >
+      <Copy className="w-3 h-3" />
+    </button>
+  </div>
+);
+
+export const AltTextSection: React.FC<AltTextSectionProps> = ({ image, maxLength, onGenerate, onCancel, onChange }) => {
+  // Edited locally and committed on blur, so typing does not save the card on every key
+  const [draft, setDraft] = useState(image.altText ?? '');
+
+  useEffect(() => {
+    setDraft(image.altText ?? '');
+  }, [image.altText]);
+
+  const commit = () => {
+    const altText = draft.trim();
+    if (altText !== (image.altText ?? '')) onChange(image.id, altText);
+  };
+
+  const isPending = image.altTextStatus !== undefined && image.altTextStatus !== AltTextStatus.ERROR;
+  const { textSuggestions } = image;
+
+  return (
+    <div className="bg-slate-900/50 p-2 rounded-lg border border-slate-700/50 space-y-1.5">
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-xs text-slate-500">Alt Text (SEO)</span>
+        {isPending ? (
+          <span className="flex items-center gap-1.5 text-xs text-blue-400">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            {ALT_STATUS_LABELS[image.altTextStatus!]}
+            <button
+              onClick={() => onCancel(image.id)}
+              className="p-0.5 text-slate-500 hover:text-red-400 rounded transition-colors"
+              title="Cancelar"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ) : (
+          <button
+            onClick={() => onGenerate(image.id)}
+            className="flex items-center gap-1.5 px-2 py-1 bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 rounded text-xs transition-colors"
+          >
+            {image.altTextStatus === AltTextStatus.ERROR ? (
+              <><RefreshCw className="w-3 h-3" /> Tentar novamente</>
+            ) : image.altText ? (
+              <><RefreshCw className="w-3 h-3" /> Regenerar</>
+            ) : (
+              <><Wand2 className="w-3 h-3" /> Gerar com AI</>
+            )}
+          </button>
+        )}
+      </div>
+
+      {image.altTextError && (
+        <p className={`flex items-start gap-1.5 text-[10px] ${isPending ? 'text-amber-500' : 'text-red-400'}`}>
+          <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+          {image.altTextError}
+        </p>
+      )}
+
+      <div className="relative">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          disabled={isPending}
+          rows={2}
+          placeholder="Escreva ou gere com AI"
+          className="w-full bg-slate-950/50 border border-slate-800 rounded px-2 py-1 pr-12 text-xs text-slate-300 leading-relaxed resize-y focus:outline-none focus:border-blue-500 disabled:opacity-50"
+        />
+        {draft && (
+          <span className={`absolute bottom-2 right-2 text-[10px] font-mono ${draft.length > maxLength ? 'text-amber-500' : 'text-slate-600'}`}>
+            {draft.length}/{maxLength}
+          </span>
+        )}
+      </div>
+
+      {textSuggestions && (
+        <div className="space-y-1 text-[10px]">
+          {textSuggestions.title && <SuggestionRow label="Título" value={textSuggestions.title} />}
+          {textSuggestions.caption && <SuggestionRow label="Legenda" value={textSuggestions.caption} />}
+          {textSuggestions.filename && <SuggestionRow label="Arquivo" value={textSuggestions.filename} />}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { KeyRound } from 'lucide-react';
+import { CaptioningConfig, CaptioningProviderType } from '../types';
+import { CAPTIONING_PROVIDER_LABELS } from '../services/captioningProviders';
+
+interface CaptioningSettingsProps {
+  config: CaptioningConfig;
+  onChange: (config: CaptioningConfig) => void;
+}
+
+const fieldClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500";
+
+export const CaptioningSettings: React.FC<CaptioningSettingsProps> = ({ config, onChange }) => {
+  const update = (changes: Partial<CaptioningConfig>) => onChange({ ...config, ...changes });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 w-full pt-2 border-t border-slate-800">
+      <select
+        value={config.provider}
+        onChange={(e) => update({ provider: e.target.value as CaptioningProviderType })}
+        className={fieldClass}
+        title="Serviço de legendas"
+      >
+        {Object.values(CaptioningProviderType).map(provider => (
+          <option key={provider} value={provider}>{CAPTIONING_PROVIDER_LABELS[provider]}</option>
+        ))}
+      </select>
+
+      {config.provider === CaptioningProviderType.GEMINI && (
+        <>
+          <label className="flex items-center gap-1.5 flex-1 min-w-[14rem]">
+            <KeyRound className="w-3 h-3 text-slate-500 flex-shrink-0" />
+            <input
+              type="password"
+              value={config.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              placeholder="Chave de API do Gemini"
+              autoComplete="off"
+              className={`${fieldClass} flex-1 font-mono`}
+            />
+          </label>
+          <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer select-none" title="Sem isso, a chave fica só na memória e some ao recarregar">
+            <input
+              type="checkbox"
+              checked={config.rememberKey}
+              onChange={(e) => update({ rememberKey: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Lembrar neste navegador
+          </label>
+        </>
+      )}
+
+      {config.provider === CaptioningProviderType.HTTP && (
+        <input
+          type="url"
+          value={config.endpoint}
+          onChange={(e) => update({ endpoint: e.target.value })}
+          placeholder="https://seu-proxy.exemplo.com/caption"
+          className={`${fieldClass} flex-1 min-w-[14rem] font-mono`}
+        />
+      )}
+
+      {config.provider === CaptioningProviderType.MOCK && (
+        <span className="text-xs text-slate-500">Textos fixos por imagem, sem rede. Útil para desenvolvimento.</span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,350 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Maximize } from 'lucide-react';
+import { ProcessedImage } from '../types';
+import { formatBytes } from '../utils/pipeline';
+import { createReferenceURL } from '../utils/qualityAnalysis';
+
+type CompareMode = 'split' | 'side-by-side' | 'difference';
+
+interface ComparisonViewerProps {
+  images: ProcessedImage[]; // Only images with a converted output
+  currentId: string;
+  onNavigate: (id: string) => void;
+  onClose: () => void;
+}
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 8;
+const ZOOM_STEPS = [0.25, 0.5, 1, 2, 4, 8];
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({
+  images,
+  currentId,
+  onNavigate,
+  onClose
+}) => {
+  const index = images.findIndex(img => img.id === currentId);
+  const image = images[index];
+
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [split, setSplit] = useState(0.5); // Fraction of the viewport width
+  const [viewport, setViewport] = useState<Size>({ width: 0, height: 0 });
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ kind: 'pan' | 'split'; x: number; y: number } | null>(null);
+
+  // Zoom and pan are expressed relative to the converted image pixels, so 100% is 1:1
+  const stage: Size = image
+    ? { width: image.convertedWidth, height: image.convertedHeight }
+    : { width: 1, height: 1 };
+
+  const fitZoom = () => {
+    if (!viewport.width || !viewport.height) return 1;
+    return clampZoom(Math.min(1, viewport.width / stage.width, viewport.height / stage.height));
+  };
+
+  const resetView = () => {
+    setZoom(fitZoom());
+    setOffset({ x: 0, y: 0 });
+  };
+
+  useLayoutEffect(() => {
+    const el = viewportRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [mode]);
+
+  // Close if the image was removed or is being re-converted
+  useEffect(() => {
+    if (index === -1) onClose();
+  }, [index]);
+
+  // Fit every newly opened image to the viewport
+  useEffect(() => {
+    resetView();
+  }, [currentId, viewport.width > 0]);
+
+  // The original cropped, edited and resized like the output, so both sides show the same region
+  const [referenceUrl, setReferenceUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!image?.convertedUrl) return;
+    let cancelled = false;
+    let url: string | null = null;
+    setReferenceUrl(null);
+    createReferenceURL(image).then(
+      created => {
+        if (cancelled) {
+          URL.revokeObjectURL(created);
+          return;
+        }
+        url = created;
+        setReferenceUrl(created);
+      },
+      error => console.error("Could not render the original for comparison", error)
+    );
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [image?.id, image?.convertedUrl]);
+
+  const zoomAround = (nextZoom: number, point?: { x: number; y: number }) => {
+    const target = clampZoom(nextZoom);
+    const p = point ?? { x: viewport.width / 2, y: viewport.height / 2 };
+    // Keep the stage pixel under `p` fixed while zooming
+    const centerX = viewport.width / 2 + offset.x;
+    const centerY = viewport.height / 2 + offset.y;
+    const u = (p.x - centerX) / zoom;
+    const v = (p.y - centerY) / zoom;
+    setOffset({
+      x: p.x - u * target - viewport.width / 2,
+      y: p.y - v * target - viewport.height / 2
+    });
+    setZoom(target);
+  };
+
+  const stepZoom = (direction: 1 | -1) => {
+    const next = direction > 0
+      ? ZOOM_STEPS.find(z => z > zoom + 0.001) ?? MAX_ZOOM
+      : [...ZOOM_STEPS].reverse().find(z => z < zoom - 0.001) ?? MIN_ZOOM;
+    zoomAround(next);
+  };
+
+  const navigate = (delta: number) => {
+    if (images.length === 0) return;
+    const next = images[(index + delta + images.length) % images.length];
+    onNavigate(next.id);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') navigate(-1);
+      else if (e.key === 'ArrowRight') navigate(1);
+      else if (e.key === '+' || e.key === '=') stepZoom(1);
+      else if (e.key === '-') stepZoom(-1);
+      else if (e.key === '0') resetView();
+      else if (e.key === '1') zoomAround(1);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  if (!image || !image.convertedUrl) return null;
+
+  const localPoint = (e: React.PointerEvent | React.WheelEvent) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    zoomAround(zoom * (e.deltaY < 0 ? 1.15 : 1 / 1.15), localPoint(e));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, kind: 'pan' | 'split') => {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { kind, x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'pan') {
+      setOffset(o => ({ x: o.x + e.clientX - drag.x, y: o.y + e.clientY - drag.y }));
+      dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+    } else if (viewportRef.current) {
+      const rect = viewportRef.current.getBoundingClientRect();
+      setSplit(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const stageWidth = stage.width * zoom;
+  const stageHeight = stage.height * zoom;
+  const stageLeft = viewport.width / 2 - stageWidth / 2 + offset.x;
+  // Converted image is shown right of the divider; clip it in stage coordinates
+  const clipLeft = Math.min(100, Math.max(0, ((split * viewport.width - stageLeft) / stageWidth) * 100));
+
+  const imageStyle: React.CSSProperties = {
+    imageRendering: zoom > 1 ? 'pixelated' : 'auto'
+  };
+
+  const renderStage = (content: React.ReactNode) => (
+    <div
+      className="absolute left-1/2 top-1/2"
+      style={{
+        width: stageWidth,
+        height: stageHeight,
+        transform: `translate(-50%, -50%) translate(${offset.x}px, ${offset.y}px)`
+      }}
+    >
+      {content}
+    </div>
+  );
+
+  const renderViewport = (content: React.ReactNode, label?: string, ref?: React.Ref<HTMLDivElement>) => (
+    <div
+      ref={ref}
+      className="relative flex-1 overflow-hidden cursor-grab active:cursor-grabbing bg-slate-900 touch-none select-none"
+      onWheel={handleWheel}
+      onPointerDown={(e) => handlePointerDown(e, 'pan')}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {renderStage(content)}
+      {label && (
+        <span className="absolute top-3 left-3 bg-black/70 text-white text-xs px-2 py-1 rounded font-bold pointer-events-none">{label}</span>
+      )}
+    </div>
+  );
+
+  const original = referenceUrl
+    ? <img src={referenceUrl} alt="Original" draggable={false} className="absolute inset-0 w-full h-full" style={imageStyle} />
+    : null;
+  const converted = <img src={image.convertedUrl} alt="Otimizada" draggable={false} className="absolute inset-0 w-full h-full" style={imageStyle} />;
+
+  const modeButton = (value: CompareMode, label: string) => (
+    <button
+      onClick={() => setMode(value)}
+      className={`px-3 py-1 text-xs font-bold rounded ${mode === value ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/95 backdrop-blur-sm flex flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-4 px-4 py-3 border-b border-slate-800">
+        <div className="flex items-center gap-3 min-w-0">
+          <button onClick={() => navigate(-1)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Anterior (←)">
+            <ChevronLeft size={18} />
+          </button>
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-slate-200 truncate max-w-[300px]">{image.originalFile.name}</p>
+            <p className="text-[10px] text-slate-500 font-mono">
+              {index + 1}/{images.length} · {formatBytes(image.originalSize)} → {formatBytes(image.convertedSize)} · {image.convertedWidth}×{image.convertedHeight}px
+            </p>
+          </div>
+          <button onClick={() => navigate(1)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Próxima (→)">
+            <ChevronRight size={18} />
+          </button>
+        </div>
+
+        <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-800">
+          {modeButton('split', 'Divisor')}
+          {modeButton('side-by-side', 'Lado a lado')}
+          {modeButton('difference', 'Diferença')}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={() => stepZoom(-1)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Diminuir zoom (-)">
+            <ZoomOut size={18} />
+          </button>
+          <button onClick={() => zoomAround(1)} className="w-14 text-xs font-mono text-blue-400 font-bold hover:text-blue-300" title="Tamanho real (1)">
+            {Math.round(zoom * 100)}%
+          </button>
+          <button onClick={() => stepZoom(1)} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Aumentar zoom (+)">
+            <ZoomIn size={18} />
+          </button>
+          <button onClick={resetView} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Ajustar à tela (0)">
+            <Maximize size={18} />
+          </button>
+          <button onClick={onClose} className="ml-2 p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded" title="Fechar (Esc)">
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex gap-1 min-h-0">
+        {mode === 'split' && renderViewport(
+          <>
+            {original}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${clipLeft}%)` }}>
+              {converted}
+            </div>
+          </>,
+          undefined,
+          viewportRef
+        )}
+        {mode === 'side-by-side' && (
+          <>
+            {renderViewport(original, 'ORIGINAL', viewportRef)}
+            {renderViewport(converted, 'OTIMIZADA')}
+          </>
+        )}
+        {mode === 'difference' && renderViewport(
+          image.metrics ? (
+            <img src={image.metrics.heatmapUrl} alt="Diferença" draggable={false} className="absolute inset-0 w-full h-full" style={imageStyle} />
+          ) : (
+            <>
+              {original}
+              <div className="absolute inset-0 mix-blend-difference">{converted}</div>
+            </>
+          ),
+          image.metrics ? 'HEATMAP' : 'DIFERENÇA',
+          viewportRef
+        )}
+      </div>
+
+      {mode === 'split' && viewport.width > 0 && (
+        <SplitHandle
+          viewportRef={viewportRef}
+          split={split}
+          onPointerDown={(e) => handlePointerDown(e, 'split')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      )}
+    </div>
+  );
+};
+
+interface SplitHandleProps {
+  viewportRef: React.RefObject<HTMLDivElement | null>;
+  split: number;
+  onPointerDown: (e: React.PointerEvent) => void;
+  onPointerMove: (e: React.PointerEvent) => void;
+  onPointerUp: () => void;
+}
+
+const SplitHandle: React.FC<SplitHandleProps> = ({ viewportRef, split, onPointerDown, onPointerMove, onPointerUp }) => {
+  const rect = viewportRef.current?.getBoundingClientRect();
+  if (!rect) return null;
+
+  return (
+    <div
+      className="fixed w-6 -ml-3 cursor-ew-resize touch-none flex justify-center group"
+      style={{ left: rect.left + split * rect.width, top: rect.top, height: rect.height }}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+    >
+      <div className="w-0.5 h-full bg-white/80 shadow-[0_0_6px_rgba(0,0,0,0.8)]" />
+      <div className="absolute top-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-white text-slate-900 text-[10px] font-bold flex items-center justify-center shadow-lg group-hover:scale-110 transition-transform">
+        ⇔
+      </div>
+      <span className="absolute top-3 right-full mr-2 bg-black/70 text-white text-xs px-2 py-1 rounded font-bold pointer-events-none">ORIGINAL</span>
+      <span className="absolute top-3 left-full ml-2 bg-emerald-600/90 text-white text-xs px-2 py-1 rounded font-bold pointer-events-none">OTIMIZADA</span>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { ConversionErrorKind, ProcessedImage } from '../types';
+import { CONVERSION_ERROR_MESSAGES } from '../utils/conversionErrors';
+
+interface ConversionFailuresProps {
+  failed: ProcessedImage[];
+  onRetry: (ids: string[]) => void;
+}
+
+/**
+ * Batch summary of failed conversions, one line per image with its reason.
+ */
+export const ConversionFailures: React.FC<ConversionFailuresProps> = ({ failed, onRetry }) => {
+  const [expanded, setExpanded] = useState(true);
+  if (failed.length === 0) return null;
+
+  return (
+    <div className="px-4 py-2 bg-red-500/5 rounded-xl border border-red-500/30">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-1.5 text-xs font-semibold text-red-400">
+          <AlertCircle size={14} /> {failed.length} conversão(ões) falharam
+        </span>
+        <button
+          onClick={() => onRetry(failed.map(img => img.id))}
+          className="flex items-center gap-1.5 px-2.5 py-1 text-xs text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+        >
+          <RotateCcw size={12} /> Tentar todas novamente
+        </button>
+        <button
+          onClick={() => setExpanded(v => !v)}
+          className="ml-auto p-1 text-slate-500 hover:text-white rounded"
+          title={expanded ? 'Ocultar detalhes' : 'Mostrar detalhes'}
+        >
+          {expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+      </div>
+
+      {expanded && (
+        <ul className="mt-2 max-h-48 overflow-y-auto divide-y divide-slate-800/60">
+          {failed.map(img => (
+            <li key={img.id} className="flex items-center gap-3 py-1.5">
+              <span className="text-xs text-slate-300 truncate max-w-[14rem]" title={img.originalFile.name}>
+                {img.relativeDir ? `${img.relativeDir}/` : ''}{img.originalFile.name}
+              </span>
+              <span className="flex-1 text-[11px] text-slate-500 truncate" title={img.conversionError?.detail}>
+                {CONVERSION_ERROR_MESSAGES[img.conversionError?.kind ?? ConversionErrorKind.UNKNOWN]}
+              </span>
+              <button
+                onClick={() => onRetry([img.id])}
+                className="p-1 text-slate-500 hover:text-white hover:bg-slate-800 rounded transition-colors flex-shrink-0"
+                title="Tentar novamente"
+              >
+                <RotateCcw size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
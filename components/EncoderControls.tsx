@@ -0,0 +1,66 @@
+import React from 'react';
+import { ChromaSubsampling, ConversionSettings, EncoderPreference, ImageFormat } from '../types';
+
+interface EncoderControlsProps {
+  settings: ConversionSettings;
+  onChange: (settings: Partial<ConversionSettings>) => void;
+}
+
+const selectClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500";
+
+export const EncoderControls: React.FC<EncoderControlsProps> = ({ settings, onChange }) => {
+  // Only lossy formats have meaningful chroma/lossless choices; MozJPEG has no lossless mode
+  const isLossy = settings.format !== ImageFormat.PNG;
+  const hasLossless = isLossy && settings.format !== ImageFormat.JPEG;
+  // Lossy WebP is always 4:2:0; its "4:4:4" setting turns on sharp YUV conversion instead
+  const isWebp = settings.format === ImageFormat.WEBP;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={settings.encoder}
+        onChange={(e) => onChange({ encoder: e.target.value as EncoderPreference })}
+        className={selectClass}
+        title="Encoder"
+      >
+        <option value={EncoderPreference.AUTO}>Auto</option>
+        <option value={EncoderPreference.NATIVE}>Canvas nativo</option>
+        <option value={EncoderPreference.WASM}>WASM</option>
+      </select>
+      <label className="flex items-center gap-1 text-[10px] text-slate-400" title="Esforço do encoder WASM: 0 = rápido, 9 = menor arquivo">
+        Esforço
+        <input
+          type="range" min="0" max="9" step="1"
+          value={settings.effort}
+          onChange={(e) => onChange({ effort: parseInt(e.target.value, 10) })}
+          className="w-16 accent-blue-500"
+        />
+        <span className="font-mono text-blue-400 w-2">{settings.effort}</span>
+      </label>
+      {isLossy && (
+        <>
+          <select
+            value={settings.chromaSubsampling}
+            onChange={(e) => onChange({ chromaSubsampling: e.target.value as ChromaSubsampling })}
+            className={selectClass}
+            title={isWebp ? 'Conversão RGB→YUV (WebP é sempre 4:2:0)' : 'Subamostragem de croma'}
+          >
+            <option value={ChromaSubsampling.YUV420}>4:2:0</option>
+            <option value={ChromaSubsampling.YUV444}>{isWebp ? '4:2:0 sharp YUV' : '4:4:4'}</option>
+          </select>
+          {hasLossless && (
+            <label className="flex items-center gap-1 text-[10px] text-slate-400 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={settings.lossless}
+                onChange={(e) => onChange({ lossless: e.target.checked })}
+                className="accent-blue-500"
+              />
+              Lossless
+            </label>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
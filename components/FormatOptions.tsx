@@ -0,0 +1,106 @@
+import React from 'react';
+import { ConversionSettings, ImageFormat } from '../types';
+
+interface FormatOptionsProps {
+  settings: ConversionSettings;
+  onChange: (settings: Partial<ConversionSettings>) => void;
+}
+
+const selectClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500";
+const checkboxLabelClass = "flex items-center gap-1 text-[10px] text-slate-400 cursor-pointer select-none";
+
+const PALETTE_SIZES = [256, 128, 64, 32, 16];
+
+const FormatSpecificOptions: React.FC<FormatOptionsProps> = ({ settings, onChange }) => {
+  if (settings.autoFormat) {
+    return (
+      <label className="flex items-center gap-1 text-[10px] text-slate-400" title="Formatos abaixo deste SSIM são descartados pelo modo Auto">
+        SSIM ≥
+        <input
+          type="number" min="0.5" max="0.999" step="0.005"
+          value={settings.minSsim}
+          onChange={(e) => {
+            const minSsim = parseFloat(e.target.value);
+            if (minSsim > 0 && minSsim < 1) onChange({ minSsim });
+          }}
+          className="w-16 bg-slate-950 border border-slate-800 rounded px-1 py-0.5 text-[10px] font-mono text-blue-400 focus:outline-none focus:border-blue-500"
+        />
+      </label>
+    );
+  }
+
+  if (settings.format === ImageFormat.JPEG) {
+    return (
+      <>
+        <label className={checkboxLabelClass} title="Carrega em passadas sucessivas (encoder MozJPEG)">
+          <input
+            type="checkbox"
+            checked={settings.progressive}
+            onChange={(e) => onChange({ progressive: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Progressivo
+        </label>
+        <label className="flex items-center gap-1 text-[10px] text-slate-400" title="JPEG não tem transparência: áreas transparentes recebem esta cor">
+          Fundo
+          <input
+            type="color"
+            value={settings.backgroundColor}
+            onChange={(e) => onChange({ backgroundColor: e.target.value })}
+            className="w-6 h-5 bg-transparent border border-slate-800 rounded cursor-pointer"
+          />
+        </label>
+      </>
+    );
+  }
+
+  if (settings.format === ImageFormat.PNG) {
+    return (
+      <>
+        <select
+          value={settings.paletteColors ?? ''}
+          onChange={(e) => onChange({ paletteColors: e.target.value ? parseInt(e.target.value, 10) : null })}
+          className={selectClass}
+          title="Paleta de cores (PNG indexado)"
+        >
+          <option value="">Cores completas</option>
+          {PALETTE_SIZES.map(size => (
+            <option key={size} value={size}>{size} cores</option>
+          ))}
+        </select>
+        {settings.paletteColors !== null && (
+          <label className={checkboxLabelClass}>
+            <input
+              type="checkbox"
+              checked={settings.dithering}
+              onChange={(e) => onChange({ dithering: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Dithering
+          </label>
+        )}
+      </>
+    );
+  }
+
+  return null;
+};
+
+/**
+ * Options tied to the output format: Auto threshold, JPEG (progressive, flatten
+ * color) and PNG (palette), plus the keep-original fallback shared by all.
+ */
+export const FormatOptions: React.FC<FormatOptionsProps> = ({ settings, onChange }) => (
+  <div className="flex flex-wrap items-center gap-2">
+    <FormatSpecificOptions settings={settings} onChange={onChange} />
+    <label className={checkboxLabelClass} title="Se nenhuma conversão ficar menor, o arquivo original é mantido sem alterações, desde que a política de metadados não precise remover nada dele">
+      <input
+        type="checkbox"
+        checked={settings.keepOriginal}
+        onChange={(e) => onChange({ keepOriginal: e.target.checked })}
+        className="accent-blue-500"
+      />
+      Manter original se menor
+    </label>
+  </div>
+);
@@ -1,24 +1,59 @@
 import React, { useState } from 'react';
-import { ProcessedImage, ProcessingStatus, ImageFormat, ConversionSettings } from '../types';
-import { formatBytes } from '../utils/converter';
-import { Loader2, Download, Trash2, Wand2, Check, AlertCircle } from 'lucide-react';
+import { ProcessedImage, ProcessingStatus, ImageFormat, ConversionSettings, QualityMode, SettingsPreset, ConversionErrorKind } from '../types';
+import { formatBytes, getBlobExtension } from '../utils/pipeline';
+import { CONVERSION_ERROR_MESSAGES } from '../utils/conversionErrors';
+import { isSvgFile } from '../utils/sourceDecoders';
+import { ResizeControls } from './ResizeControls';
+import { WatermarkControls } from './WatermarkControls';
+import { TargetSizeControls } from './TargetSizeControls';
+import { MetadataPanel } from './MetadataPanel';
+import { EncoderControls } from './EncoderControls';
+import { FormatOptions } from './FormatOptions';
+import { AltTextSection } from './AltTextSection';
+import { Loader2, Download, Trash2, AlertCircle, Activity, Columns2, Code, Check, Crop, RotateCcw } from 'lucide-react';
 
 interface ImageCardProps {
   image: ProcessedImage;
   onRemove: (id: string) => void;
-  onDownload: (id: string) => void;
+  onDownload: (id: string, variantWidth?: number) => void;
+  onCopyHtml: (id: string) => Promise<boolean>;
   onGenerateAlt: (id: string) => void;
+  onCancelAlt: (id: string) => void;
+  onUpdateAltText: (id: string, altText: string) => void;
+  altTextMaxLength: number;
+  onAnalyze: (id: string) => void;
+  onCompare: (id: string) => void;
+  onEdit: (id: string) => void;
   onUpdateSettings: (id: string, settings: Partial<ConversionSettings>) => void;
+  onRetry: (id: string) => void;
+  presets: SettingsPreset[];
+  onApplyPreset: (id: string, preset: SettingsPreset) => void;
+  isSelected: boolean;
+  onToggleSelect: (id: string, extendRange: boolean) => void;
 }
 
 export const ImageCard: React.FC<ImageCardProps> = ({ 
   image, 
   onRemove, 
   onDownload,
+  onCopyHtml,
   onGenerateAlt,
-  onUpdateSettings
+  onCancelAlt,
+  onUpdateAltText,
+  altTextMaxLength,
+  onAnalyze,
+  onCompare,
+  onEdit,
+  onUpdateSettings,
+  onRetry,
+  presets,
+  onApplyPreset,
+  isSelected,
+  onToggleSelect
 }) => {
   const [showOriginal, setShowOriginal] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(false);
+  const [htmlCopied, setHtmlCopied] = useState(false);
 
   const savingPercent = image.convertedSize > 0 
     ? Math.round(((image.originalSize - image.convertedSize) / image.originalSize) * 100)
@@ -27,15 +62,15 @@ export const ImageCard: React.FC<ImageCardProps> = ({
   const isPositiveSaving = savingPercent > 0;
 
   const displayUrl = (image.status === ProcessingStatus.COMPLETED && image.convertedUrl && !showOriginal)
-    ? image.convertedUrl
+    ? (showHeatmap && image.metrics ? image.metrics.heatmapUrl : image.convertedUrl)
     : image.previewUrl;
 
   return (
-    <div className="bg-slate-800 rounded-2xl overflow-hidden border border-slate-700 shadow-lg flex flex-col md:flex-row h-auto min-h-[250px] md:h-64 transition-all hover:border-slate-600 group">
+    <div className={`bg-slate-800 rounded-2xl overflow-hidden border shadow-lg flex flex-col md:flex-row h-auto min-h-[250px] md:min-h-[16rem] transition-all group ${isSelected ? 'border-blue-500 ring-1 ring-blue-500/50' : 'border-slate-700 hover:border-slate-600'}`}>
       
       {/* Preview Section */}
       <div 
-        className="relative w-full md:w-64 h-64 md:h-full bg-slate-900 flex-shrink-0 cursor-crosshair overflow-hidden"
+        className="relative w-full md:w-64 h-64 md:h-auto bg-slate-900 flex-shrink-0 cursor-crosshair overflow-hidden"
         onMouseDown={() => setShowOriginal(true)}
         onMouseUp={() => setShowOriginal(false)}
         onMouseLeave={() => setShowOriginal(false)}
@@ -88,11 +123,24 @@ export const ImageCard: React.FC<ImageCardProps> = ({
 
       <div className="flex-1 p-5 flex flex-col h-full">
         <div className="flex justify-between items-start mb-4">
-          <div className="overflow-hidden">
+          <div className="flex items-start gap-3 overflow-hidden">
+            <input
+              type="checkbox"
+              checked={isSelected}
+              // Handled on click to read shiftKey for range selection
+              onClick={(e) => onToggleSelect(image.id, e.shiftKey)}
+              readOnly
+              className="mt-1.5 w-4 h-4 accent-blue-500 cursor-pointer flex-shrink-0"
+              title="Selecionar (Shift+clique seleciona um intervalo)"
+            />
+            <div className="overflow-hidden">
              <h3 className="font-medium text-slate-200 truncate max-w-[250px] text-lg" title={image.originalFile.name}>
                {image.originalFile.name}
              </h3>
-             <p className="text-xs text-slate-500 mt-1">{image.originalFile.type}</p>
+             <p className="text-xs text-slate-500 mt-1 truncate max-w-[250px]" title={image.relativeDir}>
+               {image.relativeDir ? `${image.relativeDir}/ · ` : ''}{image.originalFile.type}
+             </p>
+            </div>
           </div>
           <button 
             onClick={() => onRemove(image.id)}
@@ -115,76 +163,334 @@ export const ImageCard: React.FC<ImageCardProps> = ({
                         {image.status === ProcessingStatus.COMPLETED ? (
                             <div className="text-right">
                                 <span className="block text-emerald-400 font-bold font-mono text-sm">{formatBytes(image.convertedSize)}</span>
-                                <span className={`text-[10px] ${isPositiveSaving ? 'text-emerald-500' : 'text-amber-500'}`}>
-                                    {isPositiveSaving ? `Economia de ${savingPercent}%` : `+${Math.abs(savingPercent)}% maior`}
-                                </span>
+                                <span className="block text-slate-500 font-mono text-[10px]">{image.convertedWidth}×{image.convertedHeight}px</span>
+                                {image.encoderUsed && (
+                                    <span
+                                        className={`block font-mono text-[10px] ${image.encoderUsed.includes('fallback') ? 'text-amber-500' : 'text-slate-500'}`}
+                                        title={image.formatReason ?? 'Encoder utilizado'}
+                                    >
+                                        {image.settings.autoFormat && !image.keptOriginal && image.convertedBlob
+                                            ? `${getBlobExtension(image.convertedBlob).toUpperCase()} · ${image.encoderUsed}`
+                                            : image.encoderUsed}
+                                    </span>
+                                )}
+                                {image.frameCount && (
+                                    <span className="block font-mono text-[10px] text-violet-400">
+                                        Animada · {image.frameCount} quadros
+                                    </span>
+                                )}
+                                {image.keptOriginal ? (
+                                    <span className="text-[10px] text-slate-400" title={image.formatReason}>Original mantido</span>
+                                ) : (
+                                    <span className={`text-[10px] ${isPositiveSaving ? 'text-emerald-500' : 'text-amber-500'}`}>
+                                        {isPositiveSaving ? `Economia de ${savingPercent}%` : `+${Math.abs(savingPercent)}% maior`}
+                                    </span>
+                                )}
                             </div>
+                        ) : image.status === ProcessingStatus.ERROR ? (
+                            <span className="text-red-400 text-sm">Falhou</span>
                         ) : (
                             <span className="text-slate-600 text-sm">...</span>
                         )}
                     </div>
+                    {image.status === ProcessingStatus.COMPLETED && (
+                        <div className="flex justify-between items-center mt-2 pt-2 border-t border-slate-700/50">
+                            {image.metrics ? (
+                                <>
+                                    <span className="text-[10px] font-mono text-slate-300" title="Similaridade estrutural (1 = idêntica) e relação sinal-ruído">
+                                        SSIM {image.metrics.ssim.toFixed(3)} · PSNR {Number.isFinite(image.metrics.psnr) ? `${image.metrics.psnr.toFixed(1)} dB` : '∞'}
+                                    </span>
+                                    <button
+                                        onClick={() => setShowHeatmap(v => !v)}
+                                        className={`px-1.5 py-0.5 rounded text-[10px] transition-colors ${showHeatmap ? 'bg-amber-500/20 text-amber-400' : 'text-slate-400 hover:text-white'}`}
+                                        title="Mostrar mapa de diferenças na pré-visualização"
+                                    >
+                                        Heatmap
+                                    </button>
+                                </>
+                            ) : (
+                                <button
+                                    onClick={() => onAnalyze(image.id)}
+                                    disabled={image.isAnalyzing}
+                                    className="flex items-center gap-1.5 text-[10px] text-slate-400 hover:text-white transition-colors disabled:opacity-50"
+                                >
+                                    {image.isAnalyzing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Activity className="w-3 h-3" />}
+                                    Medir perda de qualidade
+                                </button>
+                            )}
+                        </div>
+                    )}
                 </div>
 
-                <div className="bg-slate-900/50 p-2 rounded-lg border border-slate-700/50 min-h-[50px] flex items-center">
-                    {image.altText ? (
-                        <div className="flex items-start gap-2 w-full">
-                        <Check className="w-4 h-4 text-emerald-500 mt-0.5 flex-shrink-0" />
-                        <p className="text-xs text-slate-300 italic line-clamp-3 leading-relaxed">"{image.altText}"</p>
+                {image.status === ProcessingStatus.ERROR && (
+                    <div className="flex items-start gap-2 bg-red-500/10 border border-red-500/30 rounded-lg p-3">
+                        <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0 mt-0.5" />
+                        <div className="flex-1 min-w-0">
+                            <p className="text-xs text-red-300">
+                                {CONVERSION_ERROR_MESSAGES[image.conversionError?.kind ?? ConversionErrorKind.UNKNOWN]}
+                            </p>
+                            {image.conversionError?.detail && (
+                                <p className="mt-1 text-[10px] text-slate-500 font-mono truncate" title={image.conversionError.detail}>
+                                    {image.conversionError.detail}
+                                </p>
+                            )}
                         </div>
-                    ) : (
-                        <div className="flex justify-between items-center w-full">
-                        <span className="text-xs text-slate-500">Alt Text (SEO)</span>
-                        <button 
-                            onClick={() => onGenerateAlt(image.id)}
-                            disabled={image.isGeneratingAlt}
-                            className="flex items-center gap-1.5 px-2 py-1 bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 rounded text-xs transition-colors disabled:opacity-50"
+                        <button
+                            onClick={() => onRetry(image.id)}
+                            className="flex items-center gap-1 px-2 py-1 text-xs text-slate-300 hover:text-white hover:bg-slate-700 rounded transition-colors flex-shrink-0"
                         >
-                            {image.isGeneratingAlt ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
-                            Gerar com AI
+                            <RotateCcw size={12} /> Tentar novamente
                         </button>
-                        </div>
-                    )}
-                </div>
+                    </div>
+                )}
+
+                {image.status === ProcessingStatus.COMPLETED && image.recoveryNote && (
+                    <p className="flex items-center gap-1.5 text-[11px] text-amber-500">
+                        <AlertCircle size={12} className="flex-shrink-0" /> {image.recoveryNote}
+                    </p>
+                )}
+
+                {image.status === ProcessingStatus.COMPLETED && image.metadataWarning && (
+                    <p className="flex items-center gap-1.5 text-[11px] text-amber-500">
+                        <AlertCircle size={12} className="flex-shrink-0" /> {image.metadataWarning}
+                    </p>
+                )}
+
+                <AltTextSection
+                    image={image}
+                    maxLength={altTextMaxLength}
+                    onGenerate={onGenerateAlt}
+                    onCancel={onCancelAlt}
+                    onChange={onUpdateAltText}
+                />
+
+                <MetadataPanel
+                    metadata={image.metadata}
+                    policy={image.settings.metadataPolicy}
+                    format={image.settings.format}
+                    onChangePolicy={(metadataPolicy) => onUpdateSettings(image.id, { metadataPolicy })}
+                />
             </div>
 
             <div className="space-y-4">
                  <div>
-                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Formato</label>
+                    <div className="flex justify-between items-center mb-2">
+                        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Formato</label>
+                        <select
+                            value=""
+                            onChange={(e) => {
+                                const preset = presets.find(p => p.id === e.target.value);
+                                if (preset) onApplyPreset(image.id, preset);
+                            }}
+                            className="bg-slate-900 border border-slate-700/50 rounded px-1.5 py-0.5 text-[10px] text-slate-400 focus:outline-none focus:border-blue-500 max-w-[9rem]"
+                            title="Aplicar um preset a esta imagem"
+                        >
+                            <option value="" disabled>Aplicar preset…</option>
+                            {presets.map(preset => (
+                                <option key={preset.id} value={preset.id}>{preset.name}</option>
+                            ))}
+                        </select>
+                    </div>
                     <div className="flex bg-slate-900 p-1 rounded-lg">
                         <button 
-                            onClick={() => onUpdateSettings(image.id, { format: ImageFormat.WEBP })}
-                            className={`flex-1 py-1.5 text-xs font-medium rounded transition-all ${image.settings.format === ImageFormat.WEBP ? 'bg-blue-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                            onClick={() => onUpdateSettings(image.id, { autoFormat: true })}
+                            className={`flex-1 py-1.5 text-xs font-medium rounded transition-all ${image.settings.autoFormat ? 'bg-pink-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                            title="Testa AVIF, WebP e JPEG e fica com o menor arquivo aceitável"
+                        >
+                            AUTO
+                        </button>
+                        <button 
+                            onClick={() => onUpdateSettings(image.id, { format: ImageFormat.WEBP, autoFormat: false })}
+                            className={`flex-1 py-1.5 text-xs font-medium rounded transition-all ${!image.settings.autoFormat && image.settings.format === ImageFormat.WEBP ? 'bg-blue-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
                         >
                             WEBP
                         </button>
                         <button 
-                            onClick={() => onUpdateSettings(image.id, { format: ImageFormat.AVIF })}
-                            className={`flex-1 py-1.5 text-xs font-medium rounded transition-all ${image.settings.format === ImageFormat.AVIF ? 'bg-purple-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                            onClick={() => onUpdateSettings(image.id, { format: ImageFormat.AVIF, autoFormat: false })}
+                            disabled={image.animated}
+                            className={`flex-1 py-1.5 text-xs font-medium rounded transition-all disabled:opacity-30 disabled:hover:text-slate-400 ${!image.settings.autoFormat && image.settings.format === ImageFormat.AVIF ? 'bg-purple-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                            title={image.animated ? 'AVIF animado não é suportado' : undefined}
                         >
                             AVIF
                         </button>
+                        <button 
+                            onClick={() => onUpdateSettings(image.id, { format: ImageFormat.JXL, autoFormat: false })}
+                            className={`flex-1 py-1.5 text-xs font-medium rounded transition-all ${!image.settings.autoFormat && image.settings.format === ImageFormat.JXL ? 'bg-teal-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                            title="JPEG XL (encoder WASM)"
+                        >
+                            JXL
+                        </button>
+                        <button 
+                            onClick={() => onUpdateSettings(image.id, { format: ImageFormat.JPEG, autoFormat: false })}
+                            className={`flex-1 py-1.5 text-xs font-medium rounded transition-all ${!image.settings.autoFormat && image.settings.format === ImageFormat.JPEG ? 'bg-amber-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            JPEG
+                        </button>
+                        <button 
+                            onClick={() => onUpdateSettings(image.id, { format: ImageFormat.PNG, autoFormat: false })}
+                            className={`flex-1 py-1.5 text-xs font-medium rounded transition-all ${!image.settings.autoFormat && image.settings.format === ImageFormat.PNG ? 'bg-emerald-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            PNG
+                        </button>
+                    </div>
+                    {image.animated && (
+                        <p className="mt-2 text-[10px] text-amber-400">
+                            {!image.settings.autoFormat && image.settings.format === ImageFormat.AVIF
+                                ? 'AVIF animado não é suportado: só o primeiro quadro será convertido. Escolha WebP para manter a animação.'
+                                : 'Imagem animada: a animação só é mantida em WebP.'}
+                        </p>
+                    )}
+                    <div className="mt-2">
+                        <FormatOptions
+                            settings={image.settings}
+                            onChange={(changes) => onUpdateSettings(image.id, changes)}
+                        />
                     </div>
                  </div>
 
+                 <div>
+                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Encoder</label>
+                    <EncoderControls
+                        settings={image.settings}
+                        onChange={(changes) => onUpdateSettings(image.id, changes)}
+                    />
+                 </div>
+
                  <div>
                     <div className="flex justify-between items-center mb-2">
-                        <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Qualidade</label>
-                        <span className="text-xs font-mono text-blue-400">{Math.round(image.settings.quality * 100)}%</span>
+                        <div className="flex items-center gap-2">
+                            <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Qualidade</label>
+                            <div className="flex bg-slate-900 p-0.5 rounded">
+                                <button
+                                    onClick={() => onUpdateSettings(image.id, { qualityMode: QualityMode.FIXED })}
+                                    className={`px-1.5 text-[10px] font-medium rounded transition-all ${image.settings.qualityMode === QualityMode.FIXED ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    %
+                                </button>
+                                <button
+                                    onClick={() => onUpdateSettings(image.id, { qualityMode: QualityMode.TARGET_SIZE })}
+                                    className={`px-1.5 text-[10px] font-medium rounded transition-all ${image.settings.qualityMode === QualityMode.TARGET_SIZE ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    KB
+                                </button>
+                                <button
+                                    onClick={() => onUpdateSettings(image.id, { qualityMode: QualityMode.MIN_SSIM })}
+                                    className={`px-1.5 text-[10px] font-medium rounded transition-all ${image.settings.qualityMode === QualityMode.MIN_SSIM ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    SSIM
+                                </button>
+                            </div>
+                        </div>
+                        {image.settings.qualityMode === QualityMode.FIXED ? (
+                            (image.settings.autoFormat || image.settings.format !== ImageFormat.PNG) && (
+                                <span className="text-xs font-mono text-blue-400">{Math.round(image.settings.quality * 100)}%</span>
+                            )
+                        ) : image.status === ProcessingStatus.COMPLETED && image.chosenQuality !== undefined && (
+                            <span
+                                className={`text-xs font-mono ${image.targetMet ? 'text-blue-400' : 'text-amber-500'}`}
+                                title={image.targetMet ? 'Qualidade escolhida automaticamente' : 'Não foi possível atingir a meta'}
+                            >
+                                {Math.round(image.chosenQuality * 100)}%{!image.targetMet && ' ⚠'}
+                            </span>
+                        )}
                     </div>
-                    <input 
-                        type="range" 
-                        min="0.1" 
-                        max="1.0" 
-                        step="0.05"
-                        value={image.settings.quality}
-                        onChange={(e) => onUpdateSettings(image.id, { quality: parseFloat(e.target.value) })}
-                        className="w-full h-1.5 bg-slate-900 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
+                    {image.settings.qualityMode === QualityMode.FIXED && !image.settings.autoFormat && image.settings.format === ImageFormat.PNG ? (
+                        <p className="text-xs text-slate-500">PNG é sem perdas; use a paleta para reduzir o tamanho.</p>
+                    ) : image.settings.qualityMode === QualityMode.FIXED ? (
+                        <input 
+                            type="range" 
+                            min="0.1" 
+                            max="1.0" 
+                            step="0.05"
+                            value={image.settings.quality}
+                            onChange={(e) => onUpdateSettings(image.id, { quality: parseFloat(e.target.value) })}
+                            className="w-full h-1.5 bg-slate-900 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
+                        />
+                    ) : image.settings.qualityMode === QualityMode.TARGET_SIZE ? (
+                        <TargetSizeControls
+                            settings={image.settings}
+                            onChange={(changes) => onUpdateSettings(image.id, changes)}
+                        />
+                    ) : (
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs text-slate-500">SSIM ≥</span>
+                            <input
+                                type="number"
+                                min="0.5"
+                                max="0.999"
+                                step="0.005"
+                                value={image.settings.minSsim}
+                                onChange={(e) => {
+                                    const minSsim = parseFloat(e.target.value);
+                                    if (minSsim > 0 && minSsim < 1) onUpdateSettings(image.id, { minSsim });
+                                }}
+                                className="w-20 bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs font-mono text-blue-400 font-bold focus:outline-none focus:border-blue-500"
+                            />
+                        </div>
+                    )}
+                 </div>
+
+                 <div>
+                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Redimensionar</label>
+                    <ResizeControls
+                        resize={image.settings.resize}
+                        onChange={(resize) => onUpdateSettings(image.id, { resize })}
+                        showSvgScale={isSvgFile(image.originalFile)}
+                    />
+                 </div>
+
+                 <div>
+                    <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2 block">Marca d'água</label>
+                    <WatermarkControls
+                        watermark={image.settings.watermark}
+                        onChange={(watermark) => onUpdateSettings(image.id, { watermark })}
                     />
                  </div>
             </div>
         </div>
 
-        <div className="mt-4 pt-4 border-t border-slate-700/50 flex justify-end">
+        <div className="mt-4 pt-4 border-t border-slate-700/50 flex flex-wrap items-center justify-end gap-2">
+            {image.status === ProcessingStatus.COMPLETED && image.variants.map(variant => (
+                <button
+                    key={variant.width}
+                    onClick={() => onDownload(image.id, variant.width)}
+                    className="flex items-center gap-1.5 px-2 py-1 bg-slate-900/50 hover:bg-slate-900 border border-slate-700/50 rounded text-[10px] font-mono text-slate-300 transition-colors"
+                    title={`Baixar variante ${variant.width}×${variant.height}px`}
+                >
+                    <Download size={12} />
+                    {variant.width}w · {formatBytes(variant.size)}
+                </button>
+            ))}
+            <button
+                onClick={async () => {
+                    if (!await onCopyHtml(image.id)) return;
+                    setHtmlCopied(true);
+                    setTimeout(() => setHtmlCopied(false), 1500);
+                }}
+                disabled={image.status !== ProcessingStatus.COMPLETED}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-900/50 hover:bg-slate-900 border border-slate-700/50 text-slate-300 disabled:text-slate-600 rounded-lg text-sm font-semibold transition-colors disabled:cursor-not-allowed"
+                title="Copiar <picture>/<img> com srcset, dimensões e alt"
+            >
+                {htmlCopied ? <Check size={16} className="text-emerald-400" /> : <Code size={16} />}
+                HTML
+            </button>
+            <button
+                onClick={() => onEdit(image.id)}
+                className={`flex items-center gap-2 px-4 py-2 bg-slate-900/50 hover:bg-slate-900 border rounded-lg text-sm font-semibold transition-colors ${image.edits ? 'border-blue-500/50 text-blue-400' : 'border-slate-700/50 text-slate-300'}`}
+                title={image.edits ? 'Editar (recorte/rotação aplicados)' : 'Recortar, girar e espelhar'}
+            >
+                <Crop size={16} />
+                Editar
+            </button>
+            <button
+                onClick={() => onCompare(image.id)}
+                disabled={image.status !== ProcessingStatus.COMPLETED}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-900/50 hover:bg-slate-900 border border-slate-700/50 text-slate-300 disabled:text-slate-600 rounded-lg text-sm font-semibold transition-colors disabled:cursor-not-allowed"
+                title="Comparar em tela cheia"
+            >
+                <Columns2 size={16} />
+                Comparar
+            </button>
             <button
                 onClick={() => onDownload(image.id)}
                 disabled={image.status !== ProcessingStatus.COMPLETED}
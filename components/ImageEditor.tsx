@@ -0,0 +1,258 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw, Undo2, X } from 'lucide-react';
+import { CropRect, ImageEdits, ProcessedImage } from '../types';
+import { loadImage } from '../utils/converter';
+import {
+  ASPECT_PRESETS,
+  AspectPreset,
+  DEFAULT_EDITS,
+  MAX_STRAIGHTEN,
+  drawEdited,
+  getCenteredCrop,
+  getEditFrame,
+  getEditedSize
+} from '../utils/imageEdits';
+
+interface ImageEditorProps {
+  image: ProcessedImage;
+  onSave: (id: string, edits: ImageEdits, preset?: AspectPreset) => void;
+  onClose: () => void;
+}
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+interface DragState {
+  corner: Corner | null; // null = moving the whole crop
+  x: number; // Pointer position in frame fractions
+  y: number;
+  crop: CropRect;
+}
+
+const MAX_VIEW_WIDTH = 860;
+const MAX_VIEW_HEIGHT = 520;
+const MIN_CROP = 0.02;
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const toolClass = "p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors";
+
+export const ImageEditor: React.FC<ImageEditorProps> = ({ image, onSave, onClose }) => {
+  const [edits, setEdits] = useState<ImageEdits>(image.edits ?? DEFAULT_EDITS);
+  const [source, setSource] = useState<HTMLImageElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(image.previewUrl).then(img => { if (!cancelled) setSource(img); }, error => console.error("Could not load image for editing", error));
+    return () => { cancelled = true; };
+  }, [image.previewUrl]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const frame = source ? getEditFrame(source.width, source.height, edits) : { width: 1, height: 1 };
+  const viewScale = Math.min(1, MAX_VIEW_WIDTH / frame.width, MAX_VIEW_HEIGHT / frame.height);
+  const viewWidth = Math.max(1, Math.round(frame.width * viewScale));
+  const viewHeight = Math.max(1, Math.round(frame.height * viewScale));
+  const preset = ASPECT_PRESETS.find(p => p.id === edits.aspect);
+  const crop = edits.crop ?? FULL_CROP;
+
+  // The preview shows the whole rotated frame; the crop is an overlay
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!source || !canvas || !ctx) return;
+    canvas.width = viewWidth;
+    canvas.height = viewHeight;
+    drawEdited(ctx, source, source.width, source.height, { ...edits, crop: null }, viewScale);
+  }, [source, edits.rotation, edits.flipH, edits.flipV, edits.straighten, viewWidth, viewHeight]);
+
+  // The frame changes shape, so a locked crop is recentred and a free one reset
+  const changeFrame = (changes: Partial<ImageEdits>) => {
+    setEdits(prev => {
+      const next = { ...prev, ...changes };
+      if (!source) return next;
+      const nextPreset = ASPECT_PRESETS.find(p => p.id === next.aspect);
+      const turned = changes.rotation !== undefined && changes.rotation !== prev.rotation;
+      return {
+        ...next,
+        crop: nextPreset ? getCenteredCrop(getEditFrame(source.width, source.height, next), nextPreset.ratio) : turned ? null : next.crop
+      };
+    });
+  };
+
+  const selectAspect = (aspect: AspectPreset | null) => {
+    setEdits(prev => ({
+      ...prev,
+      aspect: aspect?.id ?? null,
+      crop: aspect ? getCenteredCrop(frame, aspect.ratio) : prev.crop
+    }));
+  };
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width, 0, 1),
+      y: clamp((e.clientY - rect.top) / rect.height, 0, 1)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const corner = (e.target as HTMLElement).dataset.corner as Corner | undefined;
+    dragRef.current = { corner: corner ?? null, ...pointerPosition(e), crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = pointerPosition(e);
+    const start = drag.crop;
+
+    if (!drag.corner) {
+      const nextX = clamp(start.x + x - drag.x, 0, 1 - start.width);
+      const nextY = clamp(start.y + y - drag.y, 0, 1 - start.height);
+      setEdits(prev => ({ ...prev, crop: { ...start, x: nextX, y: nextY } }));
+      return;
+    }
+
+    const west = drag.corner.includes('w');
+    const north = drag.corner.includes('n');
+    const anchorX = west ? start.x + start.width : start.x;
+    const anchorY = north ? start.y + start.height : start.y;
+    const maxWidth = west ? anchorX : 1 - anchorX;
+    const maxHeight = north ? anchorY : 1 - anchorY;
+    let width = clamp(Math.abs(x - anchorX), MIN_CROP, maxWidth);
+    let height = clamp(Math.abs(y - anchorY), MIN_CROP, maxHeight);
+
+    if (preset) {
+      // Locked ratio in frame fractions; shrink whichever side overshoots it
+      const ratio = preset.ratio * frame.height / frame.width;
+      if (width / height > ratio) width = height * ratio; else height = width / ratio;
+    }
+
+    setEdits(prev => ({
+      ...prev,
+      crop: { x: west ? anchorX - width : anchorX, y: north ? anchorY - height : anchorY, width, height }
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const outputSize = source ? getEditedSize(source.width, source.height, edits) : null;
+  const isFullCrop = crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1;
+
+  const aspectButton = (aspect: AspectPreset | null) => (
+    <button
+      key={aspect?.id ?? 'free'}
+      onClick={() => selectAspect(aspect)}
+      className={`px-2.5 py-1 text-xs font-bold rounded ${(aspect?.id ?? null) === edits.aspect ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+    >
+      {aspect?.label ?? 'Livre'}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/95 backdrop-blur-sm flex flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-4 px-4 py-3 border-b border-slate-800">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-slate-200 truncate max-w-[300px]">{image.originalFile.name}</p>
+          <p className="text-[10px] text-slate-500 font-mono">
+            {outputSize ? `${outputSize.width}×${outputSize.height}px` : 'Carregando…'}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex items-center gap-1">
+            <button onClick={() => changeFrame({ rotation: (edits.rotation + 270) % 360 })} className={toolClass} title="Girar 90° à esquerda">
+              <RotateCcw size={18} />
+            </button>
+            <button onClick={() => changeFrame({ rotation: (edits.rotation + 90) % 360 })} className={toolClass} title="Girar 90° à direita">
+              <RotateCw size={18} />
+            </button>
+            <button onClick={() => changeFrame({ flipH: !edits.flipH })} className={`${toolClass} ${edits.flipH ? 'text-blue-400' : ''}`} title="Espelhar horizontalmente">
+              <FlipHorizontal2 size={18} />
+            </button>
+            <button onClick={() => changeFrame({ flipV: !edits.flipV })} className={`${toolClass} ${edits.flipV ? 'text-blue-400' : ''}`} title="Espelhar verticalmente">
+              <FlipVertical2 size={18} />
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-slate-500" title="Endireitar (corta as bordas)">
+            Endireitar
+            <input
+              type="range" min={-MAX_STRAIGHTEN} max={MAX_STRAIGHTEN} step="0.5"
+              value={edits.straighten}
+              onChange={(e) => changeFrame({ straighten: parseFloat(e.target.value) })}
+              onDoubleClick={() => changeFrame({ straighten: 0 })}
+              className="w-32 accent-blue-500"
+            />
+            <span className="w-10 font-mono text-blue-400">{edits.straighten}°</span>
+          </label>
+
+          <div className="flex bg-slate-900 p-1 rounded-lg border border-slate-800">
+            {aspectButton(null)}
+            {ASPECT_PRESETS.map(aspectButton)}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={() => setEdits(DEFAULT_EDITS)} className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors">
+            <Undo2 size={14} /> Redefinir
+          </button>
+          <button
+            onClick={() => onSave(image.id, { ...edits, crop: isFullCrop ? null : crop }, preset)}
+            className="px-4 py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-semibold transition-colors"
+          >
+            Aplicar
+          </button>
+          <button onClick={onClose} className="ml-2 p-1.5 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded" title="Fechar (Esc)">
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-6 min-h-0">
+        <div ref={stageRef} className="relative overflow-hidden select-none touch-none" style={{ width: viewWidth, height: viewHeight }}>
+          <canvas ref={canvasRef} className="block" />
+          {source && (
+            <div
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+              className={`absolute border border-white/90 cursor-move ${isFullCrop ? '' : 'shadow-[0_0_0_9999px_rgba(2,6,23,0.65)]'}`}
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`
+              }}
+            >
+              {CORNERS.map(corner => (
+                <span
+                  key={corner}
+                  data-corner={corner}
+                  className={`absolute w-3 h-3 bg-white rounded-sm
+                    ${corner.includes('n') ? '-top-1.5' : '-bottom-1.5'}
+                    ${corner.includes('w') ? '-left-1.5' : '-right-1.5'}
+                    ${corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Camera, Copyright, MapPin, Palette } from 'lucide-react';
+import { ImageFormat, ImageMetadata, MetadataPolicy } from '../types';
+import { supportsMetadataOutput } from '../utils/metadata';
+
+const POLICY_LABELS: Record<MetadataPolicy, string> = {
+  [MetadataPolicy.STRIP_ALL]: 'Remover tudo',
+  [MetadataPolicy.KEEP_COPYRIGHT]: 'Só autor/copyright',
+  [MetadataPolicy.STRIP_GPS]: 'Remover localização',
+  [MetadataPolicy.KEEP_ALL]: 'Manter EXIF/XMP/IPTC'
+};
+
+interface MetadataPolicySelectProps {
+  value: MetadataPolicy;
+  onChange: (policy: MetadataPolicy) => void;
+}
+
+export const MetadataPolicySelect: React.FC<MetadataPolicySelectProps> = ({ value, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as MetadataPolicy)}
+    className="bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+    title="Política de metadados (EXIF/XMP/IPTC). O perfil ICC nunca é copiado: a saída é convertida para sRGB."
+  >
+    {Object.values(MetadataPolicy).map(policy => (
+      <option key={policy} value={policy}>{POLICY_LABELS[policy]}</option>
+    ))}
+  </select>
+);
+
+interface MetadataPanelProps {
+  metadata?: ImageMetadata;
+  policy: MetadataPolicy;
+  format: ImageFormat;
+  onChangePolicy: (policy: MetadataPolicy) => void;
+}
+
+export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, policy, format, onChangePolicy }) => {
+  const hasAny = metadata && (metadata.hasExif || metadata.hasXmp || metadata.hasIptc || metadata.iccProfile);
+  const gpsLeaks = metadata?.gps && (policy === MetadataPolicy.KEEP_ALL);
+
+  return (
+    <div className="bg-slate-900/50 p-2 rounded-lg border border-slate-700/50 space-y-1.5">
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-xs text-slate-500">Metadados</span>
+        <MetadataPolicySelect value={policy} onChange={onChangePolicy} />
+      </div>
+
+      {hasAny ? (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-400">
+          {metadata.camera && (
+            <span className="flex items-center gap-1" title={[metadata.lens, metadata.dateTaken].filter(Boolean).join(' · ')}>
+              <Camera className="w-3 h-3" /> {metadata.camera}
+            </span>
+          )}
+          {(metadata.copyright || metadata.artist) && (
+            <span className="flex items-center gap-1" title={metadata.artist}>
+              <Copyright className="w-3 h-3" /> {metadata.copyright || metadata.artist}
+            </span>
+          )}
+          {metadata.gps && (
+            <span
+              className={`flex items-center gap-1 ${gpsLeaks ? 'text-amber-500' : ''}`}
+              title={`${metadata.gps.latitude.toFixed(5)}, ${metadata.gps.longitude.toFixed(5)}`}
+            >
+              <MapPin className="w-3 h-3" /> GPS
+            </span>
+          )}
+          {metadata.iccProfile && (
+            <span className="flex items-center gap-1" title="Convertido para sRGB na exportação">
+              <Palette className="w-3 h-3" /> {metadata.iccProfile}
+            </span>
+          )}
+          {!metadata.camera && !metadata.copyright && !metadata.artist && !metadata.gps && (
+            <span>{[metadata.hasExif && 'EXIF', metadata.hasXmp && 'XMP', metadata.hasIptc && 'IPTC'].filter(Boolean).join(' · ')}</span>
+          )}
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-600">Nenhum metadado encontrado</p>
+      )}
+
+      {policy !== MetadataPolicy.STRIP_ALL && !supportsMetadataOutput(format) && (
+        <p className="text-[10px] text-amber-500">Metadados não são gravados em {format.split('/')[1].toUpperCase()}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Braces } from 'lucide-react';
+import { FileNameCase, NamingOptions, ProcessedImage } from '../types';
+import { NAMING_TOKENS, buildFileName } from '../utils/naming';
+
+interface NamingControlsProps {
+  options: NamingOptions;
+  onChange: (options: NamingOptions) => void;
+  previewImage?: ProcessedImage; // Converted image used for the example name
+}
+
+const CASE_LABELS: Record<FileNameCase, string> = {
+  [FileNameCase.ORIGINAL]: 'Como está',
+  [FileNameCase.LOWER]: 'minúsculas',
+  [FileNameCase.KEBAB]: 'kebab-case'
+};
+
+const fieldClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500";
+
+export const NamingControls: React.FC<NamingControlsProps> = ({ options, onChange, previewImage }) => {
+  const [showTokens, setShowTokens] = useState(false);
+  const update = (changes: Partial<NamingOptions>) => onChange({ ...options, ...changes });
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-2">
+      <input
+        type="text"
+        value={options.template}
+        onChange={(e) => update({ template: e.target.value })}
+        placeholder="{name}_opti"
+        className={`${fieldClass} w-44 font-mono`}
+        title={previewImage ? `Exemplo: ${buildFileName(previewImage, { index: 1, date: new Date() }, options)}` : 'Modelo do nome dos arquivos'}
+      />
+      <button
+        onClick={() => setShowTokens(v => !v)}
+        className={`p-1.5 rounded transition-colors ${showTokens ? 'text-blue-400 bg-blue-500/10' : 'text-slate-500 hover:text-slate-300'}`}
+        title="Inserir variável"
+      >
+        <Braces size={14} />
+      </button>
+      <select
+        value={options.case}
+        onChange={(e) => update({ case: e.target.value as FileNameCase })}
+        className={fieldClass}
+        title="Caixa do nome"
+      >
+        {Object.values(FileNameCase).map(nameCase => (
+          <option key={nameCase} value={nameCase}>{CASE_LABELS[nameCase]}</option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer select-none" title="Remove acentos (ç → c, ã → a)">
+        <input
+          type="checkbox"
+          checked={options.transliterate}
+          onChange={(e) => update({ transliterate: e.target.checked })}
+          className="accent-blue-500"
+        />
+        Sem acentos
+      </label>
+
+      {showTokens && (
+        <div className="absolute top-full left-0 mt-1 z-20 w-64 p-1 bg-slate-900 border border-slate-700 rounded-lg shadow-xl">
+          {NAMING_TOKENS.map(({ token, description }) => (
+            <button
+              key={token}
+              onClick={() => update({ template: options.template + token })}
+              className="flex w-full items-center justify-between gap-2 px-2 py-1 text-xs rounded hover:bg-slate-800 transition-colors"
+            >
+              <span className="font-mono text-blue-400">{token}</span>
+              <span className="text-slate-500 text-right">{description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
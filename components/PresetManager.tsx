@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { Check, CopyCheck, FileDown, FileUp, Pencil, Save, Trash2 } from 'lucide-react';
+import { SettingsPreset } from '../types';
+import { downloadBlob } from '../utils/converter';
+import { parsePresets, serializePresets } from '../utils/presets';
+
+interface PresetManagerProps {
+  presets: SettingsPreset[];
+  onApply: (preset: SettingsPreset) => void;
+  onApplyToAll: (preset: SettingsPreset) => void;
+  onSaveCurrent: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (presets: SettingsPreset[]) => void;
+}
+
+const iconButtonClass = "p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors";
+
+export const PresetManager: React.FC<PresetManagerProps> = ({
+  presets,
+  onApply,
+  onApplyToAll,
+  onSaveCurrent,
+  onRename,
+  onDelete,
+  onImport
+}) => {
+  const [selectedId, setSelectedId] = useState(presets[0]?.id ?? '');
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const selected = presets.find(p => p.id === selectedId) ?? presets[0];
+
+  const handleSave = () => {
+    const name = window.prompt('Nome do preset:', '');
+    if (name?.trim()) onSaveCurrent(name);
+  };
+
+  const handleRename = () => {
+    if (!selected || selected.builtIn) return;
+    const name = window.prompt('Novo nome do preset:', selected.name);
+    if (name?.trim()) onRename(selected.id, name);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    if (window.confirm(`Excluir o preset "${selected.name}"?`)) {
+      onDelete(selected.id);
+      setSelectedId(presets[0]?.id ?? '');
+    }
+  };
+
+  const handleExport = () => {
+    const custom = presets.filter(p => !p.builtIn);
+    const blob = new Blob([serializePresets(custom.length > 0 ? custom : presets)], { type: 'application/json' });
+    downloadBlob(blob, 'optipix-presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePresets(await file.text());
+      onImport(imported);
+      setSelectedId(imported[0].id);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Não foi possível importar os presets.');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <select
+        value={selected?.id ?? ''}
+        onChange={(e) => setSelectedId(e.target.value)}
+        className="bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500 max-w-[12rem]"
+        title="Presets"
+      >
+        {presets.map(preset => (
+          <option key={preset.id} value={preset.id}>{preset.name}</option>
+        ))}
+      </select>
+      <button onClick={() => selected && onApply(selected)} disabled={!selected} className={iconButtonClass} title="Usar como padrão para novas imagens">
+        <Check size={14} />
+      </button>
+      <button onClick={() => selected && onApplyToAll(selected)} disabled={!selected} className={iconButtonClass} title="Aplicar a todas as imagens">
+        <CopyCheck size={14} />
+      </button>
+      <button onClick={handleSave} className={iconButtonClass} title="Salvar configurações atuais como preset">
+        <Save size={14} />
+      </button>
+      <button onClick={handleRename} disabled={!selected || selected.builtIn} className={iconButtonClass} title="Renomear preset">
+        <Pencil size={14} />
+      </button>
+      <button onClick={handleDelete} disabled={!selected || selected.builtIn} className={`${iconButtonClass} hover:text-red-400`} title="Excluir preset">
+        <Trash2 size={14} />
+      </button>
+      <button onClick={handleExport} className={iconButtonClass} title="Exportar presets (JSON)">
+        <FileDown size={14} />
+      </button>
+      <button onClick={() => importInputRef.current?.click()} className={iconButtonClass} title="Importar presets (JSON)">
+        <FileUp size={14} />
+      </button>
+      <input
+        type="file"
+        ref={importInputRef}
+        onChange={handleImport}
+        className="hidden"
+        accept="application/json,.json"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { ResizeFit, ResizeSettings } from '../types';
+import { parseWidthList } from '../utils/pipeline';
+
+interface ResizeControlsProps {
+  resize: ResizeSettings;
+  onChange: (resize: ResizeSettings) => void;
+  showSvgScale?: boolean; // Hidden on cards of raster images
+}
+
+const SVG_SCALES = [0.5, 1, 1.5, 2, 3, 4];
+
+const parseDimension = (value: string): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+export const ResizeControls: React.FC<ResizeControlsProps> = ({ resize, onChange, showSvgScale = true }) => {
+  // Widths are edited as free text and only committed on blur/Enter
+  const [widthsText, setWidthsText] = useState(resize.targetWidths.join(', '));
+
+  useEffect(() => {
+    setWidthsText(resize.targetWidths.join(', '));
+  }, [resize.targetWidths]);
+
+  const commitWidths = () => {
+    const targetWidths = parseWidthList(widthsText);
+    setWidthsText(targetWidths.join(', '));
+    if (targetWidths.join(',') !== resize.targetWidths.join(',')) {
+      onChange({ ...resize, targetWidths });
+    }
+  };
+
+  const inputClass = "w-full bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs font-mono text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500";
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      <input
+        type="number"
+        min="1"
+        placeholder="Largura máx."
+        title="Largura máxima (px)"
+        value={resize.maxWidth ?? ''}
+        onChange={(e) => onChange({ ...resize, maxWidth: parseDimension(e.target.value) })}
+        className={inputClass}
+      />
+      <input
+        type="number"
+        min="1"
+        placeholder="Altura máx."
+        title="Altura máxima (px)"
+        value={resize.maxHeight ?? ''}
+        onChange={(e) => onChange({ ...resize, maxHeight: parseDimension(e.target.value) })}
+        className={inputClass}
+      />
+      <select
+        value={resize.fit}
+        onChange={(e) => onChange({ ...resize, fit: e.target.value as ResizeFit })}
+        className={inputClass}
+        title="Modo de ajuste"
+      >
+        <option value={ResizeFit.CONTAIN}>Contain</option>
+        <option value={ResizeFit.COVER}>Cover</option>
+        <option value={ResizeFit.EXACT}>Exact</option>
+      </select>
+      <input
+        type="text"
+        placeholder="Variantes: 320, 640, 1280"
+        title="Larguras das variantes responsivas (px)"
+        value={widthsText}
+        onChange={(e) => setWidthsText(e.target.value)}
+        onBlur={commitWidths}
+        onKeyDown={(e) => { if (e.key === 'Enter') commitWidths(); }}
+        className={`${inputClass} col-span-3`}
+      />
+      {showSvgScale && (
+        <label
+          className="col-span-3 flex items-center gap-2 text-[10px] text-slate-400"
+          title="SVGs são rasterizados no tamanho original multiplicado por esta escala"
+        >
+          Escala do SVG
+          <select
+            value={resize.svgScale}
+            onChange={(e) => onChange({ ...resize, svgScale: parseFloat(e.target.value) })}
+            className={`${inputClass} w-auto`}
+          >
+            {SVG_SCALES.map(scale => (
+              <option key={scale} value={scale}>{scale}×</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
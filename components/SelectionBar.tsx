@@ -0,0 +1,93 @@
+import React from 'react';
+import { Archive, Code, Loader2, RefreshCw, SlidersHorizontal, Trash2, Wand2 } from 'lucide-react';
+import { SettingsPreset } from '../types';
+
+interface SelectionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  failedCount: number;
+  presets: SettingsPreset[];
+  isZipping: boolean;
+  onSelectAll: () => void;
+  onSelectNone: () => void;
+  onSelectFailed: () => void;
+  onApplyGlobalSettings: () => void;
+  onApplyPreset: (preset: SettingsPreset) => void;
+  onReconvert: () => void;
+  onGenerateAlt: () => void;
+  onDownloadZip: () => void;
+  onCopyHtml: () => void;
+  onRemove: () => void;
+}
+
+const linkClass = "text-xs text-slate-400 hover:text-white disabled:opacity-30 disabled:hover:text-slate-400 transition-colors";
+const actionClass = "flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40";
+
+export const SelectionBar: React.FC<SelectionBarProps> = ({
+  selectedCount,
+  totalCount,
+  failedCount,
+  presets,
+  isZipping,
+  onSelectAll,
+  onSelectNone,
+  onSelectFailed,
+  onApplyGlobalSettings,
+  onApplyPreset,
+  onReconvert,
+  onGenerateAlt,
+  onDownloadZip,
+  onCopyHtml,
+  onRemove
+}) => (
+  <div className="flex flex-wrap items-center justify-between gap-3 px-4 py-2 bg-slate-900/50 rounded-xl border border-slate-800">
+    <div className="flex items-center gap-3">
+      <span className="text-xs font-semibold text-slate-300">
+        {selectedCount > 0 ? `${selectedCount} de ${totalCount} selecionada(s)` : `${totalCount} imagem(ns)`}
+      </span>
+      <span className="text-slate-700">|</span>
+      <button onClick={onSelectAll} disabled={selectedCount === totalCount} className={linkClass}>Todas</button>
+      <button onClick={onSelectNone} disabled={selectedCount === 0} className={linkClass}>Nenhuma</button>
+      <button onClick={onSelectFailed} disabled={failedCount === 0} className={linkClass}>
+        Com erro{failedCount > 0 && ` (${failedCount})`}
+      </button>
+    </div>
+
+    {selectedCount > 0 && (
+      <div className="flex flex-wrap items-center gap-1">
+        <button onClick={onApplyGlobalSettings} className={actionClass} title="Aplica as configurações globais às imagens selecionadas">
+          <SlidersHorizontal size={14} /> Aplicar globais
+        </button>
+        <select
+          value=""
+          onChange={(e) => {
+            const preset = presets.find(p => p.id === e.target.value);
+            if (preset) onApplyPreset(preset);
+          }}
+          className="bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500 max-w-[10rem]"
+          title="Aplicar um preset às imagens selecionadas"
+        >
+          <option value="" disabled>Aplicar preset…</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+        <button onClick={onReconvert} className={actionClass}>
+          <RefreshCw size={14} /> Reconverter
+        </button>
+        <button onClick={onGenerateAlt} className={actionClass}>
+          <Wand2 size={14} /> Gerar Alt Text
+        </button>
+        <button onClick={onDownloadZip} disabled={isZipping} className={actionClass}>
+          {isZipping ? <Loader2 size={14} className="animate-spin" /> : <Archive size={14} />} Baixar ZIP
+        </button>
+        <button onClick={onCopyHtml} className={actionClass} title="Copia <picture>/<img> com srcset, dimensões e alt das imagens convertidas">
+          <Code size={14} /> Copiar HTML
+        </button>
+        <button onClick={onRemove} className={`${actionClass} hover:text-red-400 hover:bg-red-400/10`}>
+          <Trash2 size={14} /> Remover
+        </button>
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,258 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, BarChart3, ChevronDown, ChevronUp, FileText, Printer } from 'lucide-react';
+import { ProcessedImage, ProcessingStatus } from '../types';
+import { formatBytes } from '../utils/pipeline';
+import { downloadBlob } from '../utils/converter';
+import {
+  DEFAULT_MONTHLY_VIEWS,
+  DEFAULT_STATS_FILTER,
+  DEFAULT_STATS_SORT,
+  STATUS_LABELS,
+  StatsFilter,
+  StatsSort,
+  StatsSortKey,
+  buildStatsReportHtml,
+  computeBatchStats,
+  estimateMonthlyBandwidth,
+  filterStatsRows,
+  formatSavings,
+  listStatsFormats,
+  sortStatsRows,
+  toStatsRow
+} from '../utils/batchStats';
+
+interface StatsDashboardProps {
+  images: ProcessedImage[];
+}
+
+const COLUMNS: { key: StatsSortKey; label: string; numeric: boolean }[] = [
+  { key: 'name', label: 'Arquivo', numeric: false },
+  { key: 'originalBytes', label: 'Antes', numeric: true },
+  { key: 'outputBytes', label: 'Depois', numeric: true },
+  { key: 'savingsPercent', label: 'Economia', numeric: true },
+  { key: 'quality', label: 'Qualidade', numeric: true }
+];
+
+const selectClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-blue-500";
+const actionClass = "flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40";
+
+const describeFilter = (filter: StatsFilter) => [
+  filter.status !== 'all' && STATUS_LABELS[filter.status],
+  filter.format !== 'all' && filter.format.toUpperCase(),
+  filter.maxSavings !== null && `economia abaixo de ${filter.maxSavings}%`
+].filter(Boolean).join(', ');
+
+// Prints through a hidden iframe, so popup blockers do not get in the way
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.display = 'none';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.addEventListener('afterprint', () => frame.remove());
+    frame.contentWindow?.print();
+  };
+  document.body.appendChild(frame);
+};
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="bg-slate-950/60 rounded-lg border border-slate-800 px-3 py-2" title={hint}>
+    <p className="text-[10px] uppercase tracking-wide text-slate-500">{label}</p>
+    <p className="text-sm font-semibold text-slate-200">{value}</p>
+  </div>
+);
+
+/**
+ * Savings summary over the whole list, with a sortable and filterable table
+ * and the HTML/PDF report export.
+ */
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ images }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [filter, setFilter] = useState<StatsFilter>(DEFAULT_STATS_FILTER);
+  const [sort, setSort] = useState<StatsSort>(DEFAULT_STATS_SORT);
+  const [monthlyViews, setMonthlyViews] = useState(DEFAULT_MONTHLY_VIEWS);
+
+  const allRows = useMemo(() => images.map(toStatsRow), [images]);
+  const rows = useMemo(() => sortStatsRows(filterStatsRows(allRows, filter), sort), [allRows, filter, sort]);
+  const stats = useMemo(() => computeBatchStats(rows), [rows]);
+  const formats = useMemo(() => listStatsFormats(allRows), [allRows]);
+
+  if (images.length === 0) return null;
+
+  const toggleSort = (key: StatsSortKey) =>
+    setSort(prev => prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== 'name' });
+
+  const reportHtml = () => buildStatsReportHtml(rows, monthlyViews, describeFilter(filter));
+  const largestFormat = Math.max(1, ...stats.byFormat.map(f => f.originalBytes));
+
+  return (
+    <div className="px-4 py-2 bg-slate-900/50 rounded-xl border border-slate-800">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="flex items-center gap-1.5 text-xs font-semibold text-slate-300">
+          <BarChart3 size={14} /> Estatísticas
+        </span>
+        <span className="text-xs text-slate-500">
+          {formatBytes(stats.originalBytes)} → {formatBytes(stats.outputBytes)}
+          <span className={`ml-2 font-semibold ${stats.savedBytes >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+            {formatSavings(stats.savingsPercent)}
+          </span>
+        </span>
+        <button
+          onClick={() => setExpanded(v => !v)}
+          className="ml-auto p-1 text-slate-500 hover:text-white rounded"
+          title={expanded ? 'Ocultar estatísticas' : 'Mostrar estatísticas'}
+        >
+          {expanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={filter.status}
+              onChange={(e) => setFilter({ ...filter, status: e.target.value as StatsFilter['status'] })}
+              className={selectClass}
+            >
+              <option value="all">Todos os status</option>
+              {Object.values(ProcessingStatus).map(status => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+            <select
+              value={filter.format}
+              onChange={(e) => setFilter({ ...filter, format: e.target.value })}
+              className={selectClass}
+            >
+              <option value="all">Todos os formatos</option>
+              {formats.map(format => (
+                <option key={format} value={format}>{format.toUpperCase()}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1.5 text-xs text-slate-500" title="Mostra só imagens que economizaram menos que isso">
+              Economia abaixo de
+              <input
+                type="number" min="0" max="100" step="5"
+                value={filter.maxSavings ?? ''}
+                placeholder="—"
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  setFilter({ ...filter, maxSavings: Number.isFinite(value) ? value : null });
+                }}
+                className="w-14 bg-slate-950 border border-slate-800 rounded px-2 py-0.5 text-xs font-mono text-blue-400 focus:outline-none focus:border-blue-500"
+              />
+              %
+            </label>
+
+            <div className="flex items-center gap-1 ml-auto">
+              <button
+                onClick={() => downloadBlob(new Blob([reportHtml()], { type: 'text/html' }), 'optipix_relatorio.html')}
+                disabled={rows.length === 0}
+                className={actionClass}
+              >
+                <FileText size={14} /> Relatório HTML
+              </button>
+              <button onClick={() => printHtml(reportHtml())} disabled={rows.length === 0} className={actionClass} title="Abre a impressão; escolha “Salvar como PDF”">
+                <Printer size={14} /> PDF
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            <Stat label="Imagens" value={`${stats.convertedCount} de ${stats.count} convertida(s)`} />
+            <Stat
+              label="Peso da página"
+              value={`${formatBytes(stats.originalBytes, 1)} → ${formatBytes(stats.outputBytes, 1)}`}
+              hint="Se todas as imagens filtradas estiverem na mesma página"
+            />
+            <Stat label="Economia" value={`${formatBytes(Math.max(0, stats.savedBytes), 1)} (${stats.savingsPercent}%)`} />
+            <Stat label="Qualidade média" value={stats.averageQuality !== null ? String(stats.averageQuality) : '—'} />
+            <div className="bg-slate-950/60 rounded-lg border border-slate-800 px-3 py-2">
+              <label className="flex items-center gap-1 text-[10px] uppercase tracking-wide text-slate-500">
+                Banda/mês com
+                <input
+                  type="number" min="1" step="1000"
+                  value={monthlyViews}
+                  onChange={(e) => {
+                    const value = parseInt(e.target.value, 10);
+                    if (value > 0) setMonthlyViews(value);
+                  }}
+                  className="w-20 bg-transparent border-b border-slate-800 text-[10px] font-mono text-blue-400 focus:outline-none focus:border-blue-500"
+                  title="Visualizações de página por mês"
+                />
+                views
+              </label>
+              <p className="text-sm font-semibold text-emerald-400">-{formatBytes(estimateMonthlyBandwidth(stats, monthlyViews), 1)}</p>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-[10px] uppercase tracking-wide text-slate-500 mb-2">Por formato</p>
+              <ul className="space-y-1.5">
+                {stats.byFormat.map(f => (
+                  <li key={f.format} className="text-xs">
+                    <div className="flex justify-between text-slate-400">
+                      <span>{f.format.toUpperCase()} · {f.count}</span>
+                      <span className="font-mono">{formatBytes(f.originalBytes, 1)} → {formatBytes(f.outputBytes, 1)}</span>
+                    </div>
+                    <div className="relative h-1.5 mt-0.5 bg-slate-800 rounded-full overflow-hidden">
+                      <div className="absolute inset-y-0 left-0 bg-slate-600" style={{ width: `${(f.originalBytes / largestFormat) * 100}%` }} />
+                      <div className="absolute inset-y-0 left-0 bg-blue-500" style={{ width: `${(Math.min(f.outputBytes, f.originalBytes) / largestFormat) * 100}%` }} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <p className="text-[10px] uppercase tracking-wide text-slate-500 mb-2">Maiores arquivos</p>
+              <ul className="space-y-1">
+                {stats.largest.map(row => (
+                  <li key={row.id} className="flex justify-between gap-3 text-xs">
+                    <span className="text-slate-300 truncate" title={row.name}>{row.name}</span>
+                    <span className="font-mono text-slate-400 flex-shrink-0">{formatBytes(row.outputBytes, 1)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-slate-900">
+                <tr>
+                  {COLUMNS.map(col => (
+                    <th key={col.key} className={`py-1.5 px-2 font-medium text-slate-500 ${col.numeric ? 'text-right' : 'text-left'}`}>
+                      <button onClick={() => toggleSort(col.key)} className="inline-flex items-center gap-1 hover:text-white">
+                        {col.label}
+                        {sort.key === col.key && (sort.descending ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/60">
+                {rows.map(row => (
+                  <tr key={row.id}>
+                    <td className="py-1 px-2 max-w-[16rem]">
+                      <span className="block truncate text-slate-300" title={row.name}>{row.name}</span>
+                      <span className="text-[10px] text-slate-500">
+                        {STATUS_LABELS[row.status]} · {row.inputFormat.toUpperCase()}{row.outputFormat && ` → ${row.outputFormat.toUpperCase()}`}
+                      </span>
+                    </td>
+                    <td className="py-1 px-2 text-right font-mono text-slate-400">{formatBytes(row.originalBytes, 1)}</td>
+                    <td className="py-1 px-2 text-right font-mono text-slate-400">{formatBytes(row.outputBytes, 1)}</td>
+                    <td className={`py-1 px-2 text-right font-mono ${row.savingsPercent > 0 ? 'text-emerald-400' : 'text-slate-500'}`}>
+                      {formatSavings(row.savingsPercent)}
+                    </td>
+                    <td className="py-1 px-2 text-right font-mono text-slate-400">{row.quality ?? '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length === 0 && <p className="py-3 text-center text-xs text-slate-500">Nenhuma imagem com esses filtros.</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ConversionSettings } from '../types';
+
+interface TargetSizeControlsProps {
+  settings: ConversionSettings;
+  onChange: (settings: Partial<ConversionSettings>) => void;
+}
+
+export const TargetSizeControls: React.FC<TargetSizeControlsProps> = ({ settings, onChange }) => {
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-slate-500">≤</span>
+        <input
+          type="number"
+          min="1"
+          step="10"
+          value={Math.round(settings.targetSize / 1024)}
+          onChange={(e) => {
+            const kb = parseInt(e.target.value, 10);
+            if (Number.isFinite(kb) && kb > 0) onChange({ targetSize: kb * 1024 });
+          }}
+          className="w-20 bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs font-mono text-blue-400 font-bold focus:outline-none focus:border-blue-500"
+          title="Tamanho máximo do arquivo"
+        />
+        <span className="text-xs text-slate-500">KB</span>
+      </div>
+      <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={settings.allowDownscale}
+          onChange={(e) => onChange({ allowDownscale: e.target.checked })}
+          className="accent-blue-500"
+        />
+        Reduzir dimensões se necessário
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImagePlus, Stamp } from 'lucide-react';
+import { ImageFormat, WatermarkKind, WatermarkPosition, WatermarkSettings } from '../types';
+import { createDownscaledDataURL } from '../utils/converter';
+
+interface WatermarkControlsProps {
+  watermark: WatermarkSettings;
+  onChange: (watermark: WatermarkSettings) => void;
+}
+
+const POSITION_LABELS: Record<WatermarkPosition, string> = {
+  [WatermarkPosition.TOP_LEFT]: 'Superior esquerdo',
+  [WatermarkPosition.TOP_RIGHT]: 'Superior direito',
+  [WatermarkPosition.BOTTOM_LEFT]: 'Inferior esquerdo',
+  [WatermarkPosition.BOTTOM_RIGHT]: 'Inferior direito',
+  [WatermarkPosition.CENTER]: 'Centro',
+  [WatermarkPosition.TILED]: 'Repetido (mosaico)'
+};
+
+// Logos are stored inside the settings, so they are kept small
+const LOGO_MAX_SIDE = 512;
+
+const fieldClass = "bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500";
+
+export const WatermarkControls: React.FC<WatermarkControlsProps> = ({ watermark, onChange }) => {
+  const update = (changes: Partial<WatermarkSettings>) => onChange({ ...watermark, ...changes });
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  // Committed on blur, so typing does not reconvert on every key
+  const [text, setText] = useState(watermark.text);
+
+  useEffect(() => {
+    setText(watermark.text);
+  }, [watermark.text]);
+
+  const handleLogo = async (file?: File) => {
+    if (!file) return;
+    try {
+      update({ imageDataUrl: await createDownscaledDataURL(file, LOGO_MAX_SIDE, 1, ImageFormat.PNG), kind: WatermarkKind.IMAGE });
+    } catch (error) {
+      console.error("Could not read watermark logo", error);
+      alert("Não foi possível ler a imagem do logo.");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <label className="flex items-center gap-1.5 text-xs text-slate-400 cursor-pointer select-none">
+        <input
+          type="checkbox"
+          checked={watermark.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="accent-blue-500"
+        />
+        <Stamp size={14} />
+        Ativar
+      </label>
+
+      {watermark.enabled && (
+        <>
+          <div className="flex bg-slate-950 p-0.5 rounded border border-slate-800">
+            {[WatermarkKind.TEXT, WatermarkKind.IMAGE].map(kind => (
+              <button
+                key={kind}
+                onClick={() => update({ kind })}
+                className={`px-2 py-0.5 text-[10px] font-bold rounded ${watermark.kind === kind ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {kind === WatermarkKind.TEXT ? 'Texto' : 'Logo'}
+              </button>
+            ))}
+          </div>
+
+          {watermark.kind === WatermarkKind.TEXT ? (
+            <>
+              <input
+                type="text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onBlur={() => text !== watermark.text && update({ text })}
+                onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                placeholder="© Sua marca"
+                className={`${fieldClass} w-32`}
+              />
+              <input
+                type="color"
+                value={watermark.color}
+                onChange={(e) => update({ color: e.target.value })}
+                className="w-6 h-6 bg-transparent border border-slate-700 rounded cursor-pointer"
+                title="Cor do texto"
+              />
+            </>
+          ) : (
+            <button
+              onClick={() => logoInputRef.current?.click()}
+              className="flex items-center gap-1.5 px-2 py-1 bg-slate-950 border border-slate-800 rounded text-xs text-slate-300 hover:text-white"
+              title="Enviar logo (PNG com transparência recomendado)"
+            >
+              {watermark.imageDataUrl
+                ? <img src={watermark.imageDataUrl} alt="Logo" className="h-4 max-w-[3rem] object-contain" />
+                : <ImagePlus size={14} />}
+              {watermark.imageDataUrl ? 'Trocar' : 'Enviar logo'}
+            </button>
+          )}
+          <input
+            type="file"
+            ref={logoInputRef}
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              handleLogo(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+
+          <select
+            value={watermark.position}
+            onChange={(e) => update({ position: e.target.value as WatermarkPosition })}
+            className={fieldClass}
+            title="Posição"
+          >
+            {Object.values(WatermarkPosition).map(position => (
+              <option key={position} value={position}>{POSITION_LABELS[position]}</option>
+            ))}
+          </select>
+
+          <label className="flex items-center gap-1 text-[10px] text-slate-500" title="Opacidade">
+            Opac.
+            <input
+              type="range" min="0.05" max="1" step="0.05"
+              value={watermark.opacity}
+              onChange={(e) => update({ opacity: parseFloat(e.target.value) })}
+              className="w-16 accent-blue-500"
+            />
+            <span className="w-7 font-mono text-blue-400">{Math.round(watermark.opacity * 100)}%</span>
+          </label>
+          <label className="flex items-center gap-1 text-[10px] text-slate-500" title="Largura da marca em relação à largura da imagem">
+            Tam.
+            <input
+              type="range" min="0.02" max="1" step="0.01"
+              value={watermark.scale}
+              onChange={(e) => update({ scale: parseFloat(e.target.value) })}
+              className="w-16 accent-blue-500"
+            />
+            <span className="w-7 font-mono text-blue-400">{Math.round(watermark.scale * 100)}%</span>
+          </label>
+          <label className="flex items-center gap-1 text-[10px] text-slate-500" title="Margem em relação à largura da imagem">
+            Margem
+            <input
+              type="number" min="0" max="25" step="0.5"
+              value={Math.round(watermark.margin * 1000) / 10}
+              onChange={(e) => {
+                const margin = parseFloat(e.target.value);
+                if (margin >= 0 && margin <= 25) update({ margin: margin / 100 });
+              }}
+              className={`${fieldClass} w-14 font-mono`}
+            />
+            %
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { AltTextOptions, AltTextTone, TextSuggestions } from "../types";
+import { slugify } from "../utils/slug";
+
+/**
+ * Provider-independent pieces of alt-text generation: the request/result shapes,
+ * the prompt, response parsing and error classification shared by every backend.
+ */
+
+export const ALT_TEXT_LANGUAGES: { code: string; label: string; name: string }[] = [
+  { code: 'pt-BR', label: 'PT', name: 'português do Brasil' },
+  { code: 'en', label: 'EN', name: 'inglês' },
+  { code: 'es', label: 'ES', name: 'espanhol' },
+  { code: 'fr', label: 'FR', name: 'francês' },
+  { code: 'de', label: 'DE', name: 'alemão' },
+  { code: 'it', label: 'IT', name: 'italiano' }
+];
+
+export const DEFAULT_ALT_TEXT_OPTIONS: AltTextOptions = {
+  language: 'pt-BR',
+  maxLength: 120,
+  tone: AltTextTone.NEUTRAL,
+  context: '',
+  keywords: '',
+  includeSuggestions: false
+};
+
+const TONE_INSTRUCTIONS: Record<AltTextTone, string> = {
+  [AltTextTone.NEUTRAL]: 'Use um tom neutro e objetivo.',
+  [AltTextTone.DESCRIPTIVE]: 'Descreva os detalhes visuais relevantes (cores, composição, ação).',
+  [AltTextTone.COMMERCIAL]: 'Use um tom comercial que destaque o produto e seus atributos, sem exageros.',
+  [AltTextTone.EDITORIAL]: 'Use um tom editorial, como em uma legenda jornalística.'
+};
+
+export const FALLBACK_ALT_TEXT = "Descrição não disponível.";
+
+export interface CaptionRequest {
+  imageDataUrl: string; // Downscaled copy of the image
+  mimeType: string;
+  options: AltTextOptions;
+}
+
+export interface AltTextResult {
+  altText: string;
+  suggestions?: TextSuggestions;
+}
+
+export interface CaptioningProvider {
+  generate(request: CaptionRequest, signal?: AbortSignal): Promise<AltTextResult>;
+}
+
+/**
+ * Error carrying the HTTP status of a failed captioning request, so retries and
+ * messages can be decided the same way for every provider.
+ */
+export class CaptioningError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'CaptioningError';
+  }
+}
+
+export const buildCaptionPrompt = (options: AltTextOptions) => {
+  const language = ALT_TEXT_LANGUAGES.find(l => l.code === options.language)?.name ?? options.language;
+  const lines = [
+    `Analise esta imagem e gere um texto alternativo (Alt Text) otimizado para SEO em ${language}.`,
+    `Seja descritivo mas conciso (máximo ${options.maxLength} caracteres). Não use aspas ou prefixos como 'Alt text:'.`,
+    TONE_INSTRUCTIONS[options.tone]
+  ];
+  if (options.context.trim()) {
+    lines.push(`A imagem será publicada neste contexto: ${options.context.trim()}`);
+  }
+  if (options.keywords.trim()) {
+    lines.push(`Inclua naturalmente, quando fizer sentido, estas palavras-chave: ${options.keywords.trim()}.`);
+  }
+  if (options.includeSuggestions) {
+    lines.push(
+      `Além do alt text, sugira no mesmo idioma um título curto, uma legenda de uma frase e um nome de arquivo otimizado para SEO (palavras separadas por hífen, sem extensão).`,
+      'Responda em JSON com os campos altText, title, caption e filename.'
+    );
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Normalizes a `{ altText, title, caption, filename }` response. Suggestions are
+ * only attached when they were requested.
+ */
+export const toAltTextResult = (data: Record<string, unknown>, includeSuggestions: boolean): AltTextResult => {
+  const altText = String(data.altText ?? '').trim() || FALLBACK_ALT_TEXT;
+  if (!includeSuggestions) return { altText };
+  return {
+    altText,
+    suggestions: {
+      title: String(data.title ?? '').trim(),
+      caption: String(data.caption ?? '').trim(),
+      filename: slugify(String(data.filename ?? ''))
+    }
+  };
+};
+
+/**
+ * Rate limits (429) and server errors (5xx) are worth retrying; anything else
+ * (bad key, invalid request) will fail the same way again.
+ */
+export const isRetryableCaptioningError = (error: unknown) => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+};
+
+/**
+ * Short, user-facing description of a failed captioning request.
+ */
+export const describeCaptioningError = (error: unknown): string => {
+  const status = (error as { status?: unknown })?.status;
+  if (status === 429) return "Limite de requisições atingido. Tente novamente mais tarde.";
+  if (typeof status === 'number' && status >= 500) return "Serviço de legendas indisponível.";
+  if (status === 401 || status === 403) return "Chave de API inválida.";
+  if (error instanceof TypeError) return "Falha de rede ao contatar o serviço de legendas.";
+  return error instanceof Error ? error.message : "Erro ao gerar Alt Text.";
+};
@@ -0,0 +1,122 @@
+import { CaptioningConfig, CaptioningProviderType } from "../types";
+import {
+  AltTextResult,
+  CaptioningError,
+  CaptioningProvider,
+  buildCaptionPrompt,
+  toAltTextResult
+} from "./captioning";
+import { createGeminiProvider } from "./geminiService";
+
+export const CAPTIONING_PROVIDER_LABELS: Record<CaptioningProviderType, string> = {
+  [CaptioningProviderType.GEMINI]: 'Gemini (chave própria)',
+  [CaptioningProviderType.HTTP]: 'Endpoint HTTP (proxy)',
+  [CaptioningProviderType.MOCK]: 'Simulado (offline)'
+};
+
+// Build-time defaults, e.g. CAPTION_ENDPOINT=/api/caption for a deploy behind our proxy
+const DEFAULT_ENDPOINT = process.env.CAPTION_ENDPOINT || '';
+
+export const DEFAULT_CAPTIONING_CONFIG: CaptioningConfig = {
+  provider: DEFAULT_ENDPOINT ? CaptioningProviderType.HTTP : CaptioningProviderType.GEMINI,
+  apiKey: '',
+  rememberKey: false,
+  endpoint: DEFAULT_ENDPOINT
+};
+
+/**
+ * Provider that posts the request to a configurable endpoint, typically our own
+ * proxy holding the Gemini key. The endpoint receives
+ * `{ image, mimeType, prompt, options }` (image as base64, without the data URL
+ * prefix) and must answer `{ altText, title?, caption?, filename? }`.
+ * Non-2xx answers keep their status, so 429/5xx are retried like Gemini's.
+ */
+const createHttpProvider = (endpoint: string): CaptioningProvider => ({
+  generate: async ({ imageDataUrl, mimeType, options }, signal): Promise<AltTextResult> => {
+    if (!endpoint.trim()) {
+      throw new CaptioningError("Endpoint de legendas não configurado.");
+    }
+
+    const response = await fetch(endpoint.trim(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        image: imageDataUrl.split(',')[1] || imageDataUrl,
+        mimeType,
+        prompt: buildCaptionPrompt(options),
+        options
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200);
+      throw new CaptioningError(detail || `Endpoint respondeu ${response.status}.`, response.status);
+    }
+    return toAltTextResult(await response.json(), options.includeSuggestions);
+  }
+});
+
+const MOCK_DELAY = 400;
+
+const MOCK_PHRASES: Record<string, { alt: string; title: string; caption: string; file: string }> = {
+  'pt-BR': { alt: 'Imagem de exemplo', title: 'Título de exemplo', caption: 'Legenda gerada offline para', file: 'imagem-exemplo' },
+  en: { alt: 'Sample image', title: 'Sample title', caption: 'Offline caption for', file: 'sample-image' },
+  es: { alt: 'Imagen de ejemplo', title: 'Título de ejemplo', caption: 'Leyenda generada sin conexión para', file: 'imagen-ejemplo' }
+};
+
+// FNV-1a, enough to tell images apart in a deterministic way
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const abortableDelay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * Offline provider for development: the same image and options always produce
+ * the same texts, after a short delay so queue states stay visible.
+ */
+const createMockProvider = (): CaptioningProvider => ({
+  generate: async ({ imageDataUrl, options }, signal): Promise<AltTextResult> => {
+    await abortableDelay(MOCK_DELAY, signal);
+
+    const id = hashString(imageDataUrl).slice(0, 6);
+    const phrases = MOCK_PHRASES[options.language] ?? MOCK_PHRASES.en;
+    const keywords = options.keywords.split(',').map(k => k.trim()).filter(Boolean);
+    const altText = [`${phrases.alt} ${id}`, options.tone, ...keywords].join(', ').slice(0, options.maxLength);
+
+    return toAltTextResult({
+      altText,
+      title: `${phrases.title} ${id}`,
+      caption: `${phrases.caption} ${id}.`,
+      filename: `${phrases.file}-${id}`
+    }, options.includeSuggestions);
+  }
+});
+
+/**
+ * Builds the captioning provider selected in the settings.
+ */
+export const createCaptioningProvider = (config: CaptioningConfig): CaptioningProvider => {
+  switch (config.provider) {
+    case CaptioningProviderType.HTTP:
+      return createHttpProvider(config.endpoint);
+    case CaptioningProviderType.MOCK:
+      return createMockProvider();
+    default:
+      return createGeminiProvider(config.apiKey);
+  }
+};
@@ -1,62 +1,81 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Type } from "@google/genai";
+import {
+  AltTextResult,
+  CaptioningError,
+  CaptioningProvider,
+  FALLBACK_ALT_TEXT,
+  buildCaptionPrompt,
+  toAltTextResult
+} from "./captioning";
 
-/**
- * Initializes the Gemini API client.
- * Uses process.env.API_KEY as per instructions.
- */
-const getGeminiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    return null;
-  }
-  return new GoogleGenAI({ apiKey });
+const SUGGESTIONS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    altText: { type: Type.STRING },
+    title: { type: Type.STRING },
+    caption: { type: Type.STRING },
+    filename: { type: Type.STRING }
+  },
+  required: ['altText', 'title', 'caption', 'filename']
 };
 
 /**
- * Generates an SEO-friendly Alt Text for an image using Gemini 3 Flash.
- * @param base64Data The base64 data URL of the image
- * @param mimeType The mime type of the image
+ * Captioning provider that calls Gemini 3 Flash directly from the browser, with
+ * a key entered by the user at runtime. Title/caption/filename suggestions are
+ * requested as JSON when `options.includeSuggestions` is set.
+ * @param apiKey The user's Gemini API key
  */
-export const generateImageAltText = async (
-  base64Data: string, 
-  mimeType: string
-): Promise<string> => {
-  const ai = getGeminiClient();
-  if (!ai) {
-    throw new Error("API Key is missing or invalid.");
-  }
+export const createGeminiProvider = (apiKey: string): CaptioningProvider => {
+  const ai = apiKey.trim() ? new GoogleGenAI({ apiKey: apiKey.trim() }) : null;
 
-  // Ensure clean base64 string by removing the data URL prefix
-  const cleanBase64 = base64Data.split(',')[1] || base64Data;
+  return {
+    generate: async ({ imageDataUrl, mimeType, options }, signal): Promise<AltTextResult> => {
+      if (!ai) {
+        throw new CaptioningError("Chave de API do Gemini ausente.");
+      }
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: [
-        {
-          parts: [
-            {
-              inlineData: {
-                mimeType: mimeType,
-                data: cleanBase64
-              }
-            },
+      // Ensure clean base64 string by removing the data URL prefix
+      const cleanBase64 = imageDataUrl.split(',')[1] || imageDataUrl;
+
+      try {
+        const response = await ai.models.generateContent({
+          model: 'gemini-3-flash-preview',
+          contents: [
             {
-              text: "Analise esta imagem e gere um texto alternativo (Alt Text) otimizado para SEO em Português. Seja descritivo mas conciso (máximo 120 caracteres). Não use aspas ou prefixos como 'Alt text:'."
+              parts: [
+                {
+                  inlineData: {
+                    mimeType: mimeType,
+                    data: cleanBase64
+                  }
+                },
+                {
+                  text: buildCaptionPrompt(options)
+                }
+              ]
             }
-          ]
+          ],
+          config: {
+            temperature: 0.4,
+            topP: 0.8,
+            topK: 40,
+            abortSignal: signal,
+            ...(options.includeSuggestions && {
+              responseMimeType: 'application/json',
+              responseSchema: SUGGESTIONS_SCHEMA
+            })
+          }
+        });
+
+        const text = response.text?.trim();
+        if (options.includeSuggestions && text) {
+          return toAltTextResult(JSON.parse(text), true);
         }
-      ],
-      config: {
-        temperature: 0.4,
-        topP: 0.8,
-        topK: 40
+        return { altText: text || FALLBACK_ALT_TEXT };
+      } catch (error) {
+        console.error("Erro ao gerar Alt Text:", error);
+        throw error;
       }
-    });
-
-    return response.text?.trim() || "Descrição não disponível.";
-  } catch (error) {
-    console.error("Erro ao gerar Alt Text:", error);
-    throw error;
-  }
-};
\ No newline at end of file
+    }
+  };
+};
@@ -0,0 +1,238 @@
+import {
+  AltTextOptions,
+  CaptioningConfig,
+  ConversionFailure,
+  ConversionSettings,
+  ImageEdits,
+  ImageMetadata,
+  NamingOptions,
+  ProcessedImage,
+  ProcessingStatus,
+  ResizeSettings,
+  SettingsPreset,
+  TextSuggestions
+} from "../types";
+
+/**
+ * IndexedDB persistence for the workspace, so uploads, conversions and alt texts
+ * survive reloads. Originals are written once in their own store; the mutable part
+ * of each card (settings, outputs, alt text) is rewritten whenever it changes.
+ */
+
+const DB_NAME = 'optipix-workspace';
+const DB_VERSION = 1;
+const ORIGINALS_STORE = 'originals';
+const IMAGES_STORE = 'images';
+const META_STORE = 'meta';
+const GLOBAL_SETTINGS_KEY = 'globalSettings';
+const PRESETS_KEY = 'presets';
+const ALT_TEXT_OPTIONS_KEY = 'altTextOptions';
+const CAPTIONING_CONFIG_KEY = 'captioningConfig';
+const NAMING_OPTIONS_KEY = 'namingOptions';
+
+export interface StoredVariant {
+  width: number;
+  height: number;
+  blob: Blob;
+}
+
+export interface StoredImage {
+  id: string;
+  createdAt: number; // Keeps the upload order across reloads
+  relativeDir?: string;
+  edits?: ImageEdits;
+  resizeBeforeEdits?: ResizeSettings;
+  settings: ConversionSettings;
+  status: ProcessingStatus;
+  convertedBlob: Blob | null;
+  convertedWidth: number;
+  convertedHeight: number;
+  variants: StoredVariant[];
+  chosenQuality?: number;
+  targetMet?: boolean;
+  encoderUsed?: string;
+  formatReason?: string;
+  keptOriginal?: boolean;
+  frameCount?: number;
+  conversionError?: ConversionFailure;
+  recoveredResize?: ResizeSettings;
+  recoveryNote?: string;
+  metadataWarning?: string;
+  metadata?: ImageMetadata;
+  altText?: string;
+  textSuggestions?: TextSuggestions;
+}
+
+export interface RestoredImage extends StoredImage {
+  file: File;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(ORIGINALS_STORE);
+        db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+        db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      // Allow a later call to retry (e.g. after the user frees space)
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+const toStoredImage = (image: ProcessedImage, createdAt: number): StoredImage => {
+  // In-flight states are not worth restoring; the image is simply converted again
+  const completed = image.status === ProcessingStatus.COMPLETED;
+  return {
+    id: image.id,
+    createdAt,
+    relativeDir: image.relativeDir,
+    edits: image.edits,
+    resizeBeforeEdits: image.resizeBeforeEdits,
+    settings: image.settings,
+    status: completed || image.status === ProcessingStatus.ERROR ? image.status : ProcessingStatus.IDLE,
+    convertedBlob: completed ? image.convertedBlob : null,
+    convertedWidth: completed ? image.convertedWidth : 0,
+    convertedHeight: completed ? image.convertedHeight : 0,
+    variants: completed ? image.variants.map(({ width, height, blob }) => ({ width, height, blob })) : [],
+    chosenQuality: image.chosenQuality,
+    targetMet: image.targetMet,
+    encoderUsed: image.encoderUsed,
+    formatReason: image.formatReason,
+    keptOriginal: image.keptOriginal,
+    frameCount: completed ? image.frameCount : undefined,
+    conversionError: image.status === ProcessingStatus.ERROR ? image.conversionError : undefined,
+    recoveredResize: completed ? image.recoveredResize : undefined,
+    recoveryNote: completed ? image.recoveryNote : undefined,
+    metadataWarning: completed ? image.metadataWarning : undefined,
+    metadata: image.metadata,
+    altText: image.altText,
+    textSuggestions: image.textSuggestions
+  };
+};
+
+/**
+ * Saves (or updates) a card. The original file is only written the first time.
+ */
+export const saveImage = async (image: ProcessedImage): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ORIGINALS_STORE, IMAGES_STORE], 'readwrite');
+  const images = tx.objectStore(IMAGES_STORE);
+
+  const existing = await requestToPromise<StoredImage | undefined>(images.get(image.id));
+  if (!existing) {
+    tx.objectStore(ORIGINALS_STORE).put(image.originalFile, image.id);
+  }
+  images.put(toStoredImage(image, existing?.createdAt ?? Date.now()));
+
+  return transactionDone(tx);
+};
+
+export const deleteImage = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ORIGINALS_STORE, IMAGES_STORE], 'readwrite');
+  tx.objectStore(ORIGINALS_STORE).delete(id);
+  tx.objectStore(IMAGES_STORE).delete(id);
+  return transactionDone(tx);
+};
+
+/**
+ * Loads every saved card in upload order. Records whose original is missing are skipped.
+ */
+export const loadImages = async (): Promise<RestoredImage[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([ORIGINALS_STORE, IMAGES_STORE], 'readonly');
+  const [records, files, keys] = await Promise.all([
+    requestToPromise<StoredImage[]>(tx.objectStore(IMAGES_STORE).getAll()),
+    requestToPromise<File[]>(tx.objectStore(ORIGINALS_STORE).getAll()),
+    requestToPromise<IDBValidKey[]>(tx.objectStore(ORIGINALS_STORE).getAllKeys())
+  ]);
+
+  const filesById = new Map<IDBValidKey, File>(keys.map((key, index) => [key, files[index]]));
+  return records
+    .filter(record => filesById.has(record.id))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(record => ({ ...record, file: filesById.get(record.id)! }));
+};
+
+const putMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  return transactionDone(tx);
+};
+
+const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return requestToPromise<T | undefined>(tx.objectStore(META_STORE).get(key));
+};
+
+export const saveGlobalSettings = (settings: ConversionSettings) => putMeta(GLOBAL_SETTINGS_KEY, settings);
+
+export const loadGlobalSettings = () => getMeta<ConversionSettings>(GLOBAL_SETTINGS_KEY);
+
+// Only user presets are stored; built-ins ship with the app
+export const savePresets = (presets: SettingsPreset[]) =>
+  putMeta(PRESETS_KEY, presets.filter(preset => !preset.builtIn));
+
+export const loadPresets = async (): Promise<SettingsPreset[]> => (await getMeta<SettingsPreset[]>(PRESETS_KEY)) ?? [];
+
+export const saveAltTextOptions = (options: AltTextOptions) => putMeta(ALT_TEXT_OPTIONS_KEY, options);
+
+export const loadAltTextOptions = () => getMeta<AltTextOptions>(ALT_TEXT_OPTIONS_KEY);
+
+// The API key is only written when the user asked to remember it
+export const saveCaptioningConfig = (config: CaptioningConfig) =>
+  putMeta(CAPTIONING_CONFIG_KEY, config.rememberKey ? config : { ...config, apiKey: '' });
+
+export const loadCaptioningConfig = () => getMeta<CaptioningConfig>(CAPTIONING_CONFIG_KEY);
+
+export const saveNamingOptions = (options: NamingOptions) => putMeta(NAMING_OPTIONS_KEY, options);
+
+export const loadNamingOptions = () => getMeta<NamingOptions>(NAMING_OPTIONS_KEY);
+
+/**
+ * Bytes used by this origin and the quota granted by the browser, when the
+ * Storage API is available.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+/**
+ * Asks the browser not to evict the workspace under storage pressure.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
@@ -2,7 +2,19 @@ export enum ImageFormat {
   WEBP = 'image/webp',
   AVIF = 'image/avif',
   JPEG = 'image/jpeg',
-  PNG = 'image/png'
+  PNG = 'image/png',
+  JXL = 'image/jxl' // WASM encoder only
+}
+
+export enum EncoderPreference {
+  AUTO = 'auto',     // Native canvas when it supports the format/options, WASM otherwise
+  NATIVE = 'native', // Always canvas.toBlob (browsers may silently fall back to PNG)
+  WASM = 'wasm'      // Always the bundled WASM encoder for the format
+}
+
+export enum ChromaSubsampling {
+  YUV420 = '4:2:0',
+  YUV444 = '4:4:4'
 }
 
 export enum ProcessingStatus {
@@ -12,21 +24,237 @@ export enum ProcessingStatus {
   ERROR = 'error'
 }
 
+export enum ResizeFit {
+  CONTAIN = 'contain', // Scale down to fit inside the box, keeping aspect ratio
+  COVER = 'cover',     // Fill the box, cropping the overflow from the center
+  EXACT = 'exact'      // Stretch to the exact box dimensions
+}
+
+export interface ResizeSettings {
+  maxWidth: number | null;  // null = no limit
+  maxHeight: number | null; // null = no limit
+  fit: ResizeFit;
+  targetWidths: number[];   // Extra responsive variants, e.g. [320, 640, 1280, 1920]
+  svgScale: number;         // SVG sources are rasterized at their intrinsic size times this
+}
+
+export enum QualityMode {
+  FIXED = 'fixed',            // Use `quality` as-is
+  TARGET_SIZE = 'target-size', // Search for the highest quality that fits `targetSize`
+  MIN_SSIM = 'min-ssim'        // Search for the lowest quality that keeps SSIM >= `minSsim`
+}
+
+export enum MetadataPolicy {
+  STRIP_ALL = 'strip-all',           // Drop EXIF/XMP/IPTC (canvas default)
+  KEEP_COPYRIGHT = 'keep-copyright', // Only author and copyright
+  STRIP_GPS = 'strip-gps',           // Everything except location data
+  KEEP_ALL = 'keep-all'               // All of EXIF/XMP/IPTC; never ICC, the pixels are exported as sRGB
+}
+
+export enum WatermarkKind {
+  TEXT = 'text',
+  IMAGE = 'image' // Uploaded logo
+}
+
+export enum WatermarkPosition {
+  TOP_LEFT = 'top-left',
+  TOP_RIGHT = 'top-right',
+  BOTTOM_LEFT = 'bottom-left',
+  BOTTOM_RIGHT = 'bottom-right',
+  CENTER = 'center',
+  TILED = 'tiled' // Repeated diagonally over the whole image
+}
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  kind: WatermarkKind;
+  text: string;
+  color: string; // Text color, #rrggbb
+  imageDataUrl: string | null; // Logo as a data URL, so settings stay serializable
+  position: WatermarkPosition;
+  opacity: number; // 0 to 1
+  scale: number; // Watermark width as a fraction of the output width
+  margin: number; // Distance from the edges as a fraction of the output width
+}
+
 export interface ConversionSettings {
   format: ImageFormat;
   quality: number; // 0.1 to 1.0
+  qualityMode: QualityMode;
+  targetSize: number; // Byte budget for TARGET_SIZE mode
+  allowDownscale: boolean; // Shrink dimensions when min quality still exceeds targetSize
+  minSsim: number; // Similarity floor for MIN_SSIM mode, 0 to 1
+  resize: ResizeSettings;
+  metadataPolicy: MetadataPolicy;
+  encoder: EncoderPreference;
+  effort: number; // 0 (fastest) to 9 (smallest output), WASM encoders only
+  chromaSubsampling: ChromaSubsampling;
+  lossless: boolean; // WebP/AVIF/JXL lossless mode
+  progressive: boolean; // JPEG only
+  backgroundColor: string; // Fill behind transparent pixels for formats without alpha (JPEG)
+  paletteColors: number | null; // PNG palette size (2-256), null = full color
+  dithering: boolean; // Floyd–Steinberg dithering for PNG palettes
+  autoFormat: boolean; // Try several formats and keep the smallest acceptable one (ignores `format`)
+  keepOriginal: boolean; // Output the source file when no conversion is smaller
+  watermark: WatermarkSettings; // Drawn over every output, variants included
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  builtIn: boolean; // Shipped with the app: cannot be renamed or deleted
+  settings: ConversionSettings;
+}
+
+// Fractions (0-1) of the rotated and straightened image
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Non-destructive edits, applied to the source before every conversion
+export interface ImageEdits {
+  rotation: number; // Clockwise quarter turns: 0, 90, 180 or 270
+  flipH: boolean;
+  flipV: boolean;
+  straighten: number; // Fine rotation in degrees (-45 to 45); the borders are cropped away
+  crop: CropRect | null; // null = whole image
+  aspect: string | null; // Id of the locked aspect-ratio preset, kept for the editor
+}
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  blob: Blob;
+  url: string;
+  size: number;
+}
+
+export interface QualityMetrics {
+  ssim: number; // 0 to 1, 1 = identical
+  psnr: number; // dB, Infinity = identical
+  heatmapUrl: string; // Difference heatmap image URL
+}
+
+export interface ImageMetadata {
+  camera?: string;
+  lens?: string;
+  software?: string;
+  dateTaken?: string;
+  artist?: string;
+  copyright?: string;
+  orientation?: number; // EXIF orientation 1-8
+  gps?: { latitude: number; longitude: number };
+  iccProfile?: string; // ICC profile description, e.g. "Display P3"
+  hasExif: boolean;
+  hasXmp: boolean;
+  hasIptc: boolean;
+}
+
+export enum AltTextTone {
+  NEUTRAL = 'neutral',         // Objective description
+  DESCRIPTIVE = 'descriptive', // Richer visual detail
+  COMMERCIAL = 'commercial',   // Highlights the product, e-commerce
+  EDITORIAL = 'editorial'      // Journalistic, for articles
+}
+
+export interface AltTextOptions {
+  language: string; // BCP 47 code, e.g. 'pt-BR'
+  maxLength: number; // Characters
+  tone: AltTextTone;
+  context: string; // Page or article the image is published in
+  keywords: string; // Comma separated, worked in when relevant
+  includeSuggestions: boolean; // Also ask for title, caption and filename
+}
+
+// Companion texts generated alongside the alt text
+export interface TextSuggestions {
+  title: string;
+  caption: string;
+  filename: string; // SEO slug, without extension
+}
+
+export enum CaptioningProviderType {
+  GEMINI = 'gemini', // Direct calls with a key entered by the user
+  HTTP = 'http',     // Our own endpoint/proxy that holds the key
+  MOCK = 'mock'      // Deterministic offline captions for development
+}
+
+export interface CaptioningConfig {
+  provider: CaptioningProviderType;
+  apiKey: string; // Gemini only
+  rememberKey: boolean; // Keep the key in IndexedDB across reloads
+  endpoint: string; // HTTP only
+}
+
+export enum AltTextStatus {
+  QUEUED = 'queued',
+  GENERATING = 'generating',
+  RETRYING = 'retrying', // Waiting for the backoff after a rate limit or server error
+  ERROR = 'error'
+}
+
+export enum ConversionErrorKind {
+  DECODE = 'decode',                           // Corrupt or truncated file
+  UNSUPPORTED_INPUT = 'unsupported-input',     // Format we cannot decode (RAW, PSD…)
+  CANVAS_LIMIT = 'canvas-limit',               // Larger than the browser allows for a canvas
+  ENCODER_UNSUPPORTED = 'encoder-unsupported', // No working encoder for the output format
+  OUT_OF_MEMORY = 'out-of-memory',
+  UNKNOWN = 'unknown'
+}
+
+export interface ConversionFailure {
+  kind: ConversionErrorKind;
+  detail: string; // Technical message of the underlying error
+}
+
+export enum FileNameCase {
+  ORIGINAL = 'original',
+  LOWER = 'lower',
+  KEBAB = 'kebab' // lowercase-words-joined-by-hyphens
+}
+
+// Output file naming for downloads and ZIPs
+export interface NamingOptions {
+  template: string; // Tokens: {name} {width} {height} {format} {quality} {index} {date} {alt-slug}
+  transliterate: boolean; // Strip accents, e.g. "ç" -> "c"
+  case: FileNameCase;
 }
 
 export interface ProcessedImage {
   id: string;
   originalFile: File;
+  relativeDir?: string; // Folder the file came from (folder drops, ZIP input), mirrored on export
   previewUrl: string; // Original Image URL
   convertedBlob: Blob | null;
   convertedUrl: string | null; // Optimized Image URL
   status: ProcessingStatus;
   originalSize: number;
   convertedSize: number;
+  convertedWidth: number;
+  convertedHeight: number;
+  variants: ImageVariant[]; // Responsive variants generated from targetWidths
+  chosenQuality?: number; // Quality actually used by the encoder (differs from settings in TARGET_SIZE mode)
+  targetMet?: boolean; // Whether the output meets the TARGET_SIZE/MIN_SSIM goal
+  metrics?: QualityMetrics;
+  metadata?: ImageMetadata; // Parsed from originalFile on upload
+  encoderUsed?: string; // Label of the encoder that produced convertedBlob
+  formatReason?: string; // Set by Auto format / keep original
+  keptOriginal?: boolean; // convertedBlob is the original file
+  animated?: boolean; // Source is an animated GIF/WebP
+  frameCount?: number; // Set when convertedBlob is animated
+  conversionError?: ConversionFailure; // Why the last conversion failed
+  recoveredResize?: ResizeSettings; // Resize an automatic downscale retry used; `settings` keep the requested one
+  recoveryNote?: string; // Set when an automatic retry had to change the output (e.g. downscale)
+  metadataWarning?: string; // Metadata the policy kept but the output could not hold
+  isAnalyzing?: boolean;
+  edits?: ImageEdits; // Crop/rotate/flip applied before conversion
+  resizeBeforeEdits?: ResizeSettings; // Resize a fixed-size editor preset replaced, restored when the preset goes away
   settings: ConversionSettings; // Individual settings per image
   altText?: string;
-  isGeneratingAlt?: boolean;
+  altTextStatus?: AltTextStatus; // undefined when no generation is pending
+  altTextError?: string; // Last failure, shown on the card
+  textSuggestions?: TextSuggestions;
 }
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessedImage, ProcessingStatus } from '../types';
+import {
+  DEFAULT_STATS_FILTER,
+  StatsRow,
+  buildStatsReportHtml,
+  computeBatchStats,
+  estimateMonthlyBandwidth,
+  filterStatsRows,
+  formatSavings,
+  listStatsFormats,
+  sortStatsRows,
+  toStatsRow
+} from './batchStats';
+import { DEFAULT_SETTINGS } from './presets';
+
+const row = (id: string, outputBytes: number, values: Partial<StatsRow> = {}): StatsRow => ({
+  id,
+  name: `${id}.jpg`,
+  status: ProcessingStatus.COMPLETED,
+  inputFormat: 'jpg',
+  outputFormat: 'webp',
+  originalBytes: 1000,
+  outputBytes,
+  savingsPercent: (1 - outputBytes / 1000) * 100,
+  quality: 80,
+  ...values
+});
+
+const rows = [
+  row('a', 250, { name: 'produtos/a.jpg' }),
+  row('b', 900, { quality: 60 }),
+  row('c', 1000, { status: ProcessingStatus.IDLE, inputFormat: 'png', outputFormat: null, quality: null }),
+  row('d', 1000, { outputFormat: 'jpg', quality: null })
+];
+
+describe('toStatsRow', () => {
+  const image = (values: Partial<ProcessedImage>): ProcessedImage => ({
+    id: 'a',
+    originalFile: new File([new Uint8Array(1000)], 'a.jpg'),
+    relativeDir: 'produtos',
+    previewUrl: '',
+    convertedBlob: null,
+    convertedUrl: null,
+    status: ProcessingStatus.IDLE,
+    originalSize: 1000,
+    convertedSize: 0,
+    convertedWidth: 0,
+    convertedHeight: 0,
+    variants: [],
+    settings: DEFAULT_SETTINGS,
+    ...values
+  });
+  const converted = {
+    status: ProcessingStatus.COMPLETED,
+    convertedBlob: new Blob([], { type: 'image/webp' }),
+    convertedSize: 250,
+    chosenQuality: 0.8
+  };
+
+  it('describes converted images by their output', () => {
+    expect(toStatsRow(image(converted))).toMatchObject({
+      name: 'produtos/a.jpg', inputFormat: 'jpg', outputFormat: 'webp', outputBytes: 250, savingsPercent: 75, quality: 80
+    });
+  });
+
+  it('counts images not converted yet at their original size', () => {
+    expect(toStatsRow(image({}))).toMatchObject({ outputFormat: null, outputBytes: 1000, savingsPercent: 0, quality: null });
+  });
+
+  it('has no quality when the original was kept', () => {
+    expect(toStatsRow(image({ ...converted, keptOriginal: true })).quality).toBeNull();
+  });
+});
+
+describe('filterStatsRows and sortStatsRows', () => {
+  it('filters by status, format and savings', () => {
+    expect(filterStatsRows(rows, { ...DEFAULT_STATS_FILTER, status: ProcessingStatus.IDLE }).map(r => r.id)).toEqual(['c']);
+    expect(filterStatsRows(rows, { ...DEFAULT_STATS_FILTER, format: 'png' }).map(r => r.id)).toEqual(['c']);
+    expect(filterStatsRows(rows, { ...DEFAULT_STATS_FILTER, maxSavings: 20 }).map(r => r.id)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('sorts rows without quality last in both directions', () => {
+    expect(sortStatsRows(rows, { key: 'quality', descending: true }).map(r => r.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(sortStatsRows(rows, { key: 'quality', descending: false }).map(r => r.id)).toEqual(['b', 'a', 'c', 'd']);
+  });
+
+  it('sorts names alphabetically', () => {
+    expect(sortStatsRows(rows, { key: 'name', descending: false }).map(r => r.id)).toEqual(['b', 'c', 'd', 'a']);
+  });
+});
+
+describe('computeBatchStats', () => {
+  const stats = computeBatchStats(rows);
+
+  it('adds up the batch', () => {
+    expect(stats).toMatchObject({
+      count: 4, convertedCount: 3, originalBytes: 4000, outputBytes: 3150, savedBytes: 850, savingsPercent: 21.3, averageQuality: 70
+    });
+  });
+
+  it('breaks the batch down by format, largest output first', () => {
+    expect(stats.byFormat.map(f => [f.format, f.count, f.outputBytes])).toEqual([['webp', 2, 1150], ['png', 1, 1000], ['jpg', 1, 1000]]);
+    expect(listStatsFormats(rows)).toEqual(['jpg', 'png', 'webp']);
+  });
+
+  it('estimates the bandwidth saved, never below zero', () => {
+    expect(estimateMonthlyBandwidth(stats, 1000)).toBe(850_000);
+    expect(estimateMonthlyBandwidth({ ...stats, savedBytes: -10 }, 1000)).toBe(0);
+  });
+
+  it('has no average quality without converted images', () => {
+    expect(computeBatchStats([rows[2]]).averageQuality).toBeNull();
+  });
+});
+
+describe('formatSavings', () => {
+  it('shows savings as a reduction and growth as an increase', () => {
+    expect(formatSavings(75)).toBe('-75%');
+    expect(formatSavings(-12.5)).toBe('+12.5%');
+    expect(formatSavings(0)).toBe('0%');
+  });
+});
+
+describe('buildStatsReportHtml', () => {
+  it('escapes file names and lists every row', () => {
+    const html = buildStatsReportHtml([...rows, row('x', 100, { name: '<script>.jpg' })], 10000, 'Convertida');
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;.jpg');
+    expect(html).toContain('Filtros: Convertida');
+    for (const { name } of rows) expect(html).toContain(name);
+  });
+});
@@ -0,0 +1,236 @@
+import { ProcessedImage, ProcessingStatus } from '../types';
+import { escapeAttribute } from './exportManifest';
+import { formatBytes, getBlobExtension } from './pipeline';
+
+/**
+ * Batch statistics over the image list: totals, per-format breakdown and the
+ * savings report exported for performance tickets. Only the main output is
+ * counted; responsive variants are alternatives to it, not extra page weight.
+ */
+
+export interface StatsRow {
+  id: string;
+  name: string; // Path as imported, e.g. "produtos/tenis.jpg"
+  status: ProcessingStatus;
+  inputFormat: string; // Extension, e.g. "jpg"
+  outputFormat: string | null; // null until converted
+  originalBytes: number;
+  outputBytes: number; // The original size while not converted
+  savingsPercent: number; // Negative when the output is larger
+  quality: number | null; // 0-100, null when not converted or the original was kept
+}
+
+export type StatsSortKey = 'name' | 'originalBytes' | 'outputBytes' | 'savingsPercent' | 'quality';
+
+export interface StatsFilter {
+  status: ProcessingStatus | 'all';
+  format: string | 'all'; // Output format, or the input one while not converted
+  maxSavings: number | null; // Only rows saving less than this percentage
+}
+
+export interface StatsSort {
+  key: StatsSortKey;
+  descending: boolean;
+}
+
+export interface FormatBreakdown {
+  format: string;
+  count: number;
+  originalBytes: number;
+  outputBytes: number;
+}
+
+export interface BatchStats {
+  count: number;
+  convertedCount: number;
+  originalBytes: number;
+  outputBytes: number;
+  savedBytes: number;
+  savingsPercent: number;
+  averageQuality: number | null; // 0-100
+  byFormat: FormatBreakdown[]; // Largest output first
+  largest: StatsRow[]; // Heaviest files after conversion
+}
+
+export const DEFAULT_STATS_FILTER: StatsFilter = { status: 'all', format: 'all', maxSavings: null };
+export const DEFAULT_STATS_SORT: StatsSort = { key: 'outputBytes', descending: true };
+
+// Monthly page views used for the bandwidth estimate until the user changes it
+export const DEFAULT_MONTHLY_VIEWS = 10000;
+
+const LARGEST_COUNT = 5;
+
+export const STATUS_LABELS: Record<ProcessingStatus, string> = {
+  [ProcessingStatus.IDLE]: 'Na fila',
+  [ProcessingStatus.CONVERTING]: 'Convertendo',
+  [ProcessingStatus.COMPLETED]: 'Convertida',
+  [ProcessingStatus.ERROR]: 'Com erro'
+};
+
+const percentSaved = (original: number, output: number) =>
+  original > 0 ? Math.round((1 - output / original) * 1000) / 10 : 0;
+
+const fileExtension = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : 'bin';
+
+export const toStatsRow = (image: ProcessedImage): StatsRow => {
+  const converted = image.status === ProcessingStatus.COMPLETED && !!image.convertedBlob;
+  const outputBytes = converted ? image.convertedSize : image.originalSize;
+  return {
+    id: image.id,
+    name: image.relativeDir ? `${image.relativeDir}/${image.originalFile.name}` : image.originalFile.name,
+    status: image.status,
+    inputFormat: fileExtension(image.originalFile.name),
+    outputFormat: converted ? getBlobExtension(image.convertedBlob!) : null,
+    originalBytes: image.originalSize,
+    outputBytes,
+    savingsPercent: percentSaved(image.originalSize, outputBytes),
+    quality: converted && !image.keptOriginal ? Math.round((image.chosenQuality ?? image.settings.quality) * 100) : null
+  };
+};
+
+const rowFormat = (row: StatsRow) => row.outputFormat ?? row.inputFormat;
+
+export const filterStatsRows = (rows: StatsRow[], filter: StatsFilter) =>
+  rows.filter(row =>
+    (filter.status === 'all' || row.status === filter.status) &&
+    (filter.format === 'all' || rowFormat(row) === filter.format) &&
+    (filter.maxSavings === null || row.savingsPercent < filter.maxSavings)
+  );
+
+export const sortStatsRows = (rows: StatsRow[], { key, descending }: StatsSort) =>
+  [...rows].sort((a, b) => {
+    if (key === 'name') return descending ? b.name.localeCompare(a.name) : a.name.localeCompare(b.name);
+    const x = a[key];
+    const y = b[key];
+    // Rows without quality always go last
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    return descending ? y - x : x - y;
+  });
+
+/**
+ * Formats present in the rows, for the format filter.
+ */
+export const listStatsFormats = (rows: StatsRow[]) => [...new Set(rows.map(rowFormat))].sort();
+
+export const computeBatchStats = (rows: StatsRow[]): BatchStats => {
+  const originalBytes = rows.reduce((sum, row) => sum + row.originalBytes, 0);
+  const outputBytes = rows.reduce((sum, row) => sum + row.outputBytes, 0);
+  const qualities = rows.map(row => row.quality).filter((q): q is number => q !== null);
+
+  const byFormat = new Map<string, FormatBreakdown>();
+  for (const row of rows) {
+    const format = rowFormat(row);
+    const entry = byFormat.get(format) ?? { format, count: 0, originalBytes: 0, outputBytes: 0 };
+    entry.count++;
+    entry.originalBytes += row.originalBytes;
+    entry.outputBytes += row.outputBytes;
+    byFormat.set(format, entry);
+  }
+
+  return {
+    count: rows.length,
+    convertedCount: rows.filter(row => row.outputFormat !== null).length,
+    originalBytes,
+    outputBytes,
+    savedBytes: originalBytes - outputBytes,
+    savingsPercent: percentSaved(originalBytes, outputBytes),
+    averageQuality: qualities.length > 0 ? Math.round(qualities.reduce((a, b) => a + b, 0) / qualities.length) : null,
+    byFormat: [...byFormat.values()].sort((a, b) => b.outputBytes - a.outputBytes),
+    largest: sortStatsRows(rows, DEFAULT_STATS_SORT).slice(0, LARGEST_COUNT)
+  };
+};
+
+/**
+ * Bytes no longer transferred per month if every image of the batch is shown
+ * on a page with `monthlyViews` views (ignoring caches).
+ */
+export const estimateMonthlyBandwidth = (stats: BatchStats, monthlyViews: number) =>
+  Math.max(0, stats.savedBytes) * monthlyViews;
+
+export const formatSavings = (percent: number) =>
+  percent === 0 ? '0%' : `${percent > 0 ? '-' : '+'}${Math.abs(percent)}%`;
+
+const REPORT_STYLE = `
+  body { font: 14px/1.5 system-ui, sans-serif; color: #0f172a; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin: 0 0 .25rem; }
+  h2 { font-size: 1.05rem; margin: 2rem 0 .5rem; }
+  .muted { color: #64748b; }
+  .summary { display: grid; grid-template-columns: repeat(auto-fit, minmax(10rem, 1fr)); gap: .75rem; margin-top: 1.5rem; }
+  .summary div { border: 1px solid #e2e8f0; border-radius: 8px; padding: .75rem; }
+  .summary strong { display: block; font-size: 1.2rem; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: .35rem .5rem; border-bottom: 1px solid #e2e8f0; }
+  td.num, th.num { text-align: right; white-space: nowrap; }
+  @media print { body { margin: 0; } }
+`;
+
+const tableHtml = (headers: string[], rows: (string | number)[][], numericFrom: number) => {
+  const cell = (tag: string, value: string | number, index: number) =>
+    `<${tag}${index >= numericFrom ? ' class="num"' : ''}>${escapeAttribute(String(value))}</${tag}>`;
+  return [
+    '<table>',
+    `<thead><tr>${headers.map((h, i) => cell('th', h, i)).join('')}</tr></thead>`,
+    `<tbody>${rows.map(row => `<tr>${row.map((v, i) => cell('td', v, i)).join('')}</tr>`).join('')}</tbody>`,
+    '</table>'
+  ].join('\n');
+};
+
+/**
+ * Standalone HTML savings report for the given (already filtered and sorted)
+ * rows. Printing it from the browser produces the PDF version.
+ */
+export const buildStatsReportHtml = (rows: StatsRow[], monthlyViews: number, filterDescription = ''): string => {
+  const stats = computeBatchStats(rows);
+  const createdAt = new Date();
+
+  const summary = [
+    ['Imagens', `${stats.convertedCount} de ${stats.count} convertida(s)`],
+    ['Economia', `${formatBytes(Math.max(0, stats.savedBytes))} (${stats.savingsPercent}%)`],
+    ['Qualidade média', stats.averageQuality !== null ? String(stats.averageQuality) : '—'],
+    ['Peso da página', `${formatBytes(stats.originalBytes)} → ${formatBytes(stats.outputBytes)}`],
+    [`Banda/mês (${monthlyViews.toLocaleString('pt-BR')} visualizações)`, `-${formatBytes(estimateMonthlyBandwidth(stats, monthlyViews))}`]
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8">
+<title>Relatório de otimização — OptiPix</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>Relatório de otimização de imagens</h1>
+<p class="muted">Gerado pelo OptiPix em ${escapeAttribute(createdAt.toLocaleString('pt-BR'))}${filterDescription ? ` · Filtros: ${escapeAttribute(filterDescription)}` : ''}</p>
+<div class="summary">
+${summary.map(([label, value]) => `<div><span class="muted">${escapeAttribute(label)}</span><strong>${escapeAttribute(value)}</strong></div>`).join('\n')}
+</div>
+<h2>Por formato</h2>
+${tableHtml(
+  ['Formato', 'Imagens', 'Antes', 'Depois', 'Economia'],
+  stats.byFormat.map(f => [f.format.toUpperCase(), f.count, formatBytes(f.originalBytes), formatBytes(f.outputBytes), formatSavings(percentSaved(f.originalBytes, f.outputBytes))]),
+  1
+)}
+<h2>Maiores arquivos</h2>
+${tableHtml(
+  ['Arquivo', 'Formato', 'Tamanho'],
+  stats.largest.map(row => [row.name, rowFormat(row).toUpperCase(), formatBytes(row.outputBytes)]),
+  2
+)}
+<h2>Imagens</h2>
+${tableHtml(
+  ['Arquivo', 'Status', 'Formato', 'Antes', 'Depois', 'Economia', 'Qualidade'],
+  rows.map(row => [
+    row.name,
+    STATUS_LABELS[row.status],
+    row.outputFormat ? `${row.inputFormat.toUpperCase()} → ${row.outputFormat.toUpperCase()}` : row.inputFormat.toUpperCase(),
+    formatBytes(row.originalBytes),
+    formatBytes(row.outputBytes),
+    formatSavings(row.savingsPercent),
+    row.quality ?? '—'
+  ]),
+  3
+)}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ConversionErrorKind, ResizeFit } from '../types';
+import { ConversionError, SAFE_MAX_SIDE, convertWithRecovery, toConversionFailure, toDecodeError } from './conversionErrors';
+import type { ConversionResult } from './pipeline';
+import { DEFAULT_SETTINGS } from './presets';
+
+const file = (name: string, type = '') => new File([], name, { type });
+
+const result: ConversionResult = {
+  blob: new Blob(), width: 100, height: 100, variants: [], quality: 0.8, targetMet: true, encoder: 'Teste'
+};
+
+describe('toConversionFailure', () => {
+  it('keeps the kind of typed errors', () => {
+    expect(toConversionFailure(new ConversionError(ConversionErrorKind.CANVAS_LIMIT, 'grande')))
+      .toEqual({ kind: ConversionErrorKind.CANVAS_LIMIT, detail: 'grande' });
+  });
+
+  it('recognizes memory and encoder failures from their messages', () => {
+    expect(toConversionFailure(new RangeError('Array buffer allocation failed')).kind).toBe(ConversionErrorKind.OUT_OF_MEMORY);
+    expect(toConversionFailure(new Error('Cannot enlarge memory arrays')).kind).toBe(ConversionErrorKind.OUT_OF_MEMORY);
+    expect(toConversionFailure(new Error('Failed to fetch dynamically imported module')).kind).toBe(ConversionErrorKind.ENCODER_UNSUPPORTED);
+    expect(toConversionFailure('algo deu errado')).toEqual({ kind: ConversionErrorKind.UNKNOWN, detail: 'algo deu errado' });
+  });
+});
+
+describe('toDecodeError', () => {
+  it('reports formats browsers cannot open as unsupported, by type or extension', () => {
+    const psd = toDecodeError(file('arte.psd', 'image/vnd.adobe.photoshop'), new Error('decode'));
+    expect(psd.kind).toBe(ConversionErrorKind.UNSUPPORTED_INPUT);
+    expect(psd.message).toBe('PSD não suportado: decode');
+    expect(toDecodeError(file('FOTO.CR2'), new Error('decode')).kind).toBe(ConversionErrorKind.UNSUPPORTED_INPUT);
+  });
+
+  it('reports other failures as corrupt files, unless memory ran out', () => {
+    expect(toDecodeError(file('foto.jpg', 'image/jpeg'), new Error('decode')).kind).toBe(ConversionErrorKind.DECODE);
+    expect(toDecodeError(file('arte.psd'), new RangeError('Invalid typed array length')).kind).toBe(ConversionErrorKind.OUT_OF_MEMORY);
+  });
+});
+
+describe('convertWithRecovery', () => {
+  it('returns the first result when the conversion succeeds', async () => {
+    const convert = vi.fn().mockResolvedValue(result);
+    expect(await convertWithRecovery(convert, file('a.jpg'), DEFAULT_SETTINGS)).toEqual({ result });
+    expect(convert).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries once capped to SAFE_MAX_SIDE after a canvas limit, leaving the settings alone', async () => {
+    const convert = vi.fn()
+      .mockRejectedValueOnce(new ConversionError(ConversionErrorKind.CANVAS_LIMIT, 'grande'))
+      .mockResolvedValueOnce(result);
+    const settings = { ...DEFAULT_SETTINGS, resize: { ...DEFAULT_SETTINGS.resize, maxWidth: 10000 } };
+
+    const recovered = await convertWithRecovery(convert, file('a.jpg'), settings);
+    expect(recovered.result).toBe(result);
+    expect(recovered.recoveredResize).toMatchObject({ maxWidth: SAFE_MAX_SIDE, maxHeight: SAFE_MAX_SIDE, fit: ResizeFit.CONTAIN });
+    expect(recovered.recoveryNote).toContain('limite de canvas');
+    expect(recovered.recoveryNote).toContain('resolução original não pôde ser mantida');
+    expect(convert.mock.calls[1][1].resize).toEqual(recovered.recoveredResize);
+    expect(settings.resize.maxWidth).toBe(10000);
+  });
+
+  it('keeps cropping a COVER resize with both sides set', async () => {
+    const convert = vi.fn()
+      .mockRejectedValueOnce(new RangeError('out of memory'))
+      .mockResolvedValueOnce(result);
+    const settings = { ...DEFAULT_SETTINGS, resize: { ...DEFAULT_SETTINGS.resize, maxWidth: 8000, maxHeight: 6000, fit: ResizeFit.COVER } };
+    const recovered = await convertWithRecovery(convert, file('a.jpg'), settings);
+    expect(recovered.recoveredResize).toMatchObject({ maxWidth: SAFE_MAX_SIDE, maxHeight: SAFE_MAX_SIDE, fit: ResizeFit.COVER });
+    expect(recovered.recoveryNote).toContain('memória insuficiente');
+  });
+
+  it('rethrows other failures and oversize failures that are already capped', async () => {
+    const decode = new ConversionError(ConversionErrorKind.DECODE, 'corrompido');
+    await expect(convertWithRecovery(vi.fn().mockRejectedValue(decode), file('a.jpg'), DEFAULT_SETTINGS)).rejects.toBe(decode);
+
+    const limit = new ConversionError(ConversionErrorKind.CANVAS_LIMIT, 'grande');
+    const capped = { ...DEFAULT_SETTINGS, resize: { ...DEFAULT_SETTINGS.resize, maxWidth: 2000, maxHeight: 2000 } };
+    const convert = vi.fn().mockRejectedValue(limit);
+    await expect(convertWithRecovery(convert, file('a.jpg'), capped)).rejects.toBe(limit);
+    expect(convert).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry an aborted conversion', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const convert = vi.fn().mockRejectedValue(new ConversionError(ConversionErrorKind.OUT_OF_MEMORY, 'memória'));
+    await expect(convertWithRecovery(convert, file('a.jpg'), DEFAULT_SETTINGS, undefined, controller.signal)).rejects.toThrow('memória');
+    expect(convert).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { ConversionErrorKind, ConversionFailure, ConversionSettings, ImageEdits, ResizeFit, ResizeSettings } from '../types';
+import type { ConversionResult } from './pipeline';
+
+/**
+ * Typed conversion failures. Errors are classified where they happen (worker
+ * or main thread) and cross the worker boundary as plain ConversionFailure objects.
+ */
+
+export class ConversionError extends Error {
+  constructor(readonly kind: ConversionErrorKind, message: string) {
+    super(message);
+    this.name = 'ConversionError';
+  }
+}
+
+export const CONVERSION_ERROR_MESSAGES: Record<ConversionErrorKind, string> = {
+  [ConversionErrorKind.DECODE]: 'Não foi possível ler a imagem. O arquivo pode estar corrompido ou incompleto.',
+  [ConversionErrorKind.UNSUPPORTED_INPUT]: 'O OptiPix ainda não abre este formato. Converta para JPEG ou PNG antes de enviar.',
+  [ConversionErrorKind.CANVAS_LIMIT]: 'A imagem passa do tamanho máximo de canvas do navegador. Reduza as dimensões de saída.',
+  [ConversionErrorKind.ENCODER_UNSUPPORTED]: 'Nenhum encoder disponível para o formato escolhido. Tente outro formato ou encoder.',
+  [ConversionErrorKind.OUT_OF_MEMORY]: 'Memória insuficiente. Reduza as dimensões ou o número de conversões simultâneas.',
+  [ConversionErrorKind.UNKNOWN]: 'Erro inesperado na conversão.'
+};
+
+const UNSUPPORTED_INPUTS: Record<string, string> = {
+  'image/vnd.adobe.photoshop': 'PSD',
+  'image/x-adobe-dng': 'DNG',
+  psd: 'PSD',
+  dng: 'DNG',
+  cr2: 'RAW',
+  cr3: 'RAW',
+  nef: 'RAW',
+  arw: 'RAW',
+  orf: 'RAW',
+  raf: 'RAW'
+};
+
+const MEMORY_PATTERN = /out of memory|\boom\b|allocation failed|cannot enlarge memory|could not allocate|invalid (typed )?array length/i;
+const ENCODER_PATTERN = /dynamically imported module|webassembly|\.wasm\b/i;
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Classifies any error thrown by a conversion.
+ */
+export const toConversionFailure = (error: unknown): ConversionFailure => {
+  if (error instanceof ConversionError) return { kind: error.kind, detail: error.message };
+  const detail = errorMessage(error);
+  if (error instanceof RangeError || MEMORY_PATTERN.test(detail)) return { kind: ConversionErrorKind.OUT_OF_MEMORY, detail };
+  if (ENCODER_PATTERN.test(detail)) return { kind: ConversionErrorKind.ENCODER_UNSUPPORTED, detail };
+  return { kind: ConversionErrorKind.UNKNOWN, detail };
+};
+
+/**
+ * Error for a source that failed to decode: formats browsers commonly cannot
+ * open are reported as unsupported rather than corrupt.
+ */
+export const toDecodeError = (file: File, cause: unknown): ConversionError => {
+  const failure = toConversionFailure(cause);
+  if (failure.kind === ConversionErrorKind.OUT_OF_MEMORY) return new ConversionError(failure.kind, failure.detail);
+  const label = UNSUPPORTED_INPUTS[file.type] ?? UNSUPPORTED_INPUTS[file.name.split('.').pop()?.toLowerCase() ?? ''];
+  return label
+    ? new ConversionError(ConversionErrorKind.UNSUPPORTED_INPUT, `${label} não suportado: ${failure.detail}`)
+    : new ConversionError(ConversionErrorKind.DECODE, failure.detail);
+};
+
+// Longest output side used when retrying images that hit the canvas or memory limits
+export const SAFE_MAX_SIDE = 4096;
+
+const isOversizeFailure = (failure: ConversionFailure) =>
+  failure.kind === ConversionErrorKind.CANVAS_LIMIT || failure.kind === ConversionErrorKind.OUT_OF_MEMORY;
+
+/**
+ * Settings capped to SAFE_MAX_SIDE, or null when they already are (retrying
+ * would fail the same way).
+ */
+const capOutputSize = (settings: ConversionSettings): ConversionSettings | null => {
+  const { maxWidth, maxHeight, fit } = settings.resize;
+  if (maxWidth && maxWidth <= SAFE_MAX_SIDE && maxHeight && maxHeight <= SAFE_MAX_SIDE) return null;
+  const cropped = fit === ResizeFit.COVER && !!maxWidth && !!maxHeight;
+  return {
+    ...settings,
+    resize: {
+      ...settings.resize,
+      maxWidth: Math.min(maxWidth ?? SAFE_MAX_SIDE, SAFE_MAX_SIDE),
+      maxHeight: Math.min(maxHeight ?? SAFE_MAX_SIDE, SAFE_MAX_SIDE),
+      // Capping both sides must not start cropping a CONTAIN/single-side COVER resize
+      fit: cropped ? ResizeFit.COVER : ResizeFit.CONTAIN
+    }
+  };
+};
+
+export interface RecoveredConversion {
+  result: ConversionResult;
+  recoveredResize?: ResizeSettings; // Resize the retry used instead of the requested one
+  recoveryNote?: string;
+}
+
+type ConvertFn = (file: File, settings: ConversionSettings, edits?: ImageEdits, signal?: AbortSignal) => Promise<ConversionResult>;
+
+/**
+ * Runs a conversion and, when it fails for being too large, retries once
+ * downscaled to SAFE_MAX_SIDE. Other failures are rethrown as they are.
+ * The caller's settings are left alone: the downscale only describes this result.
+ * There is no tiled processing, so the retry always gives up resolution; the note says so.
+ */
+export const convertWithRecovery = async (
+  convert: ConvertFn,
+  file: File,
+  settings: ConversionSettings,
+  edits?: ImageEdits,
+  signal?: AbortSignal
+): Promise<RecoveredConversion> => {
+  try {
+    return { result: await convert(file, settings, edits, signal) };
+  } catch (error) {
+    const failure = toConversionFailure(error);
+    const capped = isOversizeFailure(failure) ? capOutputSize(settings) : null;
+    if (!capped || signal?.aborted) throw error;
+    return {
+      result: await convert(file, capped, edits, signal),
+      recoveredResize: capped.resize,
+      recoveryNote: `Reduzida automaticamente para até ${SAFE_MAX_SIDE}px (${failure.kind === ConversionErrorKind.CANVAS_LIMIT ? 'limite de canvas' : 'memória insuficiente'}). ` +
+        'A resolução original não pôde ser mantida: imagens grandes não são processadas em blocos.'
+    };
+  }
+};
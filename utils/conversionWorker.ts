@@ -0,0 +1,160 @@
+import { ConversionErrorKind, ConversionFailure, ConversionSettings, ImageEdits, ImageFormat } from '../types';
+import {
+  BackendAnimation,
+  ConversionBackend,
+  ConversionResult,
+  RenderGeometry,
+  fullGeometry,
+  runConversion
+} from './pipeline';
+import { PixelBuffer } from './metrics';
+import { ConversionError, toConversionFailure, toDecodeError } from './conversionErrors';
+import { drawEdited, getEditedSize, hasEdits } from './imageEdits';
+import { PreparedWatermark, drawWatermark, prepareWatermark } from './watermark';
+import { AnimationFrames, decodeJxl, decodeWithCodecs, detectSourceKind } from './sourceDecoders';
+
+export interface WorkerRequest {
+  jobId: number;
+  file: File;
+  settings: ConversionSettings;
+  edits?: ImageEdits;
+}
+
+export interface WorkerResponse {
+  jobId: number;
+  result?: ConversionResult;
+  error?: ConversionFailure; // Set when the conversion failed
+}
+
+const drawOffscreen = (source: CanvasImageSource, geometry: RenderGeometry, background?: string, watermark?: PreparedWatermark) => {
+  const canvas = new OffscreenCanvas(geometry.width, geometry.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new ConversionError(ConversionErrorKind.CANVAS_LIMIT, `Could not get a ${geometry.width}x${geometry.height} canvas context`);
+  }
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, geometry.width, geometry.height);
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    source,
+    geometry.sx, geometry.sy, geometry.sw, geometry.sh,
+    0, 0, geometry.width, geometry.height
+  );
+  if (watermark) {
+    drawWatermark(ctx, geometry.width, geometry.height, watermark);
+  }
+
+  return { canvas, ctx };
+};
+
+const readPixelsOffscreen = (
+  source: CanvasImageSource,
+  geometry: RenderGeometry,
+  background?: string,
+  watermark?: PreparedWatermark
+): PixelBuffer =>
+  drawOffscreen(source, geometry, background, watermark).ctx.getImageData(0, 0, geometry.width, geometry.height);
+
+const decodeLogoOffscreen = async (dataUrl: string) => {
+  const image = await createImageBitmap(await (await fetch(dataUrl)).blob());
+  return { image, width: image.width, height: image.height };
+};
+
+const nativeSupport = new Map<ImageFormat, Promise<boolean>>();
+
+const canEncodeOffscreen = (format: ImageFormat): Promise<boolean> => {
+  if (!nativeSupport.has(format)) {
+    nativeSupport.set(
+      format,
+      new OffscreenCanvas(1, 1).convertToBlob({ type: format }).then(blob => blob.type === format, () => false)
+    );
+  }
+  return nativeSupport.get(format)!;
+};
+
+const renderEditedOffscreen = (bitmap: ImageBitmap, edits: ImageEdits) => {
+  const { width, height } = getEditedSize(bitmap.width, bitmap.height, edits);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new ConversionError(ConversionErrorKind.CANVAS_LIMIT, `Could not get a ${width}x${height} canvas context`);
+  }
+  drawEdited(ctx, bitmap, bitmap.width, bitmap.height, edits);
+  return canvas;
+};
+
+const pixelsToBitmap = (pixels: PixelBuffer) =>
+  createImageBitmap(new ImageData(pixels.data, pixels.width, pixels.height));
+
+/**
+ * Decodes the source. Formats createImageBitmap cannot open, and the frames
+ * of animations, come from the bundled codecs. SVGs never get here: they need
+ * the DOM and are converted on the main thread.
+ */
+const decodeSource = async (file: File): Promise<{ bitmap: ImageBitmap; animation: AnimationFrames | null }> => {
+  const decoded = await decodeWithCodecs(file, await detectSourceKind(file));
+  if (decoded) return { bitmap: await pixelsToBitmap(decoded.pixels), animation: decoded.animation };
+  // Apply EXIF orientation explicitly; older engines defaulted to 'none'
+  return { bitmap: await createImageBitmap(file, { imageOrientation: 'from-image' }), animation: null };
+};
+
+const createBackend = (
+  bitmap: CanvasImageSource,
+  watermark?: PreparedWatermark,
+  animation?: BackendAnimation
+): ConversionBackend => ({
+  render: (geometry, format, quality, background) =>
+    drawOffscreen(bitmap, geometry, background, watermark).canvas.convertToBlob({ type: format, quality }),
+  supportsNative: canEncodeOffscreen,
+  rasterize: async (geometry, background) => readPixelsOffscreen(bitmap, geometry, background, watermark),
+  decode: async (blob) => {
+    if (blob.type === ImageFormat.JXL) return decodeJxl(blob);
+    const decoded = await createImageBitmap(blob);
+    try {
+      return readPixelsOffscreen(decoded, fullGeometry(decoded.width, decoded.height));
+    } finally {
+      decoded.close();
+    }
+  },
+  animation
+});
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const { jobId, file, settings, edits } = e.data;
+  let response: WorkerResponse;
+
+  try {
+    const { bitmap, animation } = await decodeSource(file).catch(error => { throw toDecodeError(file, error); });
+    try {
+      const edited = hasEdits(edits);
+      const source = edited ? renderEditedOffscreen(bitmap, edits) : bitmap;
+      const watermark = await prepareWatermark(settings.watermark, decodeLogoOffscreen);
+
+      const frameRasterizer: BackendAnimation | undefined = animation ? {
+        durations: animation.durations,
+        rasterizeFrame: async (index, geometry, background) => {
+          const frame = await pixelsToBitmap(animation.frames[index]);
+          try {
+            return readPixelsOffscreen(edited ? renderEditedOffscreen(frame, edits) : frame, geometry, background, watermark);
+          } finally {
+            frame.close();
+          }
+        }
+      } : undefined;
+
+      const backend = createBackend(source, watermark, frameRasterizer);
+      const result = await runConversion(file, source.width, source.height, settings, backend, edited);
+      response = { jobId, result };
+    } finally {
+      bitmap.close();
+    }
+  } catch (error) {
+    response = { jobId, error: toConversionFailure(error) };
+  }
+
+  self.postMessage(response);
+};
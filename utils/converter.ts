@@ -1,13 +1,15 @@
-import { ImageFormat } from '../types';
-
-export const formatBytes = (bytes: number, decimals = 2) => {
-  if (bytes === 0) return '0 Bytes';
-  const k = 1024;
-  const dm = decimals < 0 ? 0 : decimals;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-};
+import { ConversionErrorKind, ConversionSettings, ImageEdits, ImageFormat } from '../types';
+import { PixelBuffer } from './metrics';
+import { ConversionError, toDecodeError } from './conversionErrors';
+import { BackendAnimation, ConversionResult, RenderGeometry, fullGeometry, hasTransparency, runConversion } from './pipeline';
+import { hasEdits, renderEditedCanvas } from './imageEdits';
+import { PreparedWatermark, drawWatermark, prepareWatermark } from './watermark';
+import { AnimationFrames, decodeJxl, decodeWithCodecs, detectSourceKind } from './sourceDecoders';
+
+/**
+ * DOM side of the conversion: <img> decoding and <canvas> drawing/encoding
+ * on the main thread. The pipeline itself lives in ./pipeline.
+ */
 
 export const fileToDataURL = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -18,51 +20,260 @@ export const fileToDataURL = (file: File): Promise<string> => {
   });
 };
 
-export const convertImageClientSide = async (
-  file: File, 
-  format: ImageFormat, 
-  quality: number
-): Promise<Blob> => {
+/**
+ * Loads a Blob/File or URL into an <img> element.
+ */
+export const loadImage = (source: Blob | string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
-    const url = URL.createObjectURL(file);
-    
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const cleanup = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+    };
+
     img.onload = () => {
-      URL.revokeObjectURL(url);
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error('Could not get canvas context'));
-        return;
-      }
-      
-      ctx.drawImage(img, 0, 0);
-      
-      canvas.toBlob(
-        (blob) => {
-          if (blob) {
-            resolve(blob);
-          } else {
-            reject(new Error('Conversion failed'));
-          }
-        },
-        format,
-        quality
-      );
+      cleanup();
+      resolve(img);
     };
-    
+
     img.onerror = () => {
-      URL.revokeObjectURL(url);
+      cleanup();
       reject(new Error('Failed to load image'));
     };
-    
+
     img.src = url;
   });
 };
 
+/**
+ * Canvas holding decoded pixels.
+ */
+export const pixelsToCanvas = (pixels: PixelBuffer): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels.width;
+  canvas.height = pixels.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new ConversionError(ConversionErrorKind.CANVAS_LIMIT, `Could not get a ${pixels.width}x${pixels.height} canvas context`);
+  }
+  ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  return canvas;
+};
+
+/**
+ * Data URL to display the source: HEIC and TIFF, which <img> cannot show in
+ * most browsers, are decoded and re-encoded as PNG.
+ */
+export const createPreviewURL = async (file: File): Promise<string> => {
+  const kind = await detectSourceKind(file);
+  const decoded = kind === 'heic' || kind === 'tiff' ? await decodeWithCodecs(file, kind) : null;
+  return decoded ? pixelsToCanvas(decoded.pixels).toDataURL(ImageFormat.PNG) : fileToDataURL(file);
+};
+
+/**
+ * Draws `geometry.sx/sy/sw/sh` of the source into a new canvas of `geometry.width/height`,
+ * over `background` and under `watermark` when given.
+ */
+export const drawToCanvas = (
+  source: CanvasImageSource,
+  geometry: RenderGeometry,
+  background?: string,
+  watermark?: PreparedWatermark
+): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = geometry.width;
+  canvas.height = geometry.height;
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new ConversionError(ConversionErrorKind.CANVAS_LIMIT, `Could not get a ${geometry.width}x${geometry.height} canvas context`);
+  }
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, geometry.width, geometry.height);
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(
+    source,
+    geometry.sx, geometry.sy, geometry.sw, geometry.sh,
+    0, 0, geometry.width, geometry.height
+  );
+  if (watermark) {
+    drawWatermark(ctx, geometry.width, geometry.height, watermark);
+  }
+
+  return { canvas, ctx };
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, format: ImageFormat, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          // toBlob yields null when the canvas is too large to encode
+          reject(new ConversionError(ConversionErrorKind.CANVAS_LIMIT, `Could not encode a ${canvas.width}x${canvas.height} canvas`));
+        }
+      },
+      format,
+      quality
+    );
+  });
+};
+
+/**
+ * Object URL to display an output with. JPEG XL is decoded and re-encoded as
+ * PNG, so previews, comparison and analysis work where browsers cannot open it.
+ */
+export const createOutputURL = async (blob: Blob): Promise<string> => {
+  if (blob.type !== ImageFormat.JXL) return URL.createObjectURL(blob);
+  const png = await canvasToBlob(pixelsToCanvas(await decodeJxl(blob)), ImageFormat.PNG, 1);
+  return URL.createObjectURL(png);
+};
+
+/**
+ * Reads the RGBA pixels of the source drawn at `geometry` (main thread only).
+ */
+export const readPixels = (
+  source: CanvasImageSource,
+  geometry: RenderGeometry,
+  background?: string,
+  watermark?: PreparedWatermark
+): PixelBuffer =>
+  drawToCanvas(source, geometry, background, watermark).ctx.getImageData(0, 0, geometry.width, geometry.height);
+
+const nativeSupport = new Map<ImageFormat, Promise<boolean>>();
+
+/**
+ * Probes whether canvas.toBlob really produces `format` in this browser.
+ */
+export const canEncodeNatively = (format: ImageFormat): Promise<boolean> => {
+  if (!nativeSupport.has(format)) {
+    const canvas = document.createElement('canvas');
+    canvas.width = 1;
+    canvas.height = 1;
+    nativeSupport.set(
+      format,
+      canvasToBlob(canvas, format, 0.5).then(blob => blob.type === format, () => false)
+    );
+  }
+  return nativeSupport.get(format)!;
+};
+
+/**
+ * Watermark logo decoder for the main thread.
+ */
+export const decodeLogo = async (dataUrl: string) => {
+  const image = await loadImage(dataUrl);
+  return { image, width: image.width, height: image.height };
+};
+
+// Size browsers give to SVGs without width/height
+const DEFAULT_SVG_WIDTH = 300;
+const DEFAULT_SVG_HEIGHT = 150;
+
+/**
+ * Draws an SVG at its intrinsic size times `scale`. Being vector, it stays
+ * sharp however much it is enlarged.
+ */
+const rasterizeSvg = (img: HTMLImageElement, scale: number): HTMLCanvasElement => {
+  const sw = img.naturalWidth || DEFAULT_SVG_WIDTH;
+  const sh = img.naturalHeight || DEFAULT_SVG_HEIGHT;
+  const geometry = {
+    width: Math.max(1, Math.round(sw * scale)),
+    height: Math.max(1, Math.round(sh * scale)),
+    sx: 0, sy: 0, sw, sh
+  };
+  return drawToCanvas(img, geometry).canvas;
+};
+
+/**
+ * Decodes the source on the main thread, the only place SVGs can be drawn.
+ */
+const decodeSource = async (
+  file: File,
+  settings: ConversionSettings
+): Promise<{ image: HTMLImageElement | HTMLCanvasElement; animation: AnimationFrames | null }> => {
+  const kind = await detectSourceKind(file);
+  const decoded = await decodeWithCodecs(file, kind);
+  if (decoded) return { image: pixelsToCanvas(decoded.pixels), animation: decoded.animation };
+
+  const img = await loadImage(file);
+  return { image: kind === 'svg' ? rasterizeSvg(img, settings.resize.svgScale) : img, animation: null };
+};
+
+/**
+ * Main-thread conversion using a DOM <canvas>. Used for SVG sources and as the
+ * fallback when Web Workers or OffscreenCanvas are not available.
+ */
+export const convertImageClientSide = async (
+  file: File, 
+  settings: ConversionSettings,
+  edits?: ImageEdits
+): Promise<ConversionResult> => {
+  const { image: loaded, animation } = await decodeSource(file, settings).catch(error => { throw toDecodeError(file, error); });
+  const edited = hasEdits(edits);
+  const editFrame = (frame: HTMLImageElement | HTMLCanvasElement) =>
+    edited ? renderEditedCanvas(frame, frame.width, frame.height, edits) : frame;
+  const img = editFrame(loaded);
+  const watermark = await prepareWatermark(settings.watermark, decodeLogo);
+
+  const frameRasterizer: BackendAnimation | undefined = animation ? {
+    durations: animation.durations,
+    rasterizeFrame: async (index, geometry, background) =>
+      readPixels(editFrame(pixelsToCanvas(animation.frames[index])), geometry, background, watermark)
+  } : undefined;
+
+  return runConversion(file, img.width, img.height, settings, {
+    render: (geometry, format, quality, background) =>
+      canvasToBlob(drawToCanvas(img, geometry, background, watermark).canvas, format, quality),
+    supportsNative: canEncodeNatively,
+    rasterize: async (geometry, background) => readPixels(img, geometry, background, watermark),
+    decode: async (blob) => {
+      if (blob.type === ImageFormat.JXL) return decodeJxl(blob);
+      const decoded = await loadImage(blob);
+      return readPixels(decoded, fullGeometry(decoded.width, decoded.height));
+    },
+    animation: frameRasterizer
+  }, edited);
+};
+
+/**
+ * Downscaled data URL of an image, for uploads where full resolution is wasted
+ * (e.g. captioning requests, watermark logos). JPEG is flattened onto white.
+ */
+export const createDownscaledDataURL = async (
+  source: Blob | string,
+  maxSide: number,
+  quality = 0.85,
+  format = ImageFormat.JPEG
+): Promise<string> => {
+  const img = await loadImage(source);
+  const scale = Math.min(1, maxSide / Math.max(img.width, img.height));
+  const geometry = {
+    ...fullGeometry(img.width, img.height),
+    width: Math.max(1, Math.round(img.width * scale)),
+    height: Math.max(1, Math.round(img.height * scale))
+  };
+  const background = format === ImageFormat.JPEG ? '#ffffff' : undefined;
+  return drawToCanvas(img, geometry, background).canvas.toDataURL(format, quality);
+};
+
+/**
+ * JPEG copy of an output at the same size (PNG when it has transparency), for
+ * `<img>` in browsers that cannot show the output format.
+ * @param outputUrl Displayable URL of the output (see createOutputURL)
+ */
+export const createFallbackBlob = async (outputUrl: string): Promise<Blob> => {
+  const img = await loadImage(outputUrl);
+  const { canvas, ctx } = drawToCanvas(img, fullGeometry(img.width, img.height));
+  const transparent = hasTransparency(ctx.getImageData(0, 0, canvas.width, canvas.height));
+  return canvasToBlob(canvas, transparent ? ImageFormat.PNG : ImageFormat.JPEG, 0.85);
+};
+
 export const downloadBlob = (blob: Blob, filename: string) => {
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
@@ -0,0 +1,141 @@
+import { ChromaSubsampling, ConversionSettings, ImageFormat } from '../types';
+import type { PixelBuffer } from './metrics';
+import { quantizePixels } from './quantize';
+
+/**
+ * WASM encoders (Squoosh codecs via jSquash) used when the browser's canvas
+ * cannot encode a format, or when encoder-specific options are requested.
+ * Codecs are imported lazily so their WASM is only fetched when used. The
+ * packages have no exports map, so the paths keep their .js for Node (CLI).
+ */
+export interface WasmEncoder {
+  label: string;
+  encode: (pixels: PixelBuffer, quality: number, settings: ConversionSettings) => Promise<Blob>;
+}
+
+export const NATIVE_ENCODER_LABEL = 'Canvas nativo';
+
+// jSquash takes an ImageData; wrapping the buffer shares its pixels instead of copying them
+const toImageData = (pixels: PixelBuffer) =>
+  pixels instanceof ImageData ? pixels : new ImageData(pixels.data, pixels.width, pixels.height);
+
+// Maps the 0-9 effort scale onto an encoder-specific [min, max] range
+const scaleEffort = (effort: number, min: number, max: number) =>
+  Math.round(min + (Math.min(9, Math.max(0, effort)) / 9) * (max - min));
+
+const toQuality100 = (quality: number) => Math.round(quality * 100);
+
+const WASM_ENCODERS: Record<ImageFormat, WasmEncoder> = {
+  [ImageFormat.AVIF]: {
+    label: 'libavif (WASM)',
+    encode: async (pixels, quality, settings) => {
+      const { default: encode } = await import('@jsquash/avif/encode.js');
+      const buffer = await encode(toImageData(pixels), {
+        quality: toQuality100(quality),
+        speed: 10 - scaleEffort(settings.effort, 0, 10),
+        subsample: settings.chromaSubsampling === ChromaSubsampling.YUV444 ? 3 : 1,
+        lossless: settings.lossless
+      });
+      return new Blob([buffer], { type: ImageFormat.AVIF });
+    }
+  },
+  [ImageFormat.WEBP]: {
+    label: 'libwebp (WASM)',
+    encode: async (pixels, quality, settings) => {
+      const { default: encode } = await import('@jsquash/webp/encode.js');
+      const buffer = await encode(toImageData(pixels), {
+        quality: toQuality100(quality),
+        method: scaleEffort(settings.effort, 0, 6),
+        lossless: settings.lossless ? 1 : 0,
+        // WebP lossy is always 4:2:0: the 4:4:4 setting selects sharp YUV (shown as such)
+        use_sharp_yuv: settings.chromaSubsampling === ChromaSubsampling.YUV444 ? 1 : 0
+      });
+      return new Blob([buffer], { type: ImageFormat.WEBP });
+    }
+  },
+  [ImageFormat.JPEG]: {
+    label: 'MozJPEG (WASM)',
+    encode: async (pixels, quality, settings) => {
+      const { default: encode } = await import('@jsquash/jpeg/encode.js');
+      const buffer = await encode(toImageData(pixels), {
+        quality: toQuality100(quality),
+        progressive: settings.progressive,
+        optimize_coding: true,
+        auto_subsample: false,
+        chroma_subsample: settings.chromaSubsampling === ChromaSubsampling.YUV444 ? 1 : 2,
+        trellis_loops: scaleEffort(settings.effort, 1, 3)
+      });
+      return new Blob([buffer], { type: ImageFormat.JPEG });
+    }
+  },
+  [ImageFormat.PNG]: {
+    label: 'OxiPNG (WASM)',
+    // PNG is lossless: quality has no effect, effort selects the optimisation level.
+    // With a palette the pixels are quantized first and OxiPNG picks the indexed color type.
+    encode: async (pixels, _quality, settings) => {
+      const { default: optimise } = await import('@jsquash/oxipng/optimise.js');
+      const source = settings.paletteColors
+        ? quantizePixels(pixels, settings.paletteColors, settings.dithering)
+        : pixels;
+      const buffer = await optimise(toImageData(source), {
+        level: scaleEffort(settings.effort, 1, 6),
+        interlace: false
+      });
+      return new Blob([buffer], { type: ImageFormat.PNG });
+    }
+  },
+  [ImageFormat.JXL]: {
+    label: 'libjxl (WASM)',
+    encode: async (pixels, quality, settings) => {
+      const { default: encode } = await import('@jsquash/jxl/encode.js');
+      const buffer = await encode(toImageData(pixels), {
+        quality: toQuality100(quality),
+        effort: scaleEffort(settings.effort, 1, 9),
+        lossless: settings.lossless
+      });
+      return new Blob([buffer], { type: ImageFormat.JXL });
+    }
+  }
+};
+
+export const getWasmEncoder = (format: ImageFormat): WasmEncoder | undefined => WASM_ENCODERS[format];
+
+export const ANIMATED_WEBP_ENCODER_LABEL = 'libwebp animado (WASM)';
+
+/**
+ * Encodes same-sized frames into an animated WebP. Of the encoder options,
+ * the animation encoder only takes quality and lossless.
+ */
+export const encodeAnimatedWebp = async (
+  frames: PixelBuffer[],
+  durations: number[],
+  quality: number,
+  settings: ConversionSettings
+): Promise<Blob> => {
+  const { encodeAnimation } = await import('wasm-webp');
+  const config = { quality: toQuality100(quality), lossless: settings.lossless ? 1 : 0 };
+  const { width, height } = frames[0];
+  const buffer = await encodeAnimation(width, height, true, frames.map((pixels, i) => ({
+    data: new Uint8Array(pixels.data.buffer, pixels.data.byteOffset, pixels.data.byteLength),
+    duration: durations[i],
+    config
+  })));
+  if (!buffer) throw new Error('Falha ao codificar o WebP animado');
+  return new Blob([buffer.slice()], { type: ImageFormat.WEBP });
+};
+
+/**
+ * Whether the settings ask for something canvas.toBlob cannot do, so AUTO
+ * mode has to pick the WASM encoder even if the format is natively supported.
+ */
+export const requiresWasmEncoder = (settings: ConversionSettings) => {
+  switch (settings.format) {
+    case ImageFormat.PNG:
+      return settings.paletteColors !== null;
+    case ImageFormat.JPEG:
+      // canvas JPEG is always baseline
+      return settings.progressive || settings.chromaSubsampling === ChromaSubsampling.YUV444;
+    default:
+      return settings.lossless || settings.chromaSubsampling === ChromaSubsampling.YUV444;
+  }
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessedImage, ProcessingStatus } from '../types';
+import { buildManifestCsv, buildPictureHtml, planExport, toManifestEntry } from './exportManifest';
+import { DEFAULT_NAMING_OPTIONS } from './naming';
+import { DEFAULT_SETTINGS } from './presets';
+
+const blob = (type: string, size = 100) => new Blob([new Uint8Array(size)], { type });
+
+// A 1000-byte source converted to an 800x600 output
+const convertedImage = (id: string, output: Blob, overrides: Partial<ProcessedImage> = {}): ProcessedImage => ({
+  id,
+  originalFile: new File([], `${id}.heic`),
+  relativeDir: 'produtos',
+  previewUrl: '',
+  convertedBlob: output,
+  convertedUrl: '',
+  status: ProcessingStatus.COMPLETED,
+  originalSize: 1000,
+  convertedSize: output.size,
+  convertedWidth: 800,
+  convertedHeight: 600,
+  variants: [],
+  chosenQuality: 0.8,
+  settings: DEFAULT_SETTINGS,
+  ...overrides
+});
+
+describe('planExport', () => {
+  it('names outputs in their folder, skipping images not converted', () => {
+    const images = [
+      convertedImage('tenis', blob('image/webp')),
+      convertedImage('bota', blob('image/webp'), { status: ProcessingStatus.IDLE })
+    ];
+    expect(planExport(images, DEFAULT_NAMING_OPTIONS).map(e => e.main.path)).toEqual(['produtos/tenis_opti.webp']);
+  });
+
+  it('suffixes clashing names', () => {
+    const images = [convertedImage('a', blob('image/webp')), convertedImage('a', blob('image/webp'))];
+    expect(planExport(images, DEFAULT_NAMING_OPTIONS).map(e => e.main.path))
+      .toEqual(['produtos/a_opti.webp', 'produtos/a_opti_(1).webp']);
+  });
+
+  it('names fallbacks after the main output, at its size', () => {
+    const [exported] = planExport(
+      [convertedImage('tenis', blob('image/avif'))], DEFAULT_NAMING_OPTIONS, undefined, new Map([['tenis', blob('image/jpeg')]])
+    );
+    expect(exported.fallback).toMatchObject({ path: 'produtos/tenis_opti.jpg', width: 800, height: 600 });
+  });
+});
+
+describe('toManifestEntry and buildManifestCsv', () => {
+  const [exported] = planExport(
+    [convertedImage('tenis', blob('image/webp', 250), { altText: 'Tênis "azul", lateral' })],
+    DEFAULT_NAMING_OPTIONS,
+    undefined,
+    new Map([['tenis', blob('image/png', 400)]])
+  );
+  const entry = toManifestEntry(exported);
+
+  it('describes the output against the original', () => {
+    expect(entry).toMatchObject({
+      originalPath: 'produtos/tenis.heic', outputName: 'produtos/tenis_opti.webp', outputBytes: 250, savingsPercent: 75,
+      format: 'webp', quality: 80, fallback: { path: 'produtos/tenis_opti.png', bytes: 400 }
+    });
+  });
+
+  it('quotes CSV cells with commas or quotes', () => {
+    const [header, line] = buildManifestCsv([entry]).split('\r\n');
+    expect(header.split(',')).toContain('fallback_path');
+    expect(line).toContain('"Tênis ""azul"", lateral"');
+  });
+});
+
+describe('buildPictureHtml', () => {
+  it('uses a plain <img> with srcset for JPEG and PNG outputs', () => {
+    const image = convertedImage('tenis', blob('image/jpeg'), {
+      altText: 'Tênis <azul>',
+      variants: [{ width: 400, height: 300, blob: blob('image/jpeg'), url: '', size: 100 }]
+    });
+    const html = buildPictureHtml(planExport([image], DEFAULT_NAMING_OPTIONS)[0]);
+    expect(html).toBe(
+      '<img src="produtos/tenis_opti.jpg" srcset="produtos/tenis_opti_400w.jpg 400w, produtos/tenis_opti.jpg 800w"' +
+      ' sizes="(max-width: 800px) 100vw, 800px" width="800" height="600" alt="Tênis &lt;azul&gt;" loading="lazy" decoding="async">'
+    );
+  });
+
+  it('falls back to the exported JPEG copy, never to the original file', () => {
+    const [exported] = planExport(
+      [convertedImage('tenis', blob('image/avif'))], DEFAULT_NAMING_OPTIONS, undefined, new Map([['tenis', blob('image/jpeg')]])
+    );
+    const html = buildPictureHtml(exported);
+    expect(html).toContain('<source type="image/avif" srcset="produtos/tenis_opti.avif">');
+    expect(html).toContain('<img src="produtos/tenis_opti.jpg" width="800" height="600"');
+    expect(html).not.toContain('tenis.heic');
+  });
+
+  it('points <img> at the output when there is no fallback', () => {
+    const html = buildPictureHtml(planExport([convertedImage('tenis', blob('image/avif'))], DEFAULT_NAMING_OPTIONS)[0]);
+    expect(html).toMatch(/^<img src="produtos\/tenis_opti\.avif"/);
+  });
+
+  it('encodes spaces in paths', () => {
+    const html = buildPictureHtml(planExport([convertedImage('meu tenis', blob('image/png'))], DEFAULT_NAMING_OPTIONS)[0]);
+    expect(html).toContain('src="produtos/meu%20tenis_opti.png"');
+  });
+});
@@ -0,0 +1,181 @@
+import { ImageFormat, NamingOptions, ProcessedImage, ProcessingStatus } from '../types';
+import { getBlobExtension } from './pipeline';
+import { buildFileName } from './naming';
+
+/**
+ * Decides the path of every exported file once, so the ZIP, the manifest and
+ * the HTML snippets always agree on names.
+ */
+
+export interface ExportedFile {
+  path: string; // Relative to the export root, e.g. "produtos/tenis_opti.webp"
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface ExportedImage {
+  image: ProcessedImage;
+  main: ExportedFile;
+  variants: ExportedFile[];
+  fallback?: ExportedFile; // JPEG/PNG copy of `main` for browsers that cannot show its format
+}
+
+export interface ManifestEntry {
+  originalName: string;
+  originalPath: string;
+  outputName: string;
+  width: number;
+  height: number;
+  originalBytes: number;
+  outputBytes: number;
+  savingsPercent: number; // Negative when the output is larger
+  format: string; // Output extension, e.g. "webp"
+  quality: number | null; // 0-100, null when the original was kept
+  altText: string;
+  variants: { path: string; width: number; height: number; bytes: number }[];
+  fallback: { path: string; bytes: number } | null;
+}
+
+/**
+ * Whether `<img>` needs another file than this output: only JPEG and PNG show everywhere.
+ */
+export const needsFallback = (blob: Blob) => blob.type !== ImageFormat.JPEG && blob.type !== ImageFormat.PNG;
+
+/**
+ * Names every converted image (and its variants) with the naming template,
+ * inside its original folder. Clashing names get a `_(n)` suffix.
+ * @param order List used for the `{index}` token; defaults to `targets`
+ * @param fallbacks JPEG/PNG copies by image id, named after the main output
+ */
+export const planExport = (
+  targets: ProcessedImage[],
+  naming: NamingOptions,
+  order: ProcessedImage[] = targets,
+  fallbacks: Map<string, Blob> = new Map()
+): ExportedImage[] => {
+  const usedPaths = new Set<string>();
+  const date = new Date();
+
+  const reservePath = (name: string, dir = '') => {
+    const dot = name.lastIndexOf('.');
+    const baseName = (dir ? `${dir}/` : '') + name.slice(0, dot);
+    const ext = name.slice(dot + 1);
+    let path = `${baseName}.${ext}`;
+
+    let counter = 1;
+    while (usedPaths.has(path)) {
+      path = `${baseName}_(${counter}).${ext}`;
+      counter++;
+    }
+    usedPaths.add(path);
+    return path;
+  };
+
+  return targets
+    .filter(img => img.status === ProcessingStatus.COMPLETED && img.convertedBlob)
+    .map(img => {
+      const context = { index: order.indexOf(img) + 1, date };
+      const mainName = buildFileName(img, context, naming);
+      const fallback = fallbacks.get(img.id);
+      return {
+        image: img,
+        main: {
+          path: reservePath(mainName, img.relativeDir),
+          blob: img.convertedBlob!,
+          width: img.convertedWidth,
+          height: img.convertedHeight
+        },
+        variants: img.variants.map(v => ({
+          path: reservePath(buildFileName(img, { ...context, variantWidth: v.width }, naming), img.relativeDir),
+          blob: v.blob,
+          width: v.width,
+          height: v.height
+        })),
+        fallback: fallback && {
+          path: reservePath(mainName.replace(/\.[^.]+$/, `.${getBlobExtension(fallback)}`), img.relativeDir),
+          blob: fallback,
+          width: img.convertedWidth,
+          height: img.convertedHeight
+        }
+      };
+    });
+};
+
+export const toManifestEntry = ({ image, main, variants, fallback }: ExportedImage): ManifestEntry => ({
+  originalName: image.originalFile.name,
+  originalPath: image.relativeDir ? `${image.relativeDir}/${image.originalFile.name}` : image.originalFile.name,
+  outputName: main.path,
+  width: main.width,
+  height: main.height,
+  originalBytes: image.originalSize,
+  outputBytes: main.blob.size,
+  savingsPercent: image.originalSize > 0 ? Math.round((1 - main.blob.size / image.originalSize) * 1000) / 10 : 0,
+  format: getBlobExtension(main.blob),
+  quality: image.keptOriginal ? null : Math.round((image.chosenQuality ?? image.settings.quality) * 100),
+  altText: image.altText ?? '',
+  variants: variants.map(v => ({ path: v.path, width: v.width, height: v.height, bytes: v.blob.size })),
+  fallback: fallback ? { path: fallback.path, bytes: fallback.blob.size } : null
+});
+
+export const buildManifestJson = (entries: ManifestEntry[]) =>
+  JSON.stringify({ generator: 'OptiPix', createdAt: new Date().toISOString(), images: entries }, null, 2);
+
+const CSV_COLUMNS: [string, (entry: ManifestEntry) => string | number][] = [
+  ['original_path', e => e.originalPath],
+  ['output_path', e => e.outputName],
+  ['width', e => e.width],
+  ['height', e => e.height],
+  ['original_bytes', e => e.originalBytes],
+  ['output_bytes', e => e.outputBytes],
+  ['savings_percent', e => e.savingsPercent],
+  ['format', e => e.format],
+  ['quality', e => e.quality ?? ''],
+  ['alt_text', e => e.altText],
+  ['variants', e => e.variants.map(v => `${v.path} ${v.width}w`).join(', ')],
+  ['fallback_path', e => e.fallback?.path ?? '']
+];
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildManifestCsv = (entries: ManifestEntry[]) =>
+  [
+    CSV_COLUMNS.map(([header]) => header).join(','),
+    ...entries.map(entry => CSV_COLUMNS.map(([, read]) => csvCell(read(entry))).join(','))
+  ].join('\r\n');
+
+export const escapeAttribute = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Spaces would split srcset candidates
+const toUrl = (path: string) => escapeAttribute(encodeURI(path));
+
+/**
+ * `<img>` markup for an exported image with `srcset` (when there are variants),
+ * `width`/`height` and `alt`. Formats without universal support (AVIF, WebP,
+ * JPEG XL) are wrapped in a `<picture>` whose `<img>` falls back to the exported
+ * JPEG/PNG copy; without one, `<img>` points at the output itself.
+ */
+export const buildPictureHtml = ({ image, main, variants, fallback }: ExportedImage): string => {
+  const files = [...variants, main].sort((a, b) => a.width - b.width);
+  const srcset = variants.length > 0 ? files.map(f => `${toUrl(f.path)} ${f.width}w`).join(', ') : '';
+  const sizes = srcset ? ` sizes="(max-width: ${main.width}px) 100vw, ${main.width}px"` : '';
+  const alt = escapeAttribute(image.altText ?? '');
+  const dimensions = `width="${main.width}" height="${main.height}"`;
+  const loading = 'loading="lazy" decoding="async"';
+
+  if (!fallback || !needsFallback(main.blob)) {
+    const srcsetAttr = srcset ? ` srcset="${srcset}"${sizes}` : '';
+    return `<img src="${toUrl(main.path)}"${srcsetAttr} ${dimensions} alt="${alt}" ${loading}>`;
+  }
+
+  return [
+    '<picture>',
+    `  <source type="${main.blob.type}" srcset="${srcset || toUrl(main.path)}"${sizes}>`,
+    `  <img src="${toUrl(fallback.path)}" ${dimensions} alt="${alt}" ${loading}>`,
+    '</picture>'
+  ].join('\n');
+};
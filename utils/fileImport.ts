@@ -0,0 +1,139 @@
+import JSZip from 'jszip';
+
+/**
+ * Turns drops, file/folder pickers and ZIP archives into a flat list of image
+ * files, keeping the folder each one came from so exports can mirror it.
+ */
+
+export interface ImportedFile {
+  file: File;
+  relativeDir: string; // Folder relative to what the user picked, '' for the root
+}
+
+const IMAGE_TYPES_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  jxl: 'image/jxl',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml'
+};
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+const isZipFile = (file: File) =>
+  file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || getExtension(file.name) === 'zip';
+
+const isImageFile = (file: File) => file.type.startsWith('image/') || getExtension(file.name) in IMAGE_TYPES_BY_EXTENSION;
+
+// OS clutter such as .DS_Store, Thumbs.db and macOS resource forks
+const isHiddenPath = (path: string) => path.split('/').some(part => part.startsWith('.') || part === '__MACOSX');
+
+const joinPath = (...parts: string[]) => parts.filter(Boolean).join('/');
+
+const dirName = (path: string) => path.split('/').slice(0, -1).join('/');
+
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the listing in batches (100 in Chrome) until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const walkEntry = async (entry: FileSystemEntry, parentDir: string, out: ImportedFile[]): Promise<void> => {
+  if (isHiddenPath(entry.name)) return;
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ file, relativeDir: parentDir });
+    return;
+  }
+  if (entry.isDirectory) {
+    const dir = joinPath(parentDir, entry.name);
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, dir, out);
+    }
+  }
+};
+
+const extractZip = async (archive: File, parentDir: string): Promise<ImportedFile[]> => {
+  const zip = await JSZip.loadAsync(archive);
+  const files: ImportedFile[] = [];
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || isHiddenPath(entry.name)) continue;
+    const name = entry.name.split('/').pop()!;
+    const type = IMAGE_TYPES_BY_EXTENSION[getExtension(name)];
+    if (!type) continue;
+
+    const blob = await entry.async('blob');
+    files.push({
+      file: new File([blob], name, { type, lastModified: entry.date?.getTime() }),
+      relativeDir: joinPath(parentDir, dirName(entry.name))
+    });
+  }
+  return files;
+};
+
+/**
+ * Extracts ZIP archives and drops anything that is not an image. Archives
+ * that cannot be read are skipped with a warning.
+ */
+const expandImports = async (imports: ImportedFile[]): Promise<ImportedFile[]> => {
+  const result: ImportedFile[] = [];
+  for (const item of imports) {
+    if (isZipFile(item.file)) {
+      try {
+        result.push(...await extractZip(item.file, item.relativeDir));
+      } catch (error) {
+        console.warn("Could not read ZIP archive", item.file.name, error);
+      }
+    } else if (isImageFile(item.file)) {
+      result.push(item);
+    }
+  }
+  return result;
+};
+
+/**
+ * Files from an `<input type="file">`, including directory pickers, where each
+ * file carries its path in `webkitRelativePath`.
+ */
+export const collectInputFiles = (fileList: FileList): Promise<ImportedFile[]> =>
+  expandImports(Array.from(fileList).map(file => ({
+    file,
+    relativeDir: dirName(file.webkitRelativePath || '')
+  })));
+
+/**
+ * Files from a drop, walking dropped folders recursively. Entries have to be
+ * taken synchronously, before the event handler returns.
+ */
+export const collectDroppedFiles = (dataTransfer: DataTransfer): Promise<ImportedFile[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return collectInputFiles(dataTransfer.files);
+  }
+
+  return (async () => {
+    const files: ImportedFile[] = [];
+    for (const entry of entries) {
+      await walkEntry(entry, '', files);
+    }
+    return expandImports(files);
+  })();
+};
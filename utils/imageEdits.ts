@@ -0,0 +1,123 @@
+import { ConversionErrorKind, CropRect, ImageEdits } from '../types';
+import { ConversionError } from './conversionErrors';
+
+export const DEFAULT_EDITS: ImageEdits = {
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  straighten: 0,
+  crop: null,
+  aspect: null
+};
+
+export const MAX_STRAIGHTEN = 45;
+
+export interface AspectPreset {
+  id: string;
+  label: string;
+  ratio: number; // width / height
+  size?: { width: number; height: number }; // Output size set along with the crop
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:3', label: '4:3', ratio: 4 / 3 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: 'og', label: 'OG 1200×630', ratio: 1200 / 630, size: { width: 1200, height: 630 } }
+];
+
+export const hasEdits = (edits?: ImageEdits): boolean =>
+  !!edits && (edits.rotation % 360 !== 0 || edits.flipH || edits.flipV || edits.straighten !== 0 || edits.crop !== null);
+
+/**
+ * Size of the image after quarter turns and straightening, before the crop.
+ * Straightening keeps the largest centered rectangle with the same aspect ratio
+ * that fits inside the tilted image, so no empty corners show up.
+ */
+export const getEditFrame = (srcWidth: number, srcHeight: number, edits: ImageEdits) => {
+  const turned = (edits.rotation / 90) % 2 !== 0;
+  const width = turned ? srcHeight : srcWidth;
+  const height = turned ? srcWidth : srcHeight;
+  const angle = Math.abs(edits.straighten) * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const scale = Math.min(width / (width * cos + height * sin), height / (width * sin + height * cos));
+  return { width: width * scale, height: height * scale };
+};
+
+const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+/**
+ * Output size in pixels of the edited image.
+ */
+export const getEditedSize = (srcWidth: number, srcHeight: number, edits: ImageEdits) => {
+  const frame = getEditFrame(srcWidth, srcHeight, edits);
+  const crop = edits.crop ?? FULL_CROP;
+  return {
+    width: Math.max(1, Math.round(frame.width * crop.width)),
+    height: Math.max(1, Math.round(frame.height * crop.height))
+  };
+};
+
+/**
+ * Largest centered crop with the given pixel aspect ratio inside the frame.
+ */
+export const getCenteredCrop = (frame: { width: number; height: number }, ratio: number): CropRect => {
+  // Aspect ratio expressed in frame fractions
+  const fractionRatio = ratio * frame.height / frame.width;
+  const width = fractionRatio >= 1 ? 1 : fractionRatio;
+  const height = fractionRatio >= 1 ? 1 / fractionRatio : 1;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Draws the source with the edits applied into `ctx`, whose canvas should be
+ * `getEditedSize() * scale`. Order: quarter turns, flips (as seen on screen),
+ * straighten, crop.
+ */
+export const drawEdited = (
+  ctx: Context2D,
+  source: CanvasImageSource,
+  srcWidth: number,
+  srcHeight: number,
+  edits: ImageEdits,
+  scale = 1
+) => {
+  const frame = getEditFrame(srcWidth, srcHeight, edits);
+  const crop = edits.crop ?? FULL_CROP;
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.scale(scale, scale);
+  ctx.translate(-crop.x * frame.width, -crop.y * frame.height);
+  ctx.translate(frame.width / 2, frame.height / 2);
+  ctx.rotate(edits.straighten * Math.PI / 180);
+  ctx.scale(edits.flipH ? -1 : 1, edits.flipV ? -1 : 1);
+  ctx.rotate(edits.rotation * Math.PI / 180);
+  ctx.drawImage(source, -srcWidth / 2, -srcHeight / 2, srcWidth, srcHeight);
+  ctx.restore();
+};
+
+/**
+ * Renders the edited image into a new DOM canvas (main thread).
+ */
+export const renderEditedCanvas = (
+  source: CanvasImageSource,
+  srcWidth: number,
+  srcHeight: number,
+  edits: ImageEdits
+): HTMLCanvasElement => {
+  const { width, height } = getEditedSize(srcWidth, srcHeight, edits);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new ConversionError(ConversionErrorKind.CANVAS_LIMIT, `Could not get a ${width}x${height} canvas context`);
+  }
+  drawEdited(ctx, source, srcWidth, srcHeight, edits);
+  return canvas;
+};
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { AltTextStatus, ImageFormat, ProcessedImage, ProcessingStatus } from '../types';
+import { INITIAL_IMAGE_STORE, ImageStoreState, MAX_HISTORY, MAX_HISTORY_BYTES, entryJobIds, imageStoreReducer } from './imageStore';
+import { DEFAULT_SETTINGS } from './presets';
+
+const makeImage = (id: string, overrides: Partial<ProcessedImage> = {}): ProcessedImage => ({
+  id,
+  originalFile: new File([], `${id}.jpg`),
+  previewUrl: `blob:${id}`,
+  convertedBlob: new Blob(),
+  convertedUrl: `blob:${id}-out`,
+  status: ProcessingStatus.COMPLETED,
+  originalSize: 0,
+  convertedSize: 0,
+  convertedWidth: 0,
+  convertedHeight: 0,
+  variants: [],
+  settings: DEFAULT_SETTINGS,
+  ...overrides
+});
+
+const withImages = (...ids: string[]): ImageStoreState =>
+  imageStoreReducer(INITIAL_IMAGE_STORE, { type: 'add', images: ids.map(id => makeImage(id)) });
+
+const ids = (state: ImageStoreState) => state.images.map(image => image.id);
+
+describe('imageStoreReducer', () => {
+  it('adds images at the end, or at the start when asked, without recording history', () => {
+    const state = imageStoreReducer(withImages('a'), { type: 'add', images: [makeImage('b')], atStart: true });
+    expect(ids(state)).toEqual(['b', 'a']);
+    expect(state.past).toEqual([]);
+  });
+
+  it('undoes and redoes a removal, putting images back at their positions', () => {
+    const removed = imageStoreReducer(withImages('a', 'b', 'c'), { type: 'remove', ids: ['a', 'c'], label: 'Remover' });
+    expect(ids(removed)).toEqual(['b']);
+
+    const undone = imageStoreReducer(removed, { type: 'undo' });
+    expect(ids(undone)).toEqual(['a', 'b', 'c']);
+    expect(undone.future.map(entry => entry.label)).toEqual(['Remover']);
+
+    const redone = imageStoreReducer(undone, { type: 'redo' });
+    expect(ids(redone)).toEqual(['b']);
+  });
+
+  it('ignores removals of unknown ids', () => {
+    const state = withImages('a');
+    expect(imageStoreReducer(state, { type: 'remove', ids: ['x'], label: 'Remover' })).toBe(state);
+  });
+
+  it('restores the previous output when a settings change is undone', () => {
+    const state = withImages('a');
+    const changed = imageStoreReducer(state, {
+      type: 'updateSettings', ids: ['a'], settings: { format: ImageFormat.AVIF }, label: 'Formato'
+    });
+    expect(changed.images[0].settings.format).toBe(ImageFormat.AVIF);
+    expect(changed.images[0].status).toBe(ProcessingStatus.IDLE);
+
+    const undone = imageStoreReducer(changed, { type: 'undo' });
+    expect(undone.images[0].settings.format).toBe(state.images[0].settings.format);
+    expect(undone.images[0].convertedBlob).toBe(state.images[0].convertedBlob);
+    expect(undone.images[0].status).toBe(ProcessingStatus.COMPLETED);
+  });
+
+  it('does not record settings changes without a label', () => {
+    const changed = imageStoreReducer(withImages('a'), { type: 'updateSettings', ids: ['a'], settings: { quality: 0.5 } });
+    expect(changed.images[0].settings.quality).toBe(0.5);
+    expect(changed.past).toEqual([]);
+  });
+
+  it('brings back a state recorded mid-conversion as waiting to be converted', () => {
+    const converting = imageStoreReducer(
+      imageStoreReducer(INITIAL_IMAGE_STORE, { type: 'add', images: [makeImage('a', { status: ProcessingStatus.IDLE })] }),
+      { type: 'startConversions' }
+    );
+    expect(converting.images[0].status).toBe(ProcessingStatus.CONVERTING);
+
+    const changed = imageStoreReducer(converting, { type: 'updateSettings', ids: ['a'], settings: { quality: 0.5 }, label: 'Qualidade' });
+    expect(entryJobIds(changed.past[0])).toEqual({ conversions: ['a'], altText: [] });
+    expect(imageStoreReducer(changed, { type: 'undo' }).images[0].status).toBe(ProcessingStatus.IDLE);
+  });
+
+  it('sets a fixed COVER size along with edits that need it', () => {
+    const state = imageStoreReducer(withImages('a'), {
+      type: 'updateEdits', id: 'a', edits: { rotation: 90, flipH: false, flipV: false, straighten: 0, crop: null, aspect: 'og' }, size: { width: 1200, height: 630 }
+    });
+    expect(state.images[0].settings.resize).toMatchObject({ maxWidth: 1200, maxHeight: 630 });
+    expect(state.past.map(entry => entry.label)).toEqual(['Editar imagem']);
+  });
+
+  it('restores the previous resize once the fixed-size preset goes away', () => {
+    const edits = { rotation: 0, flipH: false, flipV: false, straighten: 0, crop: null, aspect: 'og' };
+    const size = { width: 1200, height: 630 };
+    let state = imageStoreReducer(withImages('a'), { type: 'updateEdits', id: 'a', edits, size });
+    // Picking another fixed size still restores the resize from before the first one
+    state = imageStoreReducer(state, { type: 'updateEdits', id: 'a', edits, size: { width: 1080, height: 1080 } });
+    state = imageStoreReducer(state, { type: 'updateEdits', id: 'a', edits: { ...edits, aspect: 'free' } });
+    expect(state.images[0].settings.resize).toEqual(DEFAULT_SETTINGS.resize);
+    expect(state.images[0].resizeBeforeEdits).toBeUndefined();
+
+    expect(imageStoreReducer(state, { type: 'undo' }).images[0].settings.resize).toMatchObject({ maxWidth: 1080, maxHeight: 1080 });
+  });
+
+  it('keeps a resize chosen by hand after the fixed-size preset', () => {
+    const edits = { rotation: 0, flipH: false, flipV: false, straighten: 0, crop: null, aspect: 'og' };
+    const resize = { ...DEFAULT_SETTINGS.resize, maxWidth: 500 };
+    let state = imageStoreReducer(withImages('a'), { type: 'updateEdits', id: 'a', edits, size: { width: 1200, height: 630 } });
+    state = imageStoreReducer(state, { type: 'updateSettings', ids: ['a'], settings: { resize }, label: 'Redimensionar' });
+    state = imageStoreReducer(state, { type: 'updateEdits', id: 'a', edits: undefined });
+    expect(state.images[0].settings.resize).toEqual(resize);
+  });
+
+  it('clears the redo stack on a new change', () => {
+    let state = imageStoreReducer(withImages('a', 'b'), { type: 'remove', ids: ['a'], label: 'Remover' });
+    state = imageStoreReducer(state, { type: 'undo' });
+    state = imageStoreReducer(state, { type: 'editAltText', id: 'b', altText: 'Um gato' });
+    expect(state.future).toEqual([]);
+  });
+
+  it('records regenerated alt text only when it replaces an existing text', () => {
+    let state = imageStoreReducer(withImages('a'), { type: 'altTextGenerated', id: 'a', altText: 'Primeiro' });
+    expect(state.images[0].altText).toBe('Primeiro');
+    expect(state.past).toEqual([]);
+
+    state = imageStoreReducer(state, { type: 'update', ids: ['a'], changes: { altTextStatus: AltTextStatus.GENERATING } });
+    state = imageStoreReducer(state, { type: 'altTextGenerated', id: 'a', altText: 'Segundo' });
+    expect(state.images[0]).toMatchObject({ altText: 'Segundo', altTextStatus: undefined });
+    expect(state.past.map(entry => entry.label)).toEqual(['Gerar Alt Text']);
+
+    expect(imageStoreReducer(state, { type: 'undo' }).images[0].altText).toBe('Primeiro');
+  });
+
+  it(`keeps at most ${MAX_HISTORY} entries`, () => {
+    let state = withImages('a');
+    for (let i = 0; i < MAX_HISTORY + 5; i++) {
+      state = imageStoreReducer(state, { type: 'editAltText', id: 'a', altText: `Texto ${i}` });
+    }
+    expect(state.past).toHaveLength(MAX_HISTORY);
+    expect(state.past[0].change).toEqual({ kind: 'patch', patches: [{ id: 'a', values: { altText: 'Texto 4' } }] });
+  });
+
+  it('drops the oldest entries once the blobs they hold exceed the byte budget', () => {
+    // Files reporting a large size without allocating it
+    const fileOfSize = (name: string, size: number) => Object.defineProperty(new File([], name), 'size', { value: size });
+    const half = Math.ceil(MAX_HISTORY_BYTES / 2) + 1;
+    const images = [
+      makeImage('a', { originalFile: fileOfSize('a.png', half) }),
+      makeImage('b', { originalFile: fileOfSize('b.png', half) }),
+      makeImage('c', { originalFile: fileOfSize('c.png', MAX_HISTORY_BYTES + 1) })
+    ];
+    let state = imageStoreReducer(INITIAL_IMAGE_STORE, { type: 'add', images });
+    state = imageStoreReducer(state, { type: 'remove', ids: ['a'], label: 'Remover a' });
+    state = imageStoreReducer(state, { type: 'remove', ids: ['b'], label: 'Remover b' });
+    expect(state.past.map(entry => entry.label)).toEqual(['Remover b']);
+
+    // The latest entry stays undoable even when it alone is over the budget
+    state = imageStoreReducer(state, { type: 'remove', ids: ['c'], label: 'Remover c' });
+    expect(state.past.map(entry => entry.label)).toEqual(['Remover c']);
+  });
+});
+
+describe('entryJobIds', () => {
+  it('cancels every job of removed images and none for insertions', () => {
+    const removed = imageStoreReducer(withImages('a'), { type: 'remove', ids: ['a'], label: 'Remover' });
+    // Undoing a removal inserts the image back
+    expect(entryJobIds(removed.past[0])).toEqual({ conversions: [], altText: [] });
+    const undone = imageStoreReducer(removed, { type: 'undo' });
+    expect(entryJobIds(undone.future[0])).toEqual({ conversions: ['a'], altText: ['a'] });
+  });
+});
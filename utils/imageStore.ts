@@ -0,0 +1,276 @@
+import { useEffect, useReducer, useRef } from 'react';
+import { AltTextStatus, ConversionSettings, ImageEdits, ProcessedImage, ProcessingStatus, ResizeFit, TextSuggestions } from '../types';
+
+/**
+ * Image list state: every change goes through `imageStoreReducer` as an
+ * action. Destructive ones (removals, settings/edits changes, alt-text edits
+ * and regenerations replacing a text) are recorded for undo/redo; conversion
+ * and alt-text progress are not. Object URLs are revoked by `useImageStore`
+ * once no image and no history entry refers to them anymore.
+ */
+
+export type HistoryChange =
+  | { kind: 'insert'; items: { index: number; image: ProcessedImage }[] } // Puts removed images back
+  | { kind: 'remove'; ids: string[] }
+  | { kind: 'patch'; patches: { id: string; values: Partial<ProcessedImage> }[] }; // Swaps fields in
+
+export interface HistoryEntry {
+  label: string; // Shown as "Desfazer: <label>"
+  change: HistoryChange;
+}
+
+export interface ImageStoreState {
+  images: ProcessedImage[];
+  past: HistoryEntry[]; // Most recent last
+  future: HistoryEntry[]; // Undone entries, most recent last
+}
+
+export type ImageAction =
+  | { type: 'add'; images: ProcessedImage[]; atStart?: boolean }
+  | { type: 'update'; ids: string[]; changes: Partial<ProcessedImage> }
+  | { type: 'startConversions' }
+  | { type: 'remove'; ids: string[]; label: string }
+  | { type: 'updateSettings'; ids: string[]; settings: Partial<ConversionSettings>; label?: string } // No label: not undoable
+  | { type: 'updateEdits'; id: string; edits: ImageEdits | undefined; size?: { width: number; height: number } }
+  | { type: 'editAltText'; id: string; altText: string }
+  | { type: 'altTextGenerated'; id: string; altText: string; textSuggestions?: TextSuggestions }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+export const MAX_HISTORY = 50;
+// Removed originals and replaced outputs are only kept alive by the history
+export const MAX_HISTORY_BYTES = 256 * 1024 * 1024;
+
+export const INITIAL_IMAGE_STORE: ImageStoreState = { images: [], past: [], future: [] };
+
+// Everything a conversion reads or produces; undoing a settings change brings the previous output back
+const CONVERSION_FIELDS: (keyof ProcessedImage)[] = [
+  'settings', 'edits', 'status', 'convertedBlob', 'convertedUrl', 'convertedSize', 'convertedWidth', 'convertedHeight',
+  'variants', 'chosenQuality', 'targetMet', 'encoderUsed', 'formatReason', 'keptOriginal', 'frameCount',
+  'conversionError', 'recoveredResize', 'recoveryNote', 'metadataWarning', 'metrics', 'isAnalyzing'
+];
+
+const pick = (image: ProcessedImage, fields: (keyof ProcessedImage)[]): Partial<ProcessedImage> =>
+  Object.fromEntries(fields.map(field => [field, image[field]]));
+
+/**
+ * Jobs running when a state was recorded were cancelled since: bring it back
+ * as waiting to be converted again, with nothing in progress.
+ */
+const settle = (values: Partial<ProcessedImage>): Partial<ProcessedImage> => ({
+  ...values,
+  ...(values.status === ProcessingStatus.CONVERTING && { status: ProcessingStatus.IDLE }),
+  ...('isAnalyzing' in values && { isAnalyzing: false }),
+  ...('altTextStatus' in values && values.altTextStatus !== AltTextStatus.ERROR && { altTextStatus: undefined })
+});
+
+/**
+ * Applies a change to the list and returns the change that reverts it.
+ */
+const applyChange = (images: ProcessedImage[], change: HistoryChange): { images: ProcessedImage[]; inverse: HistoryChange } => {
+  switch (change.kind) {
+    case 'insert': {
+      const next = [...images];
+      [...change.items]
+        .sort((a, b) => a.index - b.index)
+        .forEach(({ index, image }) => next.splice(Math.min(index, next.length), 0, { ...image, ...settle(image) }));
+      return { images: next, inverse: { kind: 'remove', ids: change.items.map(item => item.image.id) } };
+    }
+    case 'remove': {
+      const ids = new Set(change.ids);
+      const items = images.flatMap((image, index) => ids.has(image.id) ? [{ index, image }] : []);
+      return { images: images.filter(image => !ids.has(image.id)), inverse: { kind: 'insert', items } };
+    }
+    case 'patch': {
+      const byId = new Map(change.patches.map(patch => [patch.id, patch.values]));
+      const inverse: { id: string; values: Partial<ProcessedImage> }[] = [];
+      const next = images.map(image => {
+        const values = byId.get(image.id);
+        if (!values) return image;
+        inverse.push({ id: image.id, values: pick(image, Object.keys(values) as (keyof ProcessedImage)[]) });
+        return { ...image, ...settle(values) };
+      });
+      return { images: next, inverse: { kind: 'patch', patches: inverse } };
+    }
+  }
+};
+
+/**
+ * Images whose running jobs must be cancelled before applying a history entry:
+ * removed images lose both, images whose conversion is swapped lose the conversion.
+ */
+export const entryJobIds = ({ change }: HistoryEntry): { conversions: string[]; altText: string[] } => {
+  if (change.kind === 'remove') return { conversions: change.ids, altText: change.ids };
+  if (change.kind === 'insert') return { conversions: [], altText: [] };
+  return { conversions: change.patches.filter(patch => 'status' in patch.values).map(patch => patch.id), altText: [] };
+};
+
+const imageBlobs = (image: Partial<ProcessedImage>) =>
+  [image.originalFile, image.convertedBlob, ...(image.variants ?? []).map(v => v.blob)];
+
+const changeBlobs = (change: HistoryChange) =>
+  change.kind === 'insert' ? change.items.flatMap(item => imageBlobs(item.image))
+    : change.kind === 'patch' ? change.patches.flatMap(patch => imageBlobs(patch.values))
+    : [];
+
+/**
+ * Drops the oldest entries beyond MAX_HISTORY, or once the blobs they hold add
+ * up to more than MAX_HISTORY_BYTES. The latest entry is always kept.
+ */
+const trimHistory = (past: HistoryEntry[]): HistoryEntry[] => {
+  const entries = past.slice(-MAX_HISTORY);
+  const counted = new Set<Blob>();
+  let bytes = 0;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    for (const blob of changeBlobs(entries[i].change)) {
+      if (!blob || counted.has(blob)) continue;
+      counted.add(blob);
+      bytes += blob.size;
+    }
+    if (bytes > MAX_HISTORY_BYTES && i < entries.length - 1) return entries.slice(i + 1);
+  }
+  return entries;
+};
+
+const commit = (state: ImageStoreState, label: string, change: HistoryChange): ImageStoreState => {
+  const { images, inverse } = applyChange(state.images, change);
+  return { images, past: trimHistory([...state.past, { label, change: inverse }]), future: [] };
+};
+
+const reconvertPatch = (image: ProcessedImage, changes: Partial<ProcessedImage>) => ({
+  id: image.id,
+  values: { ...pick(image, CONVERSION_FIELDS), ...changes, status: ProcessingStatus.IDLE }
+});
+
+export const imageStoreReducer = (state: ImageStoreState, action: ImageAction): ImageStoreState => {
+  switch (action.type) {
+    case 'add':
+      return { ...state, images: action.atStart ? [...action.images, ...state.images] : [...state.images, ...action.images] };
+
+    case 'update': {
+      const ids = new Set(action.ids);
+      return { ...state, images: state.images.map(image => ids.has(image.id) ? { ...image, ...action.changes } : image) };
+    }
+
+    case 'startConversions':
+      return {
+        ...state,
+        images: state.images.map(image =>
+          image.status === ProcessingStatus.IDLE ? { ...image, status: ProcessingStatus.CONVERTING } : image
+        )
+      };
+
+    case 'remove': {
+      const ids = new Set(action.ids);
+      if (!state.images.some(image => ids.has(image.id))) return state;
+      return commit(state, action.label, { kind: 'remove', ids: action.ids });
+    }
+
+    case 'updateSettings': {
+      const ids = new Set(action.ids);
+      const patches = state.images
+        .filter(image => ids.has(image.id))
+        .map(image => reconvertPatch(image, {
+          settings: { ...image.settings, ...action.settings },
+          // A resize chosen by hand outlives the editor preset it replaces
+          ...(action.settings.resize && { resizeBeforeEdits: undefined })
+        }));
+      if (patches.length === 0) return state;
+      if (!action.label) return { ...state, images: applyChange(state.images, { kind: 'patch', patches }).images };
+      return commit(state, action.label, { kind: 'patch', patches });
+    }
+
+    case 'updateEdits': {
+      const image = state.images.find(p => p.id === action.id);
+      if (!image) return state;
+      // Presets with a fixed size (e.g. OG image) also set the output dimensions, until edited away
+      const before = image.resizeBeforeEdits ?? image.settings.resize;
+      const resize = action.size
+        ? { ...before, maxWidth: action.size.width, maxHeight: action.size.height, fit: ResizeFit.COVER }
+        : before;
+      const patch = reconvertPatch(image, {
+        edits: action.edits,
+        settings: { ...image.settings, resize },
+        resizeBeforeEdits: action.size ? before : undefined
+      });
+      return commit(state, 'Editar imagem', { kind: 'patch', patches: [patch] });
+    }
+
+    case 'editAltText': {
+      if (!state.images.some(image => image.id === action.id)) return state;
+      return commit(state, 'Editar Alt Text', { kind: 'patch', patches: [{ id: action.id, values: { altText: action.altText } }] });
+    }
+
+    case 'altTextGenerated': {
+      const image = state.images.find(p => p.id === action.id);
+      if (!image) return state;
+      const patch = { id: action.id, values: { altText: action.altText, textSuggestions: action.textSuggestions } };
+      // Replacing an existing text, possibly written by hand, can be undone like an edit
+      const next = image.altText && image.altText !== action.altText
+        ? commit(state, 'Gerar Alt Text', { kind: 'patch', patches: [patch] })
+        : { ...state, images: applyChange(state.images, { kind: 'patch', patches: [patch] }).images };
+      return {
+        ...next,
+        images: next.images.map(p => p.id === action.id ? { ...p, altTextStatus: undefined, altTextError: undefined } : p)
+      };
+    }
+
+    case 'undo':
+    case 'redo': {
+      const from = action.type === 'undo' ? state.past : state.future;
+      const entry = from[from.length - 1];
+      if (!entry) return state;
+      const { images, inverse } = applyChange(state.images, entry.change);
+      const reverted = { label: entry.label, change: inverse };
+      return action.type === 'undo'
+        ? { images, past: state.past.slice(0, -1), future: [...state.future, reverted] }
+        : { images, past: trimHistory([...state.past, reverted]), future: state.future.slice(0, -1) };
+    }
+  }
+};
+
+const imageUrls = (image: Partial<ProcessedImage>) => [
+  image.convertedUrl,
+  ...(image.variants ?? []).map(v => v.url),
+  image.metrics?.heatmapUrl
+];
+
+const changeUrls = (change: HistoryChange) =>
+  change.kind === 'insert' ? change.items.flatMap(item => imageUrls(item.image))
+    : change.kind === 'patch' ? change.patches.flatMap(patch => imageUrls(patch.values))
+    : [];
+
+// Object URLs referenced by the list or by any history entry
+const collectLiveUrls = (state: ImageStoreState) => new Set(
+  [
+    ...state.images.flatMap(imageUrls),
+    ...[...state.past, ...state.future].flatMap(entry => changeUrls(entry.change))
+  ].filter((url): url is string => !!url?.startsWith('blob:'))
+);
+
+/**
+ * The image store, with object-URL cleanup: URLs are revoked once they have
+ * left both the list and the undo/redo history. URLs that never make it into
+ * the store are still the caller's to revoke.
+ */
+export const useImageStore = () => {
+  const [state, dispatch] = useReducer(imageStoreReducer, INITIAL_IMAGE_STORE);
+  const liveUrlsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    const live = collectLiveUrls(state);
+    liveUrlsRef.current.forEach(url => { if (!live.has(url)) URL.revokeObjectURL(url); });
+    liveUrlsRef.current = live;
+  }, [state]);
+
+  useEffect(() => {
+    return () => liveUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  return {
+    images: state.images,
+    undoEntry: state.past[state.past.length - 1] ?? null,
+    redoEntry: state.future[state.future.length - 1] ?? null,
+    dispatch
+  };
+};
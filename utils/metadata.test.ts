@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest';
+import { MetadataPolicy } from '../types';
+import { applyMetadataPolicy, hasMetadataToStrip, readImageMetadata } from './metadata';
+import type { ConversionResult } from './pipeline';
+
+// [tag, TIFF type, values]: ASCII (2) takes a string, SHORT (3) and LONG (4) numbers, RATIONAL (5) numerator/denominator pairs
+type Entry = [number, number, string | number[]];
+
+const THUMBNAIL_BYTE = 0xab;
+
+/**
+ * Little-endian EXIF block with IFD0, a GPS IFD and an IFD1 pointing at a
+ * thumbnail of `thumbnail` bytes, written before the GPS IFD when `thumbnailFirst`.
+ */
+const buildExif = (ifd0: Entry[], gps: Entry[], thumbnail: number, thumbnailFirst = false) => {
+  const bytes = new Uint8Array(4096);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49]);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  let free = 8;
+
+  const encode = (type: number, values: string | number[]) => {
+    if (typeof values === 'string') return new TextEncoder().encode(values + '\0');
+    const width = type === 3 ? 2 : 4;
+    const data = new Uint8Array(values.length * width);
+    const dataView = new DataView(data.buffer);
+    values.forEach((value, i) => width === 2 ? dataView.setUint16(i * 2, value, true) : dataView.setUint32(i * 4, value, true));
+    return data;
+  };
+
+  // Returns the offsets of the IFD and of its next-IFD pointer
+  const writeIfd = (entries: Entry[]) => {
+    const offset = free;
+    free += 2 + entries.length * 12 + 4;
+    view.setUint16(offset, entries.length, true);
+    entries.forEach(([tag, type, values], i) => {
+      const pos = offset + 2 + i * 12;
+      const data = encode(type, values);
+      view.setUint16(pos, tag, true);
+      view.setUint16(pos + 2, type, true);
+      view.setUint32(pos + 4, type === 5 ? values.length / 2 : values.length + (type === 2 ? 1 : 0), true);
+      if (data.length <= 4) {
+        bytes.set(data, pos + 8);
+      } else {
+        view.setUint32(pos + 8, free, true);
+        bytes.set(data, free);
+        free += data.length;
+      }
+    });
+    return { offset, next: offset + 2 + entries.length * 12 };
+  };
+
+  const main = writeIfd([...ifd0, [0x8825, 4, [0]]]);
+  const writeGps = () => view.setUint32(main.next - 4, writeIfd(gps).offset, true);
+  const writeThumbnail = () => {
+    const ifd1 = writeIfd([[0x0201, 4, [0]], [0x0202, 4, [thumbnail]]]);
+    view.setUint32(ifd1.offset + 2 + 8, free, true);
+    bytes.fill(THUMBNAIL_BYTE, free, free + thumbnail);
+    free += thumbnail;
+    view.setUint32(main.next, ifd1.offset, true);
+  };
+
+  if (thumbnailFirst) {
+    writeThumbnail();
+    writeGps();
+  } else {
+    writeGps();
+    writeThumbnail();
+  }
+  return bytes.slice(0, free);
+};
+
+const IFD0: Entry[] = [[0x010f, 2, 'Canon'], [0x0110, 2, 'Canon EOS R6'], [0x0112, 3, [6]], [0x013b, 2, 'Ana Souza']];
+const GPS: Entry[] = [[1, 2, 'N'], [2, 5, [48, 1, 51, 1, 24, 1]], [3, 2, 'W'], [4, 5, [2, 1, 17, 1, 40, 1]]];
+
+const jpeg = (exif?: Uint8Array) => {
+  const segment = exif ? [0xff, 0xe1, (exif.length + 8) >> 8, (exif.length + 8) & 0xff, ...new TextEncoder().encode('Exif\0\0'), ...exif] : [];
+  return new Blob([new Uint8Array([0xff, 0xd8, ...segment, 0xff, 0xd9])], { type: 'image/jpeg' });
+};
+
+// Signature, an empty IHDR and IEND; the reader never checks CRCs
+const png = () => new Blob([new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+  0, 0, 0, 13, ...new TextEncoder().encode('IHDR'), ...new Array(13).fill(0), 0, 0, 0, 0,
+  0, 0, 0, 0, ...new TextEncoder().encode('IEND'), 0, 0, 0, 0
+])], { type: 'image/png' });
+
+// Simple lossy WebP with a stub VP8 chunk
+const webp = () => {
+  const body = [...new TextEncoder().encode('WEBPVP8 '), 4, 0, 0, 0, 1, 2, 3, 4];
+  return new Blob([new Uint8Array([...new TextEncoder().encode('RIFF'), body.length, 0, 0, 0, ...body])], { type: 'image/webp' });
+};
+
+const output = (blob: Blob): ConversionResult => ({
+  blob, width: 640, height: 480, variants: [], quality: 0.8, targetMet: true, encoder: 'Teste'
+});
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe('readImageMetadata', () => {
+  it('summarizes camera, orientation, author and location', async () => {
+    const metadata = await readImageMetadata(jpeg(buildExif(IFD0, GPS, 100)));
+    expect(metadata).toMatchObject({ hasExif: true, camera: 'Canon EOS R6', orientation: 6, artist: 'Ana Souza' });
+    expect(metadata.gps!.latitude).toBeCloseTo(48.8567, 3);
+    expect(metadata.gps!.longitude).toBeCloseTo(-2.2944, 3);
+  });
+
+  it('reports files without metadata', async () => {
+    expect(await readImageMetadata(jpeg())).toEqual({ hasExif: false, hasXmp: false, hasIptc: false });
+  });
+});
+
+describe('applyMetadataPolicy', () => {
+  const source = jpeg(buildExif(IFD0, GPS, 1000));
+
+  it('keeps everything but the orientation and the thumbnail under KEEP_ALL', async () => {
+    const result = await applyMetadataPolicy(output(jpeg()), source, MetadataPolicy.KEEP_ALL);
+    const metadata = await readImageMetadata(result.blob);
+    expect(metadata).toMatchObject({ camera: 'Canon EOS R6', orientation: 1, artist: 'Ana Souza' });
+    expect(metadata.gps).toBeDefined();
+    expect((await bytesOf(result.blob)).includes(THUMBNAIL_BYTE)).toBe(false);
+    expect(result.blob.size).toBeLessThan(source.size - 1000);
+  });
+
+  it('zeroes the thumbnail when other EXIF data follows it', async () => {
+    const result = await applyMetadataPolicy(output(jpeg()), jpeg(buildExif(IFD0, GPS, 1000, true)), MetadataPolicy.KEEP_ALL);
+    expect((await bytesOf(result.blob)).includes(THUMBNAIL_BYTE)).toBe(false);
+    expect((await readImageMetadata(result.blob)).gps).toBeDefined();
+  });
+
+  it('removes the location and nothing else under STRIP_GPS', async () => {
+    const metadata = await readImageMetadata((await applyMetadataPolicy(output(jpeg()), source, MetadataPolicy.STRIP_GPS)).blob);
+    expect(metadata.gps).toBeUndefined();
+    expect(metadata.camera).toBe('Canon EOS R6');
+  });
+
+  it('keeps only the author and copyright under KEEP_COPYRIGHT', async () => {
+    const metadata = await readImageMetadata((await applyMetadataPolicy(output(jpeg()), source, MetadataPolicy.KEEP_COPYRIGHT)).blob);
+    expect(metadata).toMatchObject({ hasExif: true, artist: 'Ana Souza' });
+    expect(metadata.camera).toBeUndefined();
+    expect(metadata.gps).toBeUndefined();
+  });
+
+  it('leaves the output alone under STRIP_ALL', async () => {
+    const result = output(jpeg());
+    expect(await applyMetadataPolicy(result, source, MetadataPolicy.STRIP_ALL)).toBe(result);
+  });
+
+  it('writes EXIF into PNG and WebP outputs', async () => {
+    for (const blob of [png(), webp()]) {
+      const result = await applyMetadataPolicy(output(blob), source, MetadataPolicy.STRIP_GPS);
+      expect(result.blob.type).toBe(blob.type);
+      expect(await readImageMetadata(result.blob)).toMatchObject({ camera: 'Canon EOS R6', orientation: 1 });
+    }
+  });
+
+  it('gives simple WebP files an extended header with the output size', async () => {
+    const bytes = await bytesOf((await applyMetadataPolicy(output(webp()), source, MetadataPolicy.KEEP_ALL)).blob);
+    const view = new DataView(bytes.buffer);
+    expect(new TextDecoder().decode(bytes.subarray(12, 16))).toBe('VP8X');
+    expect(bytes[20] & 0x08).toBe(0x08);
+    expect(view.getUint16(24, true) + 1).toBe(640);
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+  });
+});
+
+describe('hasMetadataToStrip', () => {
+  it('only flags what the policy would remove', async () => {
+    const withoutGps = jpeg(buildExif(IFD0.slice(0, 1), [], 10));
+    expect(await hasMetadataToStrip(withoutGps, MetadataPolicy.STRIP_GPS)).toBe(false);
+    expect(await hasMetadataToStrip(withoutGps, MetadataPolicy.STRIP_ALL)).toBe(true);
+    expect(await hasMetadataToStrip(jpeg(buildExif(IFD0, GPS, 10)), MetadataPolicy.STRIP_GPS)).toBe(true);
+  });
+});
@@ -0,0 +1,698 @@
+import { ImageMetadata, MetadataPolicy } from '../types';
+import type { ConversionResult, ConvertedOutput } from './pipeline';
+
+/**
+ * Reads EXIF/XMP/IPTC/ICC metadata from JPEG, PNG and WebP files and writes the
+ * subset allowed by a MetadataPolicy back into the canvas-encoded output.
+ * Works on raw bytes only, so it runs both on the main thread and in workers.
+ */
+
+interface RawMetadata {
+  exif: Uint8Array | null; // TIFF structure starting at the "II"/"MM" byte order mark
+  xmp: string | null;
+  iptc: Uint8Array | null; // JPEG APP13 (Photoshop IRB) payload
+  icc: Uint8Array | null;
+}
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const IPTC_HEADER = 'Photoshop 3.0\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_SOFTWARE = 0x0131;
+const TAG_DATETIME = 0x0132;
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_LENS_MODEL = 0xa434;
+const TAG_INTEROP_IFD = 0xa005;
+
+// Byte size of each TIFF field type, indexed by type id
+const TIFF_TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+const latin1Decoder = new TextDecoder('latin1');
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// --- Container readers ---
+
+const readJpegMetadata = (bytes: Uint8Array): RawMetadata => {
+  const raw: RawMetadata = { exif: null, xmp: null, iptc: null, icc: null };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const iccChunks: Uint8Array[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan / end of image: no metadata past this point
+    if (marker === 0xda || marker === 0xd9) break;
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    const length = view.getUint16(offset + 2);
+    const payload = bytes.subarray(offset + 4, offset + 2 + length);
+
+    if (marker === 0xe1 && startsWith(payload, 0, EXIF_HEADER)) {
+      raw.exif = payload.slice(EXIF_HEADER.length);
+    } else if (marker === 0xe1 && startsWith(payload, 0, XMP_HEADER)) {
+      raw.xmp = textDecoder.decode(payload.subarray(XMP_HEADER.length));
+    } else if (marker === 0xe2 && startsWith(payload, 0, ICC_HEADER)) {
+      // Profiles larger than one segment are split; byte 12 is the 1-based chunk index
+      iccChunks[payload[ICC_HEADER.length] - 1] = payload.subarray(ICC_HEADER.length + 2);
+    } else if (marker === 0xed && startsWith(payload, 0, IPTC_HEADER)) {
+      raw.iptc = payload.slice();
+    }
+
+    offset += 2 + length;
+  }
+
+  if (iccChunks.length > 0) raw.icc = concatBytes(iccChunks.filter(Boolean));
+  return raw;
+};
+
+const readPngMetadata = async (bytes: Uint8Array): Promise<RawMetadata> => {
+  const raw: RawMetadata = { exif: null, xmp: null, iptc: null, icc: null };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1Decoder.decode(bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'eXIf') {
+      raw.exif = data.slice();
+    } else if (type === 'iCCP') {
+      // name\0, compression method (1 byte), zlib stream
+      const nameEnd = data.indexOf(0);
+      raw.icc = await inflate(data.subarray(nameEnd + 2));
+    } else if (type === 'iTXt' && startsWith(data, 0, PNG_XMP_KEYWORD + '\0')) {
+      // keyword\0, compression flag, method, language\0, translated keyword\0, text
+      let pos = PNG_XMP_KEYWORD.length + 1;
+      const compressed = data[pos] === 1;
+      pos += 2;
+      pos = data.indexOf(0, pos) + 1;
+      pos = data.indexOf(0, pos) + 1;
+      const text = data.subarray(pos);
+      raw.xmp = textDecoder.decode(compressed ? await inflate(text) : text);
+    } else if (type === 'IDAT' || type === 'IEND') {
+      break;
+    }
+
+    offset += 12 + length;
+  }
+
+  return raw;
+};
+
+const readWebpMetadata = (bytes: Uint8Array): RawMetadata => {
+  const raw: RawMetadata = { exif: null, xmp: null, iptc: null, icc: null };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const fourcc = latin1Decoder.decode(bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const data = bytes.subarray(offset + 8, offset + 8 + size);
+
+    if (fourcc === 'EXIF') {
+      // Some writers keep the JPEG-style "Exif\0\0" prefix
+      raw.exif = (startsWith(data, 0, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data).slice();
+    } else if (fourcc === 'XMP ') {
+      raw.xmp = textDecoder.decode(data);
+    } else if (fourcc === 'ICCP') {
+      raw.icc = data.slice();
+    }
+
+    offset += 8 + size + (size % 2);
+  }
+
+  return raw;
+};
+
+const readRawMetadata = async (bytes: Uint8Array): Promise<RawMetadata> => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpegMetadata(bytes);
+  if (startsWith(bytes, 0, '\x89PNG')) return readPngMetadata(bytes);
+  if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) return readWebpMetadata(bytes);
+  return { exif: null, xmp: null, iptc: null, icc: null };
+};
+
+// --- EXIF (TIFF) ---
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  valueOffset: number; // Absolute offset of the value (inline or pointed-to)
+}
+
+interface TiffReader {
+  view: DataView;
+  little: boolean;
+  readIfd: (offset: number) => TiffEntry[];
+  ifdOffset: (entry: TiffEntry) => number;
+  readAscii: (entry: TiffEntry) => string;
+  readShort: (entry: TiffEntry) => number;
+  readRationals: (entry: TiffEntry) => number[];
+}
+
+const createTiffReader = (exif: Uint8Array): TiffReader | null => {
+  if (exif.length < 8) return null;
+  const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength);
+  const little = exif[0] === 0x49; // "II"
+  if (view.getUint16(2, little) !== 42) return null;
+
+  const readIfd = (offset: number): TiffEntry[] => {
+    if (offset <= 0 || offset + 2 > exif.length) return [];
+    const count = view.getUint16(offset, little);
+    const entries: TiffEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      const pos = offset + 2 + i * 12;
+      if (pos + 12 > exif.length) break;
+      const type = view.getUint16(pos + 2, little);
+      const entryCount = view.getUint32(pos + 4, little);
+      const size = (TIFF_TYPE_SIZES[type] || 1) * entryCount;
+      entries.push({
+        tag: view.getUint16(pos, little),
+        type,
+        count: entryCount,
+        valueOffset: size <= 4 ? pos + 8 : view.getUint32(pos + 8, little)
+      });
+    }
+    return entries;
+  };
+
+  return {
+    view,
+    little,
+    readIfd,
+    ifdOffset: (entry) => view.getUint32(entry.valueOffset, little),
+    readAscii: (entry) => latin1Decoder
+      .decode(exif.subarray(entry.valueOffset, entry.valueOffset + entry.count))
+      .replace(/\0+$/, '')
+      .trim(),
+    readShort: (entry) => view.getUint16(entry.valueOffset, little),
+    readRationals: (entry) => Array.from({ length: entry.count }, (_, i) => {
+      const denominator = view.getUint32(entry.valueOffset + i * 8 + 4, little);
+      return denominator ? view.getUint32(entry.valueOffset + i * 8, little) / denominator : 0;
+    })
+  };
+};
+
+const toDecimalDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[], ref: string) => {
+  const value = degrees + minutes / 60 + seconds / 3600;
+  return ref === 'S' || ref === 'W' ? -value : value;
+};
+
+const parseExif = (exif: Uint8Array, metadata: ImageMetadata) => {
+  const reader = createTiffReader(exif);
+  if (!reader) return;
+  const { readIfd, readAscii, readShort } = reader;
+  const ifd0 = readIfd(reader.view.getUint32(4, reader.little));
+  const find = (entries: TiffEntry[], tag: number) => entries.find(e => e.tag === tag);
+
+  const make = find(ifd0, TAG_MAKE);
+  const model = find(ifd0, TAG_MODEL);
+  const cameraParts = [make && readAscii(make), model && readAscii(model)].filter(Boolean) as string[];
+  if (cameraParts.length) {
+    // Models usually repeat the make ("Canon" + "Canon EOS R6")
+    metadata.camera = cameraParts.length === 2 && cameraParts[1].startsWith(cameraParts[0])
+      ? cameraParts[1]
+      : cameraParts.join(' ');
+  }
+
+  const orientation = find(ifd0, TAG_ORIENTATION);
+  if (orientation) metadata.orientation = readShort(orientation);
+  const software = find(ifd0, TAG_SOFTWARE);
+  if (software) metadata.software = readAscii(software);
+  const dateTime = find(ifd0, TAG_DATETIME);
+  if (dateTime) metadata.dateTaken = readAscii(dateTime);
+  const artist = find(ifd0, TAG_ARTIST);
+  if (artist) metadata.artist = readAscii(artist);
+  const copyright = find(ifd0, TAG_COPYRIGHT);
+  if (copyright) metadata.copyright = readAscii(copyright);
+
+  const exifPointer = find(ifd0, TAG_EXIF_IFD);
+  if (exifPointer) {
+    const exifIfd = readIfd(reader.ifdOffset(exifPointer));
+    const original = find(exifIfd, TAG_DATETIME_ORIGINAL);
+    if (original) metadata.dateTaken = readAscii(original);
+    const lens = find(exifIfd, TAG_LENS_MODEL);
+    if (lens) metadata.lens = readAscii(lens);
+  }
+
+  const gpsPointer = find(ifd0, TAG_GPS_IFD);
+  if (gpsPointer) {
+    const gpsIfd = readIfd(reader.ifdOffset(gpsPointer));
+    const latRef = find(gpsIfd, 1);
+    const lat = find(gpsIfd, 2);
+    const lonRef = find(gpsIfd, 3);
+    const lon = find(gpsIfd, 4);
+    if (lat && lon) {
+      metadata.gps = {
+        latitude: toDecimalDegrees(reader.readRationals(lat), latRef ? readAscii(latRef) : 'N'),
+        longitude: toDecimalDegrees(reader.readRationals(lon), lonRef ? readAscii(lonRef) : 'E')
+      };
+    }
+  }
+};
+
+const entrySize = (entry: TiffEntry) => (TIFF_TYPE_SIZES[entry.type] || 1) * entry.count;
+
+// Byte past the end of an IFD: its directory, next-IFD pointer and out-of-line values
+const ifdEnd = (offset: number, entries: TiffEntry[]) =>
+  Math.max(offset + 2 + entries.length * 12 + 4, ...entries.map(e => entrySize(e) > 4 ? e.valueOffset + entrySize(e) : 0));
+
+/**
+ * Unlinks IFD1, the embedded thumbnail: it would show the source before edits
+ * and only adds weight. Its bytes are cut off when nothing else follows them,
+ * as cameras usually write them, and zeroed otherwise.
+ */
+const dropThumbnail = (copy: Uint8Array, reader: TiffReader, ifd0Offset: number, ifd0: TiffEntry[]): Uint8Array => {
+  const { view, little } = reader;
+  const nextPointer = ifd0Offset + 2 + ifd0.length * 12;
+  if (nextPointer + 4 > copy.length) return copy;
+  const ifd1Offset = view.getUint32(nextPointer, little);
+  if (ifd1Offset <= 0 || ifd1Offset >= copy.length) return copy;
+  view.setUint32(nextPointer, 0, little);
+
+  const ifd1 = reader.readIfd(ifd1Offset);
+  const thumbnailOffset = ifd1.find(e => e.tag === TAG_THUMBNAIL_OFFSET);
+  const thumbnailLength = ifd1.find(e => e.tag === TAG_THUMBNAIL_LENGTH);
+  const ranges: [number, number][] = [
+    [ifd1Offset, ifd1Offset + 2 + ifd1.length * 12 + 4],
+    ...ifd1.filter(e => entrySize(e) > 4).map(e => [e.valueOffset, e.valueOffset + entrySize(e)] as [number, number])
+  ];
+  if (thumbnailOffset && thumbnailLength) {
+    const start = view.getUint32(thumbnailOffset.valueOffset, little);
+    ranges.push([start, start + view.getUint32(thumbnailLength.valueOffset, little)]);
+  }
+
+  const find = (entries: TiffEntry[], tag: number) => entries.find(e => e.tag === tag);
+  const exifPointer = find(ifd0, TAG_EXIF_IFD);
+  const gpsPointer = find(ifd0, TAG_GPS_IFD);
+  const kept: [number, TiffEntry[]][] = [[ifd0Offset, ifd0]];
+  if (exifPointer) {
+    const exifOffset = reader.ifdOffset(exifPointer);
+    const exifIfd = reader.readIfd(exifOffset);
+    kept.push([exifOffset, exifIfd]);
+    const interopPointer = find(exifIfd, TAG_INTEROP_IFD);
+    if (interopPointer) kept.push([reader.ifdOffset(interopPointer), reader.readIfd(reader.ifdOffset(interopPointer))]);
+  }
+  if (gpsPointer) kept.push([reader.ifdOffset(gpsPointer), reader.readIfd(reader.ifdOffset(gpsPointer))]);
+
+  const thumbnailStart = Math.min(...ranges.map(([start]) => start));
+  if (Math.max(...kept.map(([offset, entries]) => ifdEnd(offset, entries))) <= thumbnailStart) {
+    return copy.slice(0, thumbnailStart);
+  }
+  for (const [start, end] of ranges) copy.fill(0, start, Math.min(copy.length, end));
+  return copy;
+};
+
+/**
+ * Returns a copy of the EXIF block with Orientation reset to 1 (the canvas already
+ * applied it), without the thumbnail and, optionally, with the GPS IFD emptied.
+ */
+const sanitizeExif = (exif: Uint8Array, stripGps: boolean): Uint8Array => {
+  const copy = exif.slice();
+  const reader = createTiffReader(copy);
+  if (!reader) return copy;
+  const ifd0Offset = reader.view.getUint32(4, reader.little);
+  const ifd0 = reader.readIfd(ifd0Offset);
+
+  for (const entry of ifd0) {
+    if (entry.tag === TAG_ORIENTATION) {
+      reader.view.setUint16(entry.valueOffset, 1, reader.little);
+    }
+    if (entry.tag === TAG_GPS_IFD && stripGps) {
+      const gpsOffset = reader.ifdOffset(entry);
+      const gpsEntries = reader.readIfd(gpsOffset);
+      // Wipe the values too, not only the directory, so nothing is recoverable
+      for (const gpsEntry of gpsEntries) {
+        const size = (TIFF_TYPE_SIZES[gpsEntry.type] || 1) * gpsEntry.count;
+        copy.fill(0, gpsEntry.valueOffset, Math.min(copy.length, gpsEntry.valueOffset + size));
+      }
+      copy.fill(0, gpsOffset + 2, Math.min(copy.length, gpsOffset + 2 + gpsEntries.length * 12));
+      reader.view.setUint16(gpsOffset, 0, reader.little);
+    }
+  }
+
+  return dropThumbnail(copy, reader, ifd0Offset, ifd0);
+};
+
+/**
+ * Builds a minimal little-endian EXIF block holding only ASCII IFD0 tags.
+ */
+const buildExif = (tags: Array<[number, string]>): Uint8Array => {
+  const sorted = tags.filter(([, value]) => value).sort(([a], [b]) => a - b);
+  const values = sorted.map(([, value]) => textEncoder.encode(value + '\0'));
+  const ifdSize = 2 + sorted.length * 12 + 4;
+  const dataSize = values.reduce((sum, v) => sum + (v.length > 4 ? v.length : 0), 0);
+  const bytes = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(bytes.buffer);
+
+  bytes.set([0x49, 0x49]);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, sorted.length, true);
+
+  let dataOffset = 8 + ifdSize;
+  sorted.forEach(([tag], i) => {
+    const pos = 10 + i * 12;
+    const value = values[i];
+    view.setUint16(pos, tag, true);
+    view.setUint16(pos + 2, 2, true); // ASCII
+    view.setUint32(pos + 4, value.length, true);
+    if (value.length <= 4) {
+      bytes.set(value, pos + 8);
+    } else {
+      view.setUint32(pos + 8, dataOffset, true);
+      bytes.set(value, dataOffset);
+      dataOffset += value.length;
+    }
+  });
+
+  return bytes;
+};
+
+// --- XMP ---
+
+const readXmpValue = (xmp: string, property: string) => {
+  const element = xmp.match(new RegExp(`<${property}>([\\s\\S]*?)</${property}>`));
+  if (!element) return undefined;
+  // Values are usually wrapped in rdf:Alt/rdf:Seq lists
+  const item = element[1].match(/<rdf:li[^>]*>([\s\S]*?)<\/rdf:li>/);
+  return (item ? item[1] : element[1]).trim() || undefined;
+};
+
+const stripXmpGps = (xmp: string) =>
+  xmp
+    .replace(/\s+exif:GPS\w+="[^"]*"/g, '')
+    .replace(/<exif:(GPS\w+)>[\s\S]*?<\/exif:\1>/g, '');
+
+// XMP may repeat the EXIF orientation, which sanitizeExif resets to 1
+const resetXmpOrientation = (xmp: string) =>
+  xmp
+    .replace(/tiff:Orientation="[^"]*"/g, 'tiff:Orientation="1"')
+    .replace(/<tiff:Orientation>[\s\S]*?<\/tiff:Orientation>/g, '<tiff:Orientation>1</tiff:Orientation>');
+
+// --- ICC ---
+
+const readIccDescription = (icc: Uint8Array): string | undefined => {
+  if (icc.length < 132) return undefined;
+  const view = new DataView(icc.buffer, icc.byteOffset, icc.byteLength);
+  const tagCount = view.getUint32(128);
+
+  for (let i = 0; i < tagCount; i++) {
+    const pos = 132 + i * 12;
+    if (pos + 12 > icc.length) break;
+    if (!startsWith(icc, pos, 'desc')) continue;
+
+    const offset = view.getUint32(pos + 4);
+    if (startsWith(icc, offset, 'desc')) {
+      // ICC v2 textDescriptionType: ASCII length + string
+      const length = view.getUint32(offset + 8);
+      return latin1Decoder.decode(icc.subarray(offset + 12, offset + 12 + length)).replace(/\0+$/, '');
+    }
+    if (startsWith(icc, offset, 'mluc')) {
+      // ICC v4 multiLocalizedUnicodeType: first record, UTF-16BE
+      const length = view.getUint32(offset + 20);
+      const start = offset + view.getUint32(offset + 24);
+      let text = '';
+      for (let c = 0; c + 1 < length; c += 2) text += String.fromCharCode(view.getUint16(start + c));
+      return text;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Extracts a human-readable metadata summary from the original file.
+ */
+export const readImageMetadata = async (file: Blob): Promise<ImageMetadata> => {
+  const raw = await readRawMetadata(new Uint8Array(await file.arrayBuffer()));
+  const metadata: ImageMetadata = {
+    hasExif: !!raw.exif,
+    hasXmp: !!raw.xmp,
+    hasIptc: !!raw.iptc
+  };
+
+  if (raw.exif) parseExif(raw.exif, metadata);
+  if (raw.xmp) {
+    metadata.artist ??= readXmpValue(raw.xmp, 'dc:creator');
+    metadata.copyright ??= readXmpValue(raw.xmp, 'dc:rights');
+  }
+  if (raw.icc) metadata.iccProfile = readIccDescription(raw.icc);
+
+  return metadata;
+};
+
+// --- Container writers ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const jpegSegment = (marker: number, header: string, payload: Uint8Array): Uint8Array | null => {
+  const length = 2 + header.length + payload.length;
+  if (length > 0xffff) return null; // Would need multi-segment splitting
+  const segment = new Uint8Array(2 + length);
+  const view = new DataView(segment.buffer);
+  segment[0] = 0xff;
+  segment[1] = marker;
+  view.setUint16(2, length);
+  segment.set(textEncoder.encode(header), 4);
+  segment.set(payload, 4 + header.length);
+  return segment;
+};
+
+/**
+ * @param dropped Receives the blocks too large for a single segment
+ */
+const writeJpegMetadata = (bytes: Uint8Array, raw: RawMetadata, dropped: Set<string>) => {
+  const segment = (name: string, marker: number, header: string, payload: Uint8Array) => {
+    const written = jpegSegment(marker, header, payload);
+    if (!written) dropped.add(name);
+    return written;
+  };
+  const segments = [
+    raw.exif && segment('EXIF', 0xe1, EXIF_HEADER, raw.exif),
+    raw.xmp && segment('XMP', 0xe1, XMP_HEADER, textEncoder.encode(raw.xmp)),
+    // IPTC payload already starts with the "Photoshop 3.0" header
+    raw.iptc && segment('IPTC', 0xed, '', raw.iptc)
+  ].filter(Boolean) as Uint8Array[];
+
+  // Keep the JFIF APP0 segment first, as readers expect
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    insertAt = 4 + new DataView(bytes.buffer, bytes.byteOffset).getUint16(4);
+  }
+
+  return concatBytes([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+};
+
+const pngChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(textEncoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const writePngMetadata = (bytes: Uint8Array, raw: RawMetadata) => {
+  const chunks: Uint8Array[] = [];
+  if (raw.exif) chunks.push(pngChunk('eXIf', raw.exif));
+  if (raw.xmp) {
+    // Uncompressed iTXt with empty language and translated keyword
+    const header = textEncoder.encode(PNG_XMP_KEYWORD + '\0\0\0\0\0');
+    chunks.push(pngChunk('iTXt', concatBytes([header, textEncoder.encode(raw.xmp)])));
+  }
+
+  // Signature (8) + IHDR chunk (25)
+  const insertAt = 33;
+  return concatBytes([bytes.subarray(0, insertAt), ...chunks, bytes.subarray(insertAt)]);
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(textEncoder.encode(fourcc));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+const writeWebpMetadata = (bytes: Uint8Array, raw: RawMetadata, output: ConvertedOutput) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let body = bytes.subarray(12);
+  let vp8x: Uint8Array;
+
+  if (startsWith(body, 0, 'VP8X')) {
+    vp8x = body.slice(0, 18);
+    body = body.subarray(18);
+  } else {
+    // Simple (lossy VP8 / lossless VP8L) file: an extended header is required for metadata
+    vp8x = riffChunk('VP8X', new Uint8Array(10));
+    const vp8xView = new DataView(vp8x.buffer);
+    const isLosslessWithAlpha = startsWith(body, 0, 'VP8L') && ((view.getUint8(12 + 8 + 4) >> 4) & 1) === 1;
+    if (isLosslessWithAlpha) vp8x[8] |= 0x10;
+    vp8xView.setUint16(12, (output.width - 1) & 0xffff, true);
+    vp8x[14] = ((output.width - 1) >> 16) & 0xff;
+    vp8xView.setUint16(15, (output.height - 1) & 0xffff, true);
+    vp8x[17] = ((output.height - 1) >> 16) & 0xff;
+  }
+
+  const trailing: Uint8Array[] = [];
+  if (raw.exif) {
+    vp8x[8] |= 0x08;
+    trailing.push(riffChunk('EXIF', raw.exif));
+  }
+  if (raw.xmp) {
+    vp8x[8] |= 0x04;
+    trailing.push(riffChunk('XMP ', textEncoder.encode(raw.xmp)));
+  }
+
+  const riffBody = concatBytes([textEncoder.encode('WEBP'), vp8x, body, ...trailing]);
+  const result = concatBytes([textEncoder.encode('RIFF'), new Uint8Array(4), riffBody]);
+  new DataView(result.buffer).setUint32(4, riffBody.length, true);
+  return result;
+};
+
+const selectMetadata = (raw: RawMetadata, policy: MetadataPolicy): RawMetadata | null => {
+  switch (policy) {
+    case MetadataPolicy.KEEP_ALL:
+      return {
+        ...raw,
+        exif: raw.exif && sanitizeExif(raw.exif, false),
+        xmp: raw.xmp && resetXmpOrientation(raw.xmp)
+      };
+    case MetadataPolicy.STRIP_GPS:
+      return {
+        ...raw,
+        exif: raw.exif && sanitizeExif(raw.exif, true),
+        xmp: raw.xmp && resetXmpOrientation(stripXmpGps(raw.xmp))
+      };
+    case MetadataPolicy.KEEP_COPYRIGHT: {
+      const summary: ImageMetadata = { hasExif: false, hasXmp: false, hasIptc: false };
+      if (raw.exif) parseExif(raw.exif, summary);
+      const artist = summary.artist ?? (raw.xmp ? readXmpValue(raw.xmp, 'dc:creator') : undefined);
+      const copyright = summary.copyright ?? (raw.xmp ? readXmpValue(raw.xmp, 'dc:rights') : undefined);
+      if (!artist && !copyright) return null;
+      return {
+        exif: buildExif([[TAG_ARTIST, artist ?? ''], [TAG_COPYRIGHT, copyright ?? '']]),
+        xmp: null,
+        iptc: null,
+        icc: null
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Whether metadata can be written into outputs of the given MIME type.
+ */
+export const supportsMetadataOutput = (mimeType: string) =>
+  mimeType === 'image/jpeg' || mimeType === 'image/png' || mimeType === 'image/webp';
+
+/**
+ * Whether `policy` would remove anything from the source file itself, which is
+ * then not safe to ship untouched. Containers this module cannot read are
+ * assumed to carry metadata.
+ */
+export const hasMetadataToStrip = async (source: Blob, policy: MetadataPolicy): Promise<boolean> => {
+  if (policy === MetadataPolicy.KEEP_ALL) return false;
+  if (!supportsMetadataOutput(source.type)) return true;
+
+  const raw = await readRawMetadata(new Uint8Array(await source.arrayBuffer()));
+  if (policy === MetadataPolicy.STRIP_GPS) {
+    const summary: ImageMetadata = { hasExif: false, hasXmp: false, hasIptc: false };
+    if (raw.exif) parseExif(raw.exif, summary);
+    return !!summary.gps || (!!raw.xmp && /exif:GPS/.test(raw.xmp));
+  }
+  return !!(raw.exif || raw.xmp || raw.iptc);
+};
+
+/**
+ * Re-injects the metadata allowed by `policy` into every output of a conversion.
+ *
+ * The ICC profile is never copied: canvas decoding already converted the pixels
+ * to sRGB, so tagging them with the source profile would shift the colors.
+ * IPTC only has a standard container in JPEG and is dropped for other formats.
+ */
+export const applyMetadataPolicy = async (
+  result: ConversionResult,
+  source: Blob,
+  policy: MetadataPolicy
+): Promise<ConversionResult> => {
+  if (policy === MetadataPolicy.STRIP_ALL) return result;
+
+  const raw = await readRawMetadata(new Uint8Array(await source.arrayBuffer()));
+  const selected = selectMetadata(raw, policy);
+  if (!selected || (!selected.exif && !selected.xmp && !selected.iptc)) return result;
+
+  const dropped = new Set<string>();
+  const inject = async (output: ConvertedOutput): Promise<ConvertedOutput> => {
+    const type = output.blob.type;
+    if (!supportsMetadataOutput(type)) return output;
+
+    const bytes = new Uint8Array(await output.blob.arrayBuffer());
+    const written = type === 'image/jpeg'
+      ? writeJpegMetadata(bytes, selected, dropped)
+      : type === 'image/png'
+        ? writePngMetadata(bytes, selected)
+        : writeWebpMetadata(bytes, selected, output);
+    return { ...output, blob: new Blob([written], { type }) };
+  };
+
+  const main = await inject(result);
+  const variants = await Promise.all(result.variants.map(inject));
+  return {
+    ...result,
+    blob: main.blob,
+    variants,
+    ...(dropped.size > 0 && { metadataWarning: `Metadados acima de 64 KB não cabem em JPEG e foram descartados: ${[...dropped].join(', ')}` })
+  };
+};
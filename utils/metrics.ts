@@ -0,0 +1,104 @@
+/**
+ * Objective quality metrics between an original and its converted output.
+ * The math works on plain RGBA buffers so it also runs inside workers.
+ */
+
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray<ArrayBuffer>; // RGBA, same layout as ImageData
+}
+
+const SSIM_WINDOW = 8;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+const assertSameSize = (a: PixelBuffer, b: PixelBuffer) => {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Cannot compare ${a.width}x${a.height} with ${b.width}x${b.height}`);
+  }
+};
+
+// Rec. 601 luma, which is what most SSIM implementations compare
+const luma = (data: Uint8ClampedArray, offset: number) =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+
+/**
+ * Peak signal-to-noise ratio over the RGB channels, in dB.
+ * Returns Infinity for identical images.
+ */
+export const computePsnr = (a: PixelBuffer, b: PixelBuffer): number => {
+  assertSameSize(a, b);
+  let squaredError = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = a.data[i + c] - b.data[i + c];
+      squaredError += diff * diff;
+    }
+  }
+  const mse = squaredError / (a.width * a.height * 3);
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+};
+
+/**
+ * Mean structural similarity of the luma channel, computed over
+ * non-overlapping 8x8 windows. 1 means identical.
+ */
+export const computeSsim = (a: PixelBuffer, b: PixelBuffer): number => {
+  assertSameSize(a, b);
+  const { width, height } = a;
+  let total = 0;
+  let windows = 0;
+
+  for (let y = 0; y < height; y += SSIM_WINDOW) {
+    for (let x = 0; x < width; x += SSIM_WINDOW) {
+      const h = Math.min(SSIM_WINDOW, height - y);
+      const w = Math.min(SSIM_WINDOW, width - x);
+      const n = w * h;
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+
+      for (let wy = 0; wy < h; wy++) {
+        for (let wx = 0; wx < w; wx++) {
+          const offset = ((y + wy) * width + (x + wx)) * 4;
+          const la = luma(a.data, offset);
+          const lb = luma(b.data, offset);
+          sumA += la;
+          sumB += lb;
+          sumAA += la * la;
+          sumBB += lb * lb;
+          sumAB += la * lb;
+        }
+      }
+
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+
+  return windows === 0 ? 1 : total / windows;
+};
+
+/**
+ * Builds a heatmap of the per-pixel luma difference: black where the images
+ * match, through red to yellow where the error is largest.
+ */
+export const createDifferenceHeatmap = (a: PixelBuffer, b: PixelBuffer): PixelBuffer => {
+  assertSameSize(a, b);
+  const data = new Uint8ClampedArray(a.data.length);
+  for (let i = 0; i < a.data.length; i += 4) {
+    // Amplify small differences so compression artifacts become visible
+    const diff = Math.min(1, Math.abs(luma(a.data, i) - luma(b.data, i)) / 32);
+    data[i] = Math.round(255 * Math.min(1, diff * 2));
+    data[i + 1] = Math.round(255 * Math.max(0, diff * 2 - 1));
+    data[i + 2] = 0;
+    data[i + 3] = 255;
+  }
+  return { width: a.width, height: a.height, data };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { FileNameCase, NamingOptions, ProcessedImage, ProcessingStatus } from '../types';
+import { DEFAULT_NAMING_OPTIONS, NamingContext, buildFileName } from './naming';
+import { DEFAULT_SETTINGS } from './presets';
+
+// An 800x600 WebP converted at quality 0.8
+const convertedImage = (fileName: string, overrides: Partial<ProcessedImage> = {}): ProcessedImage => ({
+  id: fileName,
+  originalFile: new File([], fileName),
+  previewUrl: '',
+  convertedBlob: new Blob([], { type: 'image/webp' }),
+  convertedUrl: '',
+  status: ProcessingStatus.COMPLETED,
+  originalSize: 0,
+  convertedSize: 0,
+  convertedWidth: 800,
+  convertedHeight: 600,
+  variants: [],
+  chosenQuality: 0.8,
+  settings: DEFAULT_SETTINGS,
+  ...overrides
+});
+
+const context: NamingContext = { index: 3, date: new Date(2024, 0, 5) };
+
+const options = (overrides: Partial<NamingOptions>): NamingOptions => ({ ...DEFAULT_NAMING_OPTIONS, ...overrides });
+
+describe('buildFileName', () => {
+  const image = convertedImage('Foto Praia.final.JPG', { altText: 'Pôr do sol na praia' });
+
+  it('applies the default template with the output extension', () => {
+    expect(buildFileName(image, context, DEFAULT_NAMING_OPTIONS)).toBe('Foto Praia.final_opti.webp');
+  });
+
+  it('replaces every token and leaves unknown ones as they are', () => {
+    const name = buildFileName(image, context, options({ template: '{index}-{alt-slug}-{width}x{height}-q{quality}-{date}-{other}' }));
+    expect(name).toBe('3-por-do-sol-na-praia-800x600-q80-2024-01-05-{other}.webp');
+  });
+
+  it('falls back to the default template when the template is blank', () => {
+    expect(buildFileName(image, context, options({ template: '  ' }))).toBe('Foto Praia.final_opti.webp');
+  });
+
+  it('suffixes variants with their width unless the template already has it', () => {
+    const withVariant = convertedImage('banner.png', {
+      variants: [{ width: 320, height: 240, blob: new Blob([], { type: 'image/avif' }), url: 'blob:v', size: 0 }]
+    });
+    const variantContext = { ...context, variantWidth: 320 };
+    expect(buildFileName(withVariant, variantContext, DEFAULT_NAMING_OPTIONS)).toBe('banner_opti_320w.avif');
+    expect(buildFileName(withVariant, variantContext, options({ template: '{name}-{width}' }))).toBe('banner-320.avif');
+  });
+
+  it('replaces characters file systems reject', () => {
+    expect(buildFileName(image, context, options({ template: 'a/b:c*{index}' }))).toBe('a-b-c-3.webp');
+  });
+
+  it('transliterates and changes the case when asked', () => {
+    const accented = convertedImage('Ação Única.jpg');
+    expect(buildFileName(accented, context, options({ template: '{name}', transliterate: true, case: FileNameCase.KEBAB })))
+      .toBe('acao-unica.webp');
+    expect(buildFileName(accented, context, options({ template: '{name}', case: FileNameCase.LOWER }))).toBe('ação única.webp');
+  });
+
+  it('never produces an empty name', () => {
+    expect(buildFileName(image, context, options({ template: '...' }))).toBe('imagem.webp');
+  });
+});
@@ -0,0 +1,78 @@
+import { FileNameCase, NamingOptions, ProcessedImage } from '../types';
+import { getBlobExtension } from './pipeline';
+import { slugify, transliterate } from './slug';
+
+export const DEFAULT_NAMING_OPTIONS: NamingOptions = {
+  template: '{name}_opti',
+  transliterate: false,
+  case: FileNameCase.ORIGINAL
+};
+
+export const NAMING_TOKENS: { token: string; description: string }[] = [
+  { token: '{name}', description: 'Nome do arquivo original' },
+  { token: '{alt-slug}', description: 'Alt text em formato de slug' },
+  { token: '{width}', description: 'Largura em px' },
+  { token: '{height}', description: 'Altura em px' },
+  { token: '{format}', description: 'Extensão (webp, avif, jpg…)' },
+  { token: '{quality}', description: 'Qualidade usada (0-100)' },
+  { token: '{index}', description: 'Posição na lista, a partir de 1' },
+  { token: '{date}', description: 'Data da exportação (AAAA-MM-DD)' }
+];
+
+export interface NamingContext {
+  index: number; // 1-based position of the image in the export
+  date: Date;
+  variantWidth?: number; // Responsive variant being named, if any
+}
+
+const formatDate = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(n => String(n).padStart(2, '0')).join('-');
+
+// Characters rejected by Windows/macOS file systems, plus control characters
+const INVALID_FILENAME_CHARS = /[\\/:*?"<>|\u0000-\u001f]+/g;
+
+const applyCase = (text: string, nameCase: FileNameCase) => {
+  switch (nameCase) {
+    case FileNameCase.LOWER:
+      return text.toLowerCase();
+    case FileNameCase.KEBAB:
+      return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+    default:
+      return text;
+  }
+};
+
+/**
+ * File name (with extension) for an image or one of its responsive variants,
+ * following the naming template. Variants get a `_{width}w` suffix when the
+ * template does not use `{width}` itself, so they never collide with the main file.
+ */
+export const buildFileName = (image: ProcessedImage, context: NamingContext, options: NamingOptions): string => {
+  const variant = context.variantWidth !== undefined
+    ? image.variants.find(v => v.width === context.variantWidth)
+    : undefined;
+  const blob = variant?.blob ?? image.convertedBlob;
+  const ext = blob ? getBlobExtension(blob) : 'bin';
+  const name = image.originalFile.name.replace(/\.[^/.]+$/, "");
+
+  const values: Record<string, string> = {
+    name,
+    'alt-slug': slugify(image.altText ?? '') || image.textSuggestions?.filename || slugify(name),
+    width: String(variant?.width ?? image.convertedWidth),
+    height: String(variant?.height ?? image.convertedHeight),
+    format: ext,
+    quality: String(Math.round((image.chosenQuality ?? image.settings.quality) * 100)),
+    index: String(context.index),
+    date: formatDate(context.date)
+  };
+
+  let template = options.template.trim() || DEFAULT_NAMING_OPTIONS.template;
+  if (variant && !template.includes('{width}')) template += '_{width}w';
+
+  let baseName = template.replace(/\{([a-z-]+)\}/g, (match, token: string) => values[token] ?? match);
+  baseName = baseName.replace(INVALID_FILENAME_CHARS, '-');
+  if (options.transliterate) baseName = transliterate(baseName);
+  baseName = applyCase(baseName, options.case).replace(/^[\s.]+|[\s.]+$/g, '');
+
+  return `${baseName || 'imagem'}.${ext}`;
+};
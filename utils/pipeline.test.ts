@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { ConversionSettings, EncoderPreference, ImageFormat, MetadataPolicy, QualityMode, ResizeFit, ResizeSettings } from '../types';
+import { ConversionBackend, computeOutputGeometry, parseWidthList, runConversion } from './pipeline';
+import { DEFAULT_SETTINGS } from './presets';
+
+// Canvas stand-in whose outputs are `size` bytes of the requested format
+const fixedSizeBackend = (size: number): ConversionBackend => ({
+  render: async (_geometry, format) => new Blob([new Uint8Array(size)], { type: format }),
+  supportsNative: async () => true,
+  rasterize: async () => { throw new Error('not used'); },
+  decode: async () => { throw new Error('not used'); }
+});
+
+// Canvas stand-in whose output size grows with the quality and the pixel count: 10000 bytes at 100x100, quality 1
+const qualitySizedBackend: ConversionBackend = {
+  render: async (geometry, format, quality) =>
+    new Blob([new Uint8Array(Math.round(quality * geometry.width * geometry.height))], { type: format }),
+  supportsNative: async () => true,
+  rasterize: async () => { throw new Error('not used'); },
+  decode: async () => { throw new Error('not used'); }
+};
+
+// Minimal JPEG: SOI, an optional APP1 XMP segment, EOI
+const jpegWithXmp = (xmp?: string) => {
+  const parts: number[] = [0xff, 0xd8];
+  if (xmp) {
+    const payload = new TextEncoder().encode(`http://ns.adobe.com/xap/1.0/\0${xmp}`);
+    parts.push(0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload);
+  }
+  parts.push(0xff, 0xd9);
+  return new Blob([new Uint8Array(parts)], { type: ImageFormat.JPEG });
+};
+
+describe('runConversion with keepOriginal', () => {
+  const settings = (metadataPolicy: MetadataPolicy): ConversionSettings =>
+    ({ ...DEFAULT_SETTINGS, format: ImageFormat.JPEG, encoder: EncoderPreference.NATIVE, keepOriginal: true, metadataPolicy });
+  const gps = '<x:xmpmeta exif:GPSLatitude="48,51.4N"/>';
+
+  it('keeps a source the policy would leave untouched when the conversion is not smaller', async () => {
+    const source = jpegWithXmp();
+    const result = await runConversion(source, 10, 10, settings(MetadataPolicy.STRIP_ALL), fixedSizeBackend(5000));
+    expect(result.keptOriginal).toBe(true);
+    expect(result.blob).toBe(source);
+  });
+
+  it('keeps every metadata under KEEP_ALL', async () => {
+    const source = jpegWithXmp(gps);
+    const result = await runConversion(source, 10, 10, settings(MetadataPolicy.KEEP_ALL), fixedSizeBackend(5000));
+    expect(result.blob).toBe(source);
+  });
+
+  it('does not ship metadata the policy removes', async () => {
+    for (const policy of [MetadataPolicy.STRIP_ALL, MetadataPolicy.STRIP_GPS]) {
+      const result = await runConversion(jpegWithXmp(gps), 10, 10, settings(policy), fixedSizeBackend(5000));
+      expect(result.keptOriginal).toBeUndefined();
+      expect(result.formatReason).toContain('Original não mantido');
+    }
+  });
+
+  it('keeps the source under STRIP_GPS when it has no location', async () => {
+    const source = jpegWithXmp('<x:xmpmeta dc:creator="Ana"/>');
+    const result = await runConversion(source, 10, 10, settings(MetadataPolicy.STRIP_GPS), fixedSizeBackend(5000));
+    expect(result.blob).toBe(source);
+  });
+
+  it('does not keep a source whose metadata cannot be read', async () => {
+    const source = new Blob([new Uint8Array(10)], { type: 'image/gif' });
+    const result = await runConversion(source, 10, 10, settings(MetadataPolicy.STRIP_ALL), fixedSizeBackend(5000));
+    expect(result.keptOriginal).toBeUndefined();
+  });
+
+  it('does not keep the source when the output is resized', async () => {
+    const resized = { ...settings(MetadataPolicy.KEEP_ALL), resize: { ...DEFAULT_SETTINGS.resize, maxWidth: 5 } };
+    const result = await runConversion(jpegWithXmp(), 10, 10, resized, fixedSizeBackend(5000));
+    expect(result.keptOriginal).toBeUndefined();
+    expect(result.width).toBe(5);
+  });
+});
+
+describe('runConversion in target size mode', () => {
+  const settings = (targetSize: number, allowDownscale = false): ConversionSettings => ({
+    ...DEFAULT_SETTINGS,
+    format: ImageFormat.JPEG,
+    encoder: EncoderPreference.NATIVE,
+    metadataPolicy: MetadataPolicy.STRIP_ALL,
+    qualityMode: QualityMode.TARGET_SIZE,
+    targetSize,
+    allowDownscale
+  });
+  const source = jpegWithXmp();
+
+  it('uses full quality when it fits', async () => {
+    const result = await runConversion(source, 100, 100, settings(20000), qualitySizedBackend);
+    expect(result).toMatchObject({ quality: 1, targetMet: true });
+  });
+
+  it('finds the highest quality within the budget', async () => {
+    const result = await runConversion(source, 100, 100, settings(5000), qualitySizedBackend);
+    expect(result.targetMet).toBe(true);
+    expect(result.blob.size).toBeLessThanOrEqual(5000);
+    expect(result.quality).toBeGreaterThanOrEqual(0.45);
+  });
+
+  it('returns the minimum quality, unmet, when nothing fits', async () => {
+    const result = await runConversion(source, 100, 100, settings(500), qualitySizedBackend);
+    expect(result).toMatchObject({ quality: 0.1, targetMet: false, width: 100 });
+  });
+
+  it('downscales until the budget is met when allowed', async () => {
+    const result = await runConversion(source, 100, 100, settings(500, true), qualitySizedBackend);
+    expect(result.targetMet).toBe(true);
+    expect(result.width).toBeLessThan(100);
+    expect(result.blob.size).toBeLessThanOrEqual(500);
+  });
+});
+
+describe('computeOutputGeometry', () => {
+  const resize = (values: Partial<ResizeSettings>): ResizeSettings => ({ ...DEFAULT_SETTINGS.resize, ...values });
+
+  it('keeps the source size without limits', () => {
+    expect(computeOutputGeometry(4000, 3000, resize({}))).toEqual({ width: 4000, height: 3000, sx: 0, sy: 0, sw: 4000, sh: 3000 });
+  });
+
+  it('fits inside the box without upscaling', () => {
+    expect(computeOutputGeometry(4000, 3000, resize({ maxWidth: 1000, maxHeight: 1000 }))).toMatchObject({ width: 1000, height: 750 });
+    expect(computeOutputGeometry(4000, 3000, resize({ maxHeight: 300 }))).toMatchObject({ width: 400, height: 300 });
+    expect(computeOutputGeometry(500, 400, resize({ maxWidth: 1000 }))).toMatchObject({ width: 500, height: 400 });
+  });
+
+  it('crops the center to fill a COVER box', () => {
+    expect(computeOutputGeometry(4000, 3000, resize({ maxWidth: 1200, maxHeight: 630, fit: ResizeFit.COVER })))
+      .toEqual({ width: 1200, height: 630, sx: 0, sy: 450, sw: 4000, sh: 2100 });
+    // A source smaller than the box is cropped to its ratio but not enlarged
+    expect(computeOutputGeometry(800, 600, resize({ maxWidth: 1200, maxHeight: 630, fit: ResizeFit.COVER })))
+      .toEqual({ width: 800, height: 420, sx: 0, sy: 90, sw: 800, sh: 420 });
+  });
+
+  it('treats COVER with a single side like CONTAIN', () => {
+    expect(computeOutputGeometry(4000, 3000, resize({ maxWidth: 1000, fit: ResizeFit.COVER })))
+      .toEqual({ width: 1000, height: 750, sx: 0, sy: 0, sw: 4000, sh: 3000 });
+  });
+
+  it('stretches and upscales to an EXACT box', () => {
+    expect(computeOutputGeometry(100, 100, resize({ maxWidth: 300, maxHeight: 200, fit: ResizeFit.EXACT }))).toMatchObject({ width: 300, height: 200 });
+    expect(computeOutputGeometry(4000, 3000, resize({ maxWidth: 100, fit: ResizeFit.EXACT }))).toMatchObject({ width: 100, height: 75 });
+  });
+});
+
+describe('parseWidthList', () => {
+  it('sorts, de-duplicates and drops invalid widths', () => {
+    expect(parseWidthList('1280, 320 640;320 abc -5 0')).toEqual([320, 640, 1280]);
+    expect(parseWidthList('')).toEqual([]);
+  });
+});
@@ -0,0 +1,591 @@
+import {
+  ConversionErrorKind,
+  ConversionSettings,
+  EncoderPreference,
+  ImageFormat,
+  QualityMode,
+  ResizeFit,
+  ResizeSettings
+} from '../types';
+import { PixelBuffer, computeSsim } from './metrics';
+import { applyMetadataPolicy, hasMetadataToStrip } from './metadata';
+import {
+  ANIMATED_WEBP_ENCODER_LABEL,
+  NATIVE_ENCODER_LABEL,
+  encodeAnimatedWebp,
+  getWasmEncoder,
+  requiresWasmEncoder
+} from './encoders';
+import { isWatermarkActive } from './watermark';
+import { ConversionError } from './conversionErrors';
+
+/**
+ * Environment-agnostic conversion pipeline: geometry, quality searches, Auto
+ * format and the keep-original rule. Decoding and drawing come from a
+ * ConversionBackend, so the same code runs in the browser, in workers and in Node.
+ */
+
+export const formatBytes = (bytes: number, decimals = 2) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const dm = decimals < 0 ? 0 : decimals;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
+};
+
+/**
+ * Uses the ACTUAL blob type for the extension to avoid corrupted files if a browser fallback occurred.
+ */
+export const getBlobExtension = (blob: Blob) => {
+  const ext = blob.type.split('/')[1] || 'bin';
+  return ext === 'jpeg' ? 'jpg' : ext;
+};
+
+export interface ConvertedOutput {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface ConversionResult extends ConvertedOutput {
+  variants: ConvertedOutput[];
+  quality: number; // Quality used for every output
+  targetMet: boolean; // Always true in FIXED mode
+  encoder: string; // Label of the encoder that actually ran
+  formatReason?: string; // Why Auto picked this format, or why the original was kept
+  keptOriginal?: boolean; // `blob` is the untouched source file
+  frameCount?: number; // Set when the output is animated
+  metadataWarning?: string; // Metadata the policy kept but the output could not hold
+}
+
+export interface RenderGeometry {
+  width: number;
+  height: number;
+  // Source rectangle to sample from (used by COVER cropping)
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+}
+
+/**
+ * Computes the output size and source crop for the given resize settings.
+ * Images are never upscaled beyond their natural size, except in EXACT mode.
+ */
+export const computeOutputGeometry = (
+  srcWidth: number,
+  srcHeight: number,
+  resize: ResizeSettings
+): RenderGeometry => {
+  const { maxWidth, maxHeight, fit } = resize;
+  const geometry: RenderGeometry = {
+    width: srcWidth,
+    height: srcHeight,
+    sx: 0,
+    sy: 0,
+    sw: srcWidth,
+    sh: srcHeight
+  };
+
+  if (!maxWidth && !maxHeight) return geometry;
+
+  if (fit === ResizeFit.EXACT) {
+    geometry.width = maxWidth ?? Math.round(srcWidth * (maxHeight! / srcHeight));
+    geometry.height = maxHeight ?? Math.round(srcHeight * (maxWidth! / srcWidth));
+    return geometry;
+  }
+
+  if (fit === ResizeFit.COVER && maxWidth && maxHeight) {
+    // Crop the source to the box aspect ratio, centered
+    const boxRatio = maxWidth / maxHeight;
+    if (srcWidth / srcHeight > boxRatio) {
+      geometry.sw = Math.round(srcHeight * boxRatio);
+      geometry.sx = Math.round((srcWidth - geometry.sw) / 2);
+    } else {
+      geometry.sh = Math.round(srcWidth / boxRatio);
+      geometry.sy = Math.round((srcHeight - geometry.sh) / 2);
+    }
+    const scale = Math.min(1, maxWidth / geometry.sw);
+    geometry.width = Math.max(1, Math.round(geometry.sw * scale));
+    geometry.height = Math.max(1, Math.round(geometry.sh * scale));
+    return geometry;
+  }
+
+  // CONTAIN (and COVER with a single constraint)
+  const scale = Math.min(
+    1,
+    maxWidth ? maxWidth / srcWidth : Infinity,
+    maxHeight ? maxHeight / srcHeight : Infinity
+  );
+  geometry.width = Math.max(1, Math.round(srcWidth * scale));
+  geometry.height = Math.max(1, Math.round(srcHeight * scale));
+  return geometry;
+};
+
+/**
+ * Parses a comma/space separated list of widths ("320, 640 1280") into
+ * a sorted, de-duplicated array of positive integers.
+ */
+export const parseWidthList = (value: string): number[] => {
+  const widths = value
+    .split(/[\s,;]+/)
+    .map(v => parseInt(v, 10))
+    .filter(v => Number.isFinite(v) && v > 0);
+  return Array.from(new Set(widths)).sort((a, b) => a - b);
+};
+
+/**
+ * Background to flatten transparency onto, for output formats without an alpha channel.
+ */
+export const getFlattenBackground = (settings: ConversionSettings): string | undefined =>
+  settings.format === ImageFormat.JPEG ? settings.backgroundColor : undefined;
+
+export const fullGeometry = (width: number, height: number): RenderGeometry => ({
+  width, height, sx: 0, sy: 0, sw: width, sh: height
+});
+
+/**
+ * Draws the source into a canvas of the given geometry and encodes it.
+ */
+export type RenderFn = (
+  geometry: RenderGeometry,
+  format: ImageFormat,
+  quality: number,
+  background?: string
+) => Promise<Blob>;
+
+/**
+ * Environment-specific image operations used by the pipeline.
+ * Implemented with a DOM canvas on the main thread, OffscreenCanvas in workers
+ * and plain pixel buffers in the CLI.
+ */
+export interface ConversionBackend {
+  render: RenderFn;
+  // Whether the canvas can really encode `format` (instead of falling back to PNG)
+  supportsNative: (format: ImageFormat) => Promise<boolean>;
+  // Pixels of the source drawn at `geometry`, used as the SSIM reference
+  rasterize: (geometry: RenderGeometry, background?: string) => Promise<PixelBuffer>;
+  // Decodes an encoded output back into pixels
+  decode: (blob: Blob) => Promise<PixelBuffer>;
+  // Animated sources only; the other members draw the first frame
+  animation?: BackendAnimation;
+}
+
+export interface BackendAnimation {
+  durations: number[]; // Display time of each frame, in ms
+  // Pixels of frame `index` drawn at `geometry`, like `rasterize`
+  rasterizeFrame: (index: number, geometry: RenderGeometry, background?: string) => Promise<PixelBuffer>;
+}
+
+const MIN_QUALITY = 0.1;
+const QUALITY_SEARCH_STEPS = 6;
+const MAX_DOWNSCALE_STEPS = 6;
+
+// Encodes the source at `geometry` with the encoder selected for the conversion
+type EncodeFn = (geometry: RenderGeometry, quality: number) => Promise<Blob>;
+
+interface SelectedEncoder {
+  label: string;
+  encode: EncodeFn;
+}
+
+interface EncodedCandidate {
+  blob: Blob;
+  quality: number;
+  fits: boolean;
+}
+
+/**
+ * Binary-searches the highest quality whose output fits in `budget` bytes.
+ * Returns the minimum-quality encoding (with fits = false) when nothing fits.
+ */
+const encodeWithinBudget = async (
+  geometry: RenderGeometry,
+  budget: number,
+  encode: EncodeFn
+): Promise<EncodedCandidate> => {
+  const top = await encode(geometry, 1);
+  if (top.size <= budget) return { blob: top, quality: 1, fits: true };
+
+  const bottom = await encode(geometry, MIN_QUALITY);
+  if (bottom.size > budget) return { blob: bottom, quality: MIN_QUALITY, fits: false };
+
+  let best: EncodedCandidate = { blob: bottom, quality: MIN_QUALITY, fits: true };
+  let low = MIN_QUALITY;
+  let high = 1;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = Math.round(((low + high) / 2) * 100) / 100;
+    if (quality <= low || quality >= high) break;
+
+    const blob = await encode(geometry, quality);
+    if (blob.size <= budget) {
+      best = { blob, quality, fits: true };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  return best;
+};
+
+/**
+ * Binary-searches the lowest quality whose decoded output keeps SSIM >= `minSsim`
+ * against the source. Returns quality 1 (with fits = false) when nothing qualifies.
+ */
+const encodeAboveSsim = async (
+  geometry: RenderGeometry,
+  minSsim: number,
+  encode: EncodeFn,
+  backend: ConversionBackend,
+  background?: string
+): Promise<EncodedCandidate> => {
+  const reference = await backend.rasterize(geometry, background);
+  const measure = async (quality: number) => {
+    const blob = await encode(geometry, quality);
+    const ssim = computeSsim(reference, await backend.decode(blob));
+    return { blob, quality, fits: ssim >= minSsim };
+  };
+
+  const bottom = await measure(MIN_QUALITY);
+  if (bottom.fits) return bottom;
+
+  let best = await measure(1);
+  if (!best.fits) return best;
+
+  let low = MIN_QUALITY;
+  let high = 1;
+  for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+    const quality = Math.round(((low + high) / 2) * 100) / 100;
+    if (quality <= low || quality >= high) break;
+
+    const candidate = await measure(quality);
+    if (candidate.fits) {
+      best = candidate;
+      high = quality;
+    } else {
+      low = quality;
+    }
+  }
+  return best;
+};
+
+/**
+ * Picks the native canvas encoder or a WASM encoder according to the settings
+ * and what the environment can actually encode.
+ */
+const selectEncoder = async (
+  settings: ConversionSettings,
+  backend: ConversionBackend
+): Promise<SelectedEncoder> => {
+  const { format } = settings;
+  const background = getFlattenBackground(settings);
+  const wasm = getWasmEncoder(format);
+  const useWasm = !!wasm && (
+    settings.encoder === EncoderPreference.WASM ||
+    (settings.encoder === EncoderPreference.AUTO &&
+      (requiresWasmEncoder(settings) || !(await backend.supportsNative(format))))
+  );
+
+  if (!useWasm) {
+    return {
+      label: NATIVE_ENCODER_LABEL,
+      encode: (geometry, quality) => backend.render(geometry, format, quality, background)
+    };
+  }
+
+  // Quality searches encode the same geometry repeatedly; rasterize it once
+  let cached: { key: string; pixels: PixelBuffer } | null = null;
+  return {
+    label: wasm.label,
+    encode: async (geometry, quality) => {
+      const key = JSON.stringify(geometry);
+      if (cached?.key !== key) {
+        cached = { key, pixels: await backend.rasterize(geometry, background) };
+      }
+      return wasm.encode(cached.pixels, quality, settings);
+    }
+  };
+};
+
+/**
+ * Encodes every frame of the backend's animation into an animated WebP.
+ */
+const selectAnimationEncoder = (animation: BackendAnimation, settings: ConversionSettings): SelectedEncoder => {
+  // Like selectEncoder, rasterizes the frames once per geometry
+  let cached: { key: string; frames: PixelBuffer[] } | null = null;
+  return {
+    label: ANIMATED_WEBP_ENCODER_LABEL,
+    encode: async (geometry, quality) => {
+      const key = JSON.stringify(geometry);
+      if (cached?.key !== key) {
+        cached = null; // Frees the previous frames first
+        const frames: PixelBuffer[] = [];
+        for (let index = 0; index < animation.durations.length; index++) {
+          frames.push(await animation.rasterizeFrame(index, geometry));
+        }
+        cached = { key, frames };
+      }
+      return encodeAnimatedWebp(cached.frames, animation.durations, quality, settings);
+    }
+  };
+};
+
+/**
+ * Environment-independent part of the conversion: computes the main output and
+ * every responsive variant, delegating drawing/encoding to the backend and encoders.
+ * @param selected Encoder to use instead of the one picked from the settings
+ */
+export const runConversionPipeline = async (
+  srcWidth: number,
+  srcHeight: number,
+  settings: ConversionSettings,
+  backend: ConversionBackend,
+  selected?: SelectedEncoder
+): Promise<ConversionResult> => {
+  const { resize } = settings;
+  const encoder = selected ?? await selectEncoder(settings, backend);
+  const { encode } = encoder;
+
+  let main = computeOutputGeometry(srcWidth, srcHeight, resize);
+  let quality = settings.quality;
+  let targetMet = true;
+  let blob: Blob;
+
+  if (settings.qualityMode === QualityMode.TARGET_SIZE) {
+    let candidate = await encodeWithinBudget(main, settings.targetSize, encode);
+
+    // Shrink proportionally to the overshoot until the budget is met
+    for (let step = 0; !candidate.fits && settings.allowDownscale && step < MAX_DOWNSCALE_STEPS; step++) {
+      const scale = Math.max(0.5, Math.min(0.95, Math.sqrt(settings.targetSize / candidate.blob.size)));
+      const width = Math.round(main.width * scale);
+      if (width < 16) break;
+      main = { ...main, width, height: Math.max(1, Math.round(main.height * scale)) };
+      candidate = await encodeWithinBudget(main, settings.targetSize, encode);
+    }
+
+    blob = candidate.blob;
+    quality = candidate.quality;
+    targetMet = candidate.fits;
+  } else if (settings.qualityMode === QualityMode.MIN_SSIM) {
+    const candidate = await encodeAboveSsim(main, settings.minSsim, encode, backend, getFlattenBackground(settings));
+    blob = candidate.blob;
+    quality = candidate.quality;
+    targetMet = candidate.fits;
+  } else {
+    blob = await encode(main, quality);
+  }
+
+  // Responsive variants share the main crop and are only generated below the main width
+  const variants: ConvertedOutput[] = [];
+  for (const width of resize.targetWidths) {
+    if (width >= main.width) continue;
+    const geometry = {
+      ...main,
+      width,
+      height: Math.max(1, Math.round(main.height * (width / main.width)))
+    };
+    variants.push({
+      blob: await encode(geometry, quality),
+      width: geometry.width,
+      height: geometry.height
+    });
+  }
+
+  // Browsers that cannot encode a format silently return PNG from the canvas
+  const label = blob.type === settings.format
+    ? encoder.label
+    : `${encoder.label} → ${getBlobExtension(blob).toUpperCase()} (fallback)`;
+
+  return { blob, width: main.width, height: main.height, variants, quality, targetMet, encoder: label };
+};
+
+// Formats tried by the Auto mode, in order of preference on equal size
+export const AUTO_FORMAT_CANDIDATES = [ImageFormat.AVIF, ImageFormat.WEBP, ImageFormat.JPEG];
+
+const formatLabel = (format: string) => format.split('/')[1].toUpperCase();
+
+export const hasTransparency = (pixels: PixelBuffer) => {
+  for (let i = 3; i < pixels.data.length; i += 4) {
+    if (pixels.data[i] < 255) return true;
+  }
+  return false;
+};
+
+/**
+ * Encodes every Auto candidate and keeps the smallest one that is smaller than
+ * the source and keeps SSIM >= `settings.minSsim`. The result explains the choice
+ * in `formatReason`; when nothing qualifies the smallest output is returned with
+ * `targetMet = false`.
+ */
+const runAutoFormatPipeline = async (
+  source: Blob,
+  srcWidth: number,
+  srcHeight: number,
+  settings: ConversionSettings,
+  backend: ConversionBackend
+): Promise<ConversionResult> => {
+  const crop = computeOutputGeometry(srcWidth, srcHeight, settings.resize);
+  // JPEG would silently flatten transparent areas
+  const transparent = hasTransparency(await backend.rasterize(crop));
+
+  const accepted: ConversionResult[] = [];
+  const rejected: ConversionResult[] = [];
+  const notes: string[] = [];
+
+  for (const format of AUTO_FORMAT_CANDIDATES) {
+    const label = formatLabel(format);
+    if (format === ImageFormat.JPEG && transparent) {
+      notes.push(`${label}: transparência`);
+      continue;
+    }
+
+    const candidateSettings = { ...settings, format };
+    try {
+      const result = await runConversionPipeline(srcWidth, srcHeight, candidateSettings, backend);
+      if (result.blob.type !== format) {
+        notes.push(`${label}: sem encoder`);
+        continue;
+      }
+
+      const geometry = { ...crop, width: result.width, height: result.height };
+      const reference = await backend.rasterize(geometry, getFlattenBackground(candidateSettings));
+      const ssim = computeSsim(reference, await backend.decode(result.blob));
+
+      if (result.blob.size >= source.size) {
+        notes.push(`${label}: ${formatBytes(result.blob.size)} ≥ original`);
+        rejected.push(result);
+      } else if (ssim < settings.minSsim) {
+        notes.push(`${label}: SSIM ${ssim.toFixed(3)}`);
+        rejected.push(result);
+      } else {
+        notes.push(`${label}: ${formatBytes(result.blob.size)}, SSIM ${ssim.toFixed(3)}`);
+        accepted.push(result);
+      }
+    } catch (error) {
+      notes.push(`${label}: ${error instanceof Error ? error.message : 'falhou'}`);
+    }
+  }
+
+  const smallest = (results: ConversionResult[]) =>
+    results.reduce((best, r) => (r.blob.size < best.blob.size ? r : best));
+
+  if (accepted.length > 0) {
+    const best = smallest(accepted);
+    return {
+      ...best,
+      formatReason: `${formatLabel(best.blob.type)} é o menor que atende SSIM ≥ ${settings.minSsim} (${notes.join(' · ')})`
+    };
+  }
+  if (rejected.length > 0) {
+    return {
+      ...smallest(rejected),
+      targetMet: false,
+      formatReason: `Nenhum formato atende aos critérios (${notes.join(' · ')})`
+    };
+  }
+  throw new ConversionError(ConversionErrorKind.ENCODER_UNSUPPORTED, `Nenhum formato disponível (${notes.join(' · ')})`);
+};
+
+/**
+ * Animated sources keep their animation as WebP, the only animated format we can
+ * encode; Auto picks it. Other formats get the first frame, with a note.
+ */
+const runAnimatedConversion = async (
+  srcWidth: number,
+  srcHeight: number,
+  settings: ConversionSettings,
+  backend: ConversionBackend,
+  animation: BackendAnimation
+): Promise<ConversionResult> => {
+  const frameCount = animation.durations.length;
+  if (!settings.autoFormat && settings.format !== ImageFormat.WEBP) {
+    const still = await runConversionPipeline(srcWidth, srcHeight, settings, backend);
+    return {
+      ...still,
+      formatReason: `Só o primeiro de ${frameCount} quadros foi convertido: a animação é mantida apenas em WebP`
+    };
+  }
+
+  const webpSettings = { ...settings, format: ImageFormat.WEBP, autoFormat: false };
+  const result = await runConversionPipeline(srcWidth, srcHeight, webpSettings, backend, selectAnimationEncoder(animation, webpSettings));
+  return {
+    ...result,
+    frameCount,
+    formatReason: settings.autoFormat ? 'WebP é o único formato animado disponível' : undefined
+  };
+};
+
+/**
+ * Re-encodes the responsive variants in the format of the kept source, so the
+ * srcset never mixes formats. Null when that format cannot be encoded (GIF,
+ * TIFF, HEIC…): the converted output is kept instead.
+ */
+const encodeVariantsLike = async (
+  source: Blob,
+  srcWidth: number,
+  srcHeight: number,
+  variants: ConvertedOutput[],
+  settings: ConversionSettings,
+  backend: ConversionBackend
+): Promise<ConvertedOutput[] | null> => {
+  if (variants.length === 0) return [];
+  const format = Object.values(ImageFormat).find(f => f === source.type);
+  if (!format) return null;
+
+  const { encode } = backend.animation
+    ? selectAnimationEncoder(backend.animation, settings)
+    : await selectEncoder({ ...settings, format, autoFormat: false }, backend);
+  const output: ConvertedOutput[] = [];
+  // The kept source is uncropped, so variants sample all of it
+  for (const { width, height } of variants) {
+    output.push({ blob: await encode({ ...fullGeometry(srcWidth, srcHeight), width, height }, settings.quality), width, height });
+  }
+  return output;
+};
+
+/**
+ * Full conversion of the `source` file, whose decoded pixels the backend draws:
+ * single format or Auto, metadata policy, then the untouched source when requested
+ * and the conversion does not beat it. Shared by the worker and the main-thread fallback.
+ * @param edited The backend draws a cropped/rotated copy, so the source cannot be kept
+ */
+export const runConversion = async (
+  source: Blob,
+  srcWidth: number,
+  srcHeight: number,
+  settings: ConversionSettings,
+  backend: ConversionBackend,
+  edited = false
+): Promise<ConversionResult> => {
+  const converted = backend.animation
+    ? await runAnimatedConversion(srcWidth, srcHeight, settings, backend, backend.animation)
+    : settings.autoFormat
+      ? await runAutoFormatPipeline(source, srcWidth, srcHeight, settings, backend)
+      : await runConversionPipeline(srcWidth, srcHeight, settings, backend);
+  const result = await applyMetadataPolicy(converted, source, settings.metadataPolicy);
+
+  // Only an output framed exactly like the source can be replaced by it
+  const sameGeometry = !edited && result.width === srcWidth && result.height === srcHeight;
+  if (!settings.keepOriginal || !sameGeometry || isWatermarkActive(settings.watermark) || result.blob.size < source.size) {
+    return result;
+  }
+  // The source is shipped byte for byte, so only when the policy would leave it as it is
+  if (await hasMetadataToStrip(source, settings.metadataPolicy)) {
+    const reason = 'Original não mantido: tem metadados que a política remove';
+    return { ...result, formatReason: result.formatReason ? `${result.formatReason} · ${reason}` : reason };
+  }
+  const variants = await encodeVariantsLike(source, srcWidth, srcHeight, result.variants, settings, backend);
+  if (!variants) return result;
+
+  return {
+    ...result,
+    blob: source,
+    variants,
+    encoder: 'Original',
+    keptOriginal: true,
+    metadataWarning: undefined,
+    formatReason: `Conversão (${formatBytes(result.blob.size)}) não ficou menor que o original`
+  };
+};
+
@@ -0,0 +1,114 @@
+import type { PixelBuffer } from './metrics';
+import type { RenderGeometry } from './pipeline';
+
+/**
+ * Canvas-free drawing on RGBA buffers, for environments without a 2D context
+ * (the CLI). Mirrors what drawToCanvas does with drawImage.
+ */
+
+interface Contribution {
+  start: number; // First source index
+  weights: Float32Array; // Normalized weights from `start` on
+}
+
+// Box filter when shrinking (every covered pixel counts), bilinear when enlarging
+const computeContributions = (offset: number, span: number, size: number, limit: number): Contribution[] => {
+  const scale = span / size;
+  const contributions: Contribution[] = [];
+
+  for (let o = 0; o < size; o++) {
+    if (scale > 1) {
+      const from = offset + o * scale;
+      const to = Math.min(limit, from + scale);
+      const start = Math.floor(from);
+      const weights = new Float32Array(Math.max(1, Math.ceil(to) - start));
+      for (let i = 0; i < weights.length; i++) {
+        weights[i] = Math.max(0, Math.min(to, start + i + 1) - Math.max(from, start + i));
+      }
+      const total = weights.reduce((sum, w) => sum + w, 0) || 1;
+      contributions.push({ start, weights: weights.map(w => w / total) });
+    } else {
+      const center = Math.min(offset + span - 1, Math.max(offset, offset + (o + 0.5) * scale - 0.5));
+      const start = Math.floor(center);
+      const t = center - start;
+      contributions.push({ start, weights: t > 0 && start + 1 < limit ? Float32Array.of(1 - t, t) : Float32Array.of(1) });
+    }
+  }
+  return contributions;
+};
+
+/**
+ * Parses "#rrggbb" into RGB components.
+ */
+export const parseHexColor = (color: string): [number, number, number] => {
+  const value = parseInt(color.replace('#', ''), 16) || 0;
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Draws `geometry.sx/sy/sw/sh` of the source into a new buffer of
+ * `geometry.width/height`, over `background` when given. Works on
+ * premultiplied alpha so transparent pixels do not bleed their color.
+ */
+export const resamplePixels = (source: PixelBuffer, geometry: RenderGeometry, background?: string): PixelBuffer => {
+  const { width, height } = geometry;
+  const columns = computeContributions(geometry.sx, geometry.sw, width, source.width);
+  const rows = computeContributions(geometry.sy, geometry.sh, height, source.height);
+  const firstRow = rows[0].start;
+  const lastRow = rows[rows.length - 1].start + rows[rows.length - 1].weights.length;
+  const src = source.data;
+
+  // Horizontal pass over the source rows that the vertical pass will read
+  const temp = new Float32Array(width * (lastRow - firstRow) * 4);
+  for (let y = firstRow; y < lastRow; y++) {
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columns[x];
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let i = 0; i < weights.length; i++) {
+        const s = (y * source.width + start + i) * 4;
+        const w = weights[i] * src[s + 3] / 255;
+        r += src[s] * w;
+        g += src[s + 1] * w;
+        b += src[s + 2] * w;
+        a += weights[i] * src[s + 3];
+      }
+      const t = ((y - firstRow) * width + x) * 4;
+      temp[t] = r;
+      temp[t + 1] = g;
+      temp[t + 2] = b;
+      temp[t + 3] = a;
+    }
+  }
+
+  const [bgR, bgG, bgB] = background ? parseHexColor(background) : [0, 0, 0];
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rows[y];
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let i = 0; i < weights.length; i++) {
+        const t = ((start + i - firstRow) * width + x) * 4;
+        r += temp[t] * weights[i];
+        g += temp[t + 1] * weights[i];
+        b += temp[t + 2] * weights[i];
+        a += temp[t + 3] * weights[i];
+      }
+      const o = (y * width + x) * 4;
+      if (background) {
+        const rest = 1 - a / 255;
+        data[o] = r + bgR * rest;
+        data[o + 1] = g + bgG * rest;
+        data[o + 2] = b + bgB * rest;
+        data[o + 3] = 255;
+      } else {
+        const unpremultiply = a > 0 ? 255 / a : 0;
+        data[o] = r * unpremultiply;
+        data[o + 1] = g * unpremultiply;
+        data[o + 2] = b * unpremultiply;
+        data[o + 3] = a;
+      }
+    }
+  }
+
+  return { width, height, data };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ImageFormat, MetadataPolicy, ResizeFit } from '../types';
+import { BUILT_IN_PRESETS, DEFAULT_SETTINGS, createPreset, parsePresets, sanitizeSettings, serializePresets } from './presets';
+
+describe('sanitizeSettings', () => {
+  it('returns the defaults for anything that is not an object', () => {
+    expect(sanitizeSettings(null)).toEqual(DEFAULT_SETTINGS);
+    expect(sanitizeSettings('webp')).toEqual(DEFAULT_SETTINGS);
+    expect(sanitizeSettings([1, 2])).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('keeps valid fields and replaces invalid ones', () => {
+    const settings = sanitizeSettings({
+      format: ImageFormat.AVIF,
+      quality: 7,
+      metadataPolicy: 'keep-everything',
+      backgroundColor: 'red',
+      resize: { maxWidth: 1200.4, maxHeight: -1, fit: ResizeFit.COVER, targetWidths: [640, 320, 'x'] },
+      watermark: { enabled: true, imageDataUrl: 'javascript:alert(1)' }
+    });
+    expect(settings.format).toBe(ImageFormat.AVIF);
+    expect(settings.quality).toBe(1);
+    expect(settings.metadataPolicy).toBe(DEFAULT_SETTINGS.metadataPolicy);
+    expect(settings.backgroundColor).toBe(DEFAULT_SETTINGS.backgroundColor);
+    expect(settings.resize).toMatchObject({ maxWidth: 1200, maxHeight: null, fit: ResizeFit.COVER, targetWidths: [320, 640] });
+    expect(settings.watermark).toMatchObject({ enabled: true, imageDataUrl: null });
+  });
+});
+
+describe('parsePresets', () => {
+  it('reads back what serializePresets writes, as new presets', () => {
+    const preset = createPreset('Blog', { ...DEFAULT_SETTINGS, format: ImageFormat.JPEG, metadataPolicy: MetadataPolicy.STRIP_GPS });
+    const [parsed] = parsePresets(serializePresets([preset]));
+    expect(parsed.name).toBe('Blog');
+    expect(parsed.settings).toEqual(preset.settings);
+    expect(parsed.id).not.toBe(preset.id);
+  });
+
+  it('accepts a bare array and skips entries without a name', () => {
+    const presets = parsePresets(JSON.stringify([{ name: 'Um', settings: {} }, { name: '  ' }, null, 'dois']));
+    expect(presets.map(p => p.name)).toEqual(['Um']);
+    expect(presets[0].settings).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('rejects files that are not presets exports', () => {
+    expect(() => parsePresets('{')).toThrow('O arquivo não é um JSON válido.');
+    expect(() => parsePresets('{"presets": []}')).toThrow('O arquivo não contém presets do OptiPix.');
+    expect(() => parsePresets('42')).toThrow('O arquivo não contém presets do OptiPix.');
+    expect(() => parsePresets('[]')).toThrow('Nenhum preset encontrado no arquivo.');
+  });
+
+  it('rejects exports from a newer version', () => {
+    const json = JSON.stringify({ kind: 'optipix-presets', version: 99, presets: [{ name: 'Novo', settings: {} }] });
+    expect(() => parsePresets(json)).toThrow('Os presets foram exportados por uma versão mais nova do OptiPix.');
+  });
+});
+
+describe('BUILT_IN_PRESETS', () => {
+  it('hold settings that survive sanitizing unchanged', () => {
+    for (const preset of BUILT_IN_PRESETS) {
+      expect(sanitizeSettings(preset.settings)).toEqual(preset.settings);
+    }
+  });
+});
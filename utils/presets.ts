@@ -0,0 +1,209 @@
+import {
+  ChromaSubsampling,
+  ConversionSettings,
+  EncoderPreference,
+  ImageFormat,
+  MetadataPolicy,
+  QualityMode,
+  ResizeFit,
+  SettingsPreset,
+  WatermarkKind,
+  WatermarkPosition
+} from '../types';
+import { parseWidthList } from './pipeline';
+
+// Global defaults for new images; also fills fields missing from older saved settings
+export const DEFAULT_SETTINGS: ConversionSettings = {
+  format: ImageFormat.WEBP,
+  quality: 0.8,
+  qualityMode: QualityMode.FIXED,
+  targetSize: 150 * 1024,
+  allowDownscale: false,
+  minSsim: 0.95,
+  resize: {
+    maxWidth: null,
+    maxHeight: null,
+    fit: ResizeFit.CONTAIN,
+    targetWidths: [],
+    svgScale: 1
+  },
+  metadataPolicy: MetadataPolicy.STRIP_ALL,
+  encoder: EncoderPreference.AUTO,
+  effort: 4,
+  chromaSubsampling: ChromaSubsampling.YUV420,
+  lossless: false,
+  progressive: true,
+  backgroundColor: '#ffffff',
+  paletteColors: null,
+  dithering: true,
+  autoFormat: false,
+  keepOriginal: false,
+  watermark: {
+    enabled: false,
+    kind: WatermarkKind.TEXT,
+    text: '© ',
+    color: '#ffffff',
+    imageDataUrl: null,
+    position: WatermarkPosition.BOTTOM_RIGHT,
+    opacity: 0.6,
+    scale: 0.2,
+    margin: 0.03
+  }
+};
+
+const builtIn = (id: string, name: string, overrides: Partial<ConversionSettings>): SettingsPreset => ({
+  id,
+  name,
+  builtIn: true,
+  settings: { ...DEFAULT_SETTINGS, ...overrides }
+});
+
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  builtIn('builtin-default', 'Padrão', {}),
+  builtIn('builtin-blog-hero', 'Blog hero', {
+    format: ImageFormat.WEBP,
+    quality: 0.82,
+    resize: { ...DEFAULT_SETTINGS.resize, maxWidth: 1920, targetWidths: [640, 1024, 1440] },
+    metadataPolicy: MetadataPolicy.KEEP_COPYRIGHT
+  }),
+  builtIn('builtin-ecommerce-thumb', 'E-commerce thumbnail', {
+    format: ImageFormat.WEBP,
+    qualityMode: QualityMode.TARGET_SIZE,
+    targetSize: 40 * 1024,
+    resize: { ...DEFAULT_SETTINGS.resize, maxWidth: 600, maxHeight: 600, fit: ResizeFit.COVER, targetWidths: [300] },
+    backgroundColor: '#ffffff'
+  }),
+  builtIn('builtin-photo', 'Fotografia (alta fidelidade)', {
+    format: ImageFormat.AVIF,
+    qualityMode: QualityMode.MIN_SSIM,
+    minSsim: 0.98,
+    chromaSubsampling: ChromaSubsampling.YUV444,
+    metadataPolicy: MetadataPolicy.STRIP_GPS
+  }),
+  builtIn('builtin-graphics', 'Gráficos e ícones (PNG)', {
+    format: ImageFormat.PNG,
+    paletteColors: 256,
+    dithering: false
+  })
+];
+
+export const createPreset = (name: string, settings: ConversionSettings): SettingsPreset => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  builtIn: false,
+  settings
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const pickEnum = <T extends string>(values: Record<string, T>, value: unknown, fallback: T): T =>
+  (Object.values(values) as unknown[]).includes(value) ? value as T : fallback;
+
+const pickNumber = (value: unknown, fallback: number, min: number, max: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const pickBoolean = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+
+const pickDimension = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+
+const pickColor = (value: unknown, fallback: string) =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value : fallback;
+
+/**
+ * Builds valid settings from untrusted input (imported JSON, older saves):
+ * unknown or invalid fields fall back to the defaults.
+ */
+export const sanitizeSettings = (raw: unknown): ConversionSettings => {
+  const input = isRecord(raw) ? raw : {};
+  const resize = isRecord(input.resize) ? input.resize : {};
+  const watermark = isRecord(input.watermark) ? input.watermark : {};
+  const d = DEFAULT_SETTINGS;
+
+  return {
+    format: pickEnum(ImageFormat, input.format, d.format),
+    quality: pickNumber(input.quality, d.quality, 0.1, 1),
+    qualityMode: pickEnum(QualityMode, input.qualityMode, d.qualityMode),
+    targetSize: pickNumber(input.targetSize, d.targetSize, 1024, Number.MAX_SAFE_INTEGER),
+    allowDownscale: pickBoolean(input.allowDownscale, d.allowDownscale),
+    minSsim: pickNumber(input.minSsim, d.minSsim, 0.5, 0.999),
+    resize: {
+      maxWidth: pickDimension(resize.maxWidth),
+      maxHeight: pickDimension(resize.maxHeight),
+      fit: pickEnum(ResizeFit, resize.fit, d.resize.fit),
+      targetWidths: Array.isArray(resize.targetWidths) ? parseWidthList(resize.targetWidths.join(',')) : [],
+      svgScale: pickNumber(resize.svgScale, d.resize.svgScale, 0.25, 8)
+    },
+    metadataPolicy: pickEnum(MetadataPolicy, input.metadataPolicy, d.metadataPolicy),
+    encoder: pickEnum(EncoderPreference, input.encoder, d.encoder),
+    effort: Math.round(pickNumber(input.effort, d.effort, 0, 9)),
+    chromaSubsampling: pickEnum(ChromaSubsampling, input.chromaSubsampling, d.chromaSubsampling),
+    lossless: pickBoolean(input.lossless, d.lossless),
+    progressive: pickBoolean(input.progressive, d.progressive),
+    backgroundColor: pickColor(input.backgroundColor, d.backgroundColor),
+    paletteColors: input.paletteColors === null || input.paletteColors === undefined
+      ? null
+      : Math.round(pickNumber(input.paletteColors, 256, 2, 256)),
+    dithering: pickBoolean(input.dithering, d.dithering),
+    autoFormat: pickBoolean(input.autoFormat, d.autoFormat),
+    keepOriginal: pickBoolean(input.keepOriginal, d.keepOriginal),
+    watermark: {
+      enabled: pickBoolean(watermark.enabled, d.watermark.enabled),
+      kind: pickEnum(WatermarkKind, watermark.kind, d.watermark.kind),
+      text: typeof watermark.text === 'string' ? watermark.text : d.watermark.text,
+      color: pickColor(watermark.color, d.watermark.color),
+      imageDataUrl: typeof watermark.imageDataUrl === 'string' && watermark.imageDataUrl.startsWith('data:image/')
+        ? watermark.imageDataUrl
+        : null,
+      position: pickEnum(WatermarkPosition, watermark.position, d.watermark.position),
+      opacity: pickNumber(watermark.opacity, d.watermark.opacity, 0.05, 1),
+      scale: pickNumber(watermark.scale, d.watermark.scale, 0.02, 1),
+      margin: pickNumber(watermark.margin, d.watermark.margin, 0, 0.25)
+    }
+  };
+};
+
+const EXPORT_KIND = 'optipix-presets';
+const EXPORT_VERSION = 1;
+
+/**
+ * JSON file shared between team members. Ids are not exported: importing always
+ * creates new presets.
+ */
+export const serializePresets = (presets: SettingsPreset[]): string =>
+  JSON.stringify({
+    kind: EXPORT_KIND,
+    version: EXPORT_VERSION,
+    presets: presets.map(({ name, settings }) => ({ name, settings }))
+  }, null, 2);
+
+/**
+ * Parses an exported presets file. Also accepts a bare array of presets.
+ * Throws with a user-facing message when the file is not a presets export.
+ */
+export const parsePresets = (json: string): SettingsPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('O arquivo não é um JSON válido.');
+  }
+
+  const entries: unknown = Array.isArray(data) ? data : isRecord(data) && data.kind === EXPORT_KIND ? data.presets : null;
+  if (!Array.isArray(entries)) {
+    throw new Error('O arquivo não contém presets do OptiPix.');
+  }
+  if (isRecord(data) && typeof data.version === 'number' && data.version > EXPORT_VERSION) {
+    throw new Error('Os presets foram exportados por uma versão mais nova do OptiPix.');
+  }
+
+  const presets = entries
+    .filter((entry): entry is Record<string, unknown> & { name: string } =>
+      isRecord(entry) && typeof entry.name === 'string' && entry.name.trim() !== '')
+    .map(entry => createPreset(entry.name, sanitizeSettings(entry.settings)));
+  if (presets.length === 0) {
+    throw new Error('Nenhum preset encontrado no arquivo.');
+  }
+  return presets;
+};
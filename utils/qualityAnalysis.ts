@@ -0,0 +1,70 @@
+import { ImageFormat, ProcessedImage, QualityMetrics } from '../types';
+import { canvasToBlob, decodeLogo, drawToCanvas, loadImage, readPixels } from './converter';
+import { computeOutputGeometry, fullGeometry } from './pipeline';
+import { computePsnr, computeSsim, createDifferenceHeatmap } from './metrics';
+import { hasEdits, renderEditedCanvas } from './imageEdits';
+import { prepareWatermark } from './watermark';
+
+// Larger images are compared at a reduced size to keep the analysis responsive
+const ANALYSIS_MAX_SIDE = 1024;
+
+/**
+ * The original framed like the output: same edits and resize crop, drawn at
+ * `width`x`height` so it lines up pixel for pixel with the converted image.
+ */
+const renderReference = async (image: ProcessedImage, width: number, height: number, withWatermark: boolean) => {
+  const loaded = await loadImage(image.previewUrl);
+  const original = hasEdits(image.edits)
+    ? renderEditedCanvas(loaded, loaded.width, loaded.height, image.edits)
+    : loaded;
+  // The crop only depends on the resize settings; the output size may have been reduced further
+  const crop = computeOutputGeometry(original.width, original.height, image.recoveredResize ?? image.settings.resize);
+  const watermark = withWatermark ? await prepareWatermark(image.settings.watermark, decodeLogo) : undefined;
+  return drawToCanvas(original, { ...crop, width, height }, undefined, watermark);
+};
+
+/**
+ * Object URL of the original aligned with the converted image, for side-by-side viewing.
+ */
+export const createReferenceURL = async (image: ProcessedImage): Promise<string> => {
+  const { canvas } = await renderReference(image, image.convertedWidth, image.convertedHeight, false);
+  return URL.createObjectURL(await canvasToBlob(canvas, ImageFormat.PNG, 1));
+};
+
+/**
+ * Decodes the original and converted images of a card into pixel buffers of the
+ * same size and measures how much quality the conversion lost.
+ */
+export const analyzeConversion = async (image: ProcessedImage): Promise<QualityMetrics> => {
+  if (!image.convertedUrl) {
+    throw new Error('Image has not been converted yet');
+  }
+
+  const converted = await loadImage(image.convertedUrl);
+  const scale = Math.min(1, ANALYSIS_MAX_SIDE / Math.max(converted.width, converted.height));
+  const width = Math.max(1, Math.round(converted.width * scale));
+  const height = Math.max(1, Math.round(converted.height * scale));
+
+  // The watermark is part of the intended output, not a loss
+  const reference = (await renderReference(image, width, height, true)).ctx.getImageData(0, 0, width, height);
+  const output = readPixels(converted, { ...fullGeometry(converted.width, converted.height), width, height });
+
+  const heatmap = createDifferenceHeatmap(reference, output);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+  const heatmapData = ctx.createImageData(width, height);
+  heatmapData.data.set(heatmap.data);
+  ctx.putImageData(heatmapData, 0, 0);
+  const heatmapBlob = await canvasToBlob(canvas, ImageFormat.PNG, 1);
+
+  return {
+    ssim: computeSsim(reference, output),
+    psnr: computePsnr(reference, output),
+    heatmapUrl: URL.createObjectURL(heatmapBlob)
+  };
+};
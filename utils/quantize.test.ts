@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { PixelBuffer } from './metrics';
+import { quantizePixels } from './quantize';
+
+const buffer = (width: number, height: number, pixel: (x: number, y: number) => number[]): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(pixel(x, y), (y * width + x) * 4);
+  }
+  return { width, height, data };
+};
+
+const distinctColors = ({ data }: PixelBuffer) => {
+  const colors = new Set<string>();
+  for (let i = 0; i < data.length; i += 4) colors.add(data.subarray(i, i + 4).join(','));
+  return colors;
+};
+
+const averageRed = ({ data }: PixelBuffer) => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) sum += data[i];
+  return sum / (data.length / 4);
+};
+
+// Red grows left to right, green top to bottom: 256 distinct opaque colors
+const gradient = buffer(16, 16, (x, y) => [x * 17, y * 17, 128, 255]);
+
+describe('quantizePixels', () => {
+  it('reduces the image to the requested number of colors', () => {
+    const output = quantizePixels(gradient, 8, false);
+    expect(output).toMatchObject({ width: 16, height: 16 });
+    expect(distinctColors(output).size).toBeLessThanOrEqual(8);
+  });
+
+  it('keeps images that already fit the palette unchanged', () => {
+    const twoColors = buffer(4, 4, x => x < 2 ? [255, 0, 0, 255] : [0, 0, 255, 0]);
+    expect(quantizePixels(twoColors, 16, false).data).toEqual(twoColors.data);
+  });
+
+  it('keeps transparent and opaque areas apart', () => {
+    const output = quantizePixels(buffer(8, 8, x => x < 4 ? [200, 200, 200, 0] : [200, 200, 200, 255]), 2, false);
+    expect(output.data[3]).toBe(0);
+    expect(output.data[7 * 4 + 3]).toBe(255);
+  });
+
+  it('clamps the palette size between 2 and 256 colors', () => {
+    expect(distinctColors(quantizePixels(gradient, 1, false)).size).toBe(2);
+  });
+
+  it('dithers within the palette, keeping the average tone', () => {
+    const ramp = buffer(32, 8, x => [x * 8, 0, 0, 255]);
+    const dithered = quantizePixels(ramp, 2, true);
+    expect(distinctColors(dithered).size).toBeLessThanOrEqual(2);
+    expect(Math.abs(averageRed(dithered) - averageRed(ramp))).toBeLessThan(8);
+    expect(dithered.data).not.toEqual(quantizePixels(ramp, 2, false).data);
+  });
+});
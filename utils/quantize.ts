@@ -0,0 +1,141 @@
+import type { PixelBuffer } from './metrics';
+
+/**
+ * Palette quantization for PNG output: reduces an RGBA buffer to at most
+ * `colors` distinct colors (median cut), optionally with Floyd–Steinberg
+ * dithering. The encoder (OxiPNG) then stores the result as an indexed PNG.
+ */
+
+type Color = [number, number, number, number];
+
+interface Box {
+  colors: Color[];
+}
+
+// Median cut works on a sample; big photos have millions of pixels
+const MAX_SAMPLES = 65536;
+const MAX_CACHE_ENTRIES = 262144;
+
+const channelRange = (colors: Color[], channel: number) => {
+  let min = 255;
+  let max = 0;
+  for (const c of colors) {
+    if (c[channel] < min) min = c[channel];
+    if (c[channel] > max) max = c[channel];
+  }
+  return max - min;
+};
+
+const averageColor = (colors: Color[]): Color => {
+  const sum = [0, 0, 0, 0];
+  for (const c of colors) {
+    for (let i = 0; i < 4; i++) sum[i] += c[i];
+  }
+  return sum.map(v => Math.round(v / colors.length)) as Color;
+};
+
+const buildPalette = (pixels: PixelBuffer, colors: number): Color[] => {
+  const { data } = pixels;
+  const total = data.length / 4;
+  const step = Math.max(1, Math.floor(total / MAX_SAMPLES));
+  const samples: Color[] = [];
+  for (let i = 0; i < total; i += step) {
+    const o = i * 4;
+    samples.push([data[o], data[o + 1], data[o + 2], data[o + 3]]);
+  }
+
+  const boxes: Box[] = [{ colors: samples }];
+  while (boxes.length < colors) {
+    // Split the box with the widest channel range
+    let target = -1;
+    let targetChannel = 0;
+    let widest = 0;
+    boxes.forEach((box, index) => {
+      if (box.colors.length < 2) return;
+      for (let channel = 0; channel < 4; channel++) {
+        const range = channelRange(box.colors, channel);
+        if (range > widest) {
+          widest = range;
+          target = index;
+          targetChannel = channel;
+        }
+      }
+    });
+    if (target === -1) break;
+
+    const sorted = boxes[target].colors.sort((a, b) => a[targetChannel] - b[targetChannel]);
+    const middle = Math.floor(sorted.length / 2);
+    boxes.splice(target, 1, { colors: sorted.slice(0, middle) }, { colors: sorted.slice(middle) });
+  }
+
+  return boxes.filter(box => box.colors.length > 0).map(box => averageColor(box.colors));
+};
+
+const createNearestLookup = (palette: Color[]) => {
+  // Many pixels share colors; memoize by packed RGBA
+  const cache = new Map<number, number>();
+  return (r: number, g: number, b: number, a: number) => {
+    const key = ((r << 24) | (g << 16) | (b << 8) | a) >>> 0;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const p = palette[i];
+      const distance = (p[0] - r) ** 2 + (p[1] - g) ** 2 + (p[2] - b) ** 2 + (p[3] - a) ** 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    }
+    if (cache.size >= MAX_CACHE_ENTRIES) cache.clear();
+    cache.set(key, best);
+    return best;
+  };
+};
+
+export const quantizePixels = (pixels: PixelBuffer, colors: number, dither: boolean): PixelBuffer => {
+  const { width, height } = pixels;
+  const palette = buildPalette(pixels, Math.min(256, Math.max(2, colors)));
+  const nearest = createNearestLookup(palette);
+  const output = new Uint8ClampedArray(pixels.data.length);
+  // Dithering accumulates error in floats to avoid clamping artifacts
+  const working = dither ? Float32Array.from(pixels.data) : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const source = working ?? pixels.data;
+      const r = Math.min(255, Math.max(0, Math.round(source[o])));
+      const g = Math.min(255, Math.max(0, Math.round(source[o + 1])));
+      const b = Math.min(255, Math.max(0, Math.round(source[o + 2])));
+      const a = Math.min(255, Math.max(0, Math.round(source[o + 3])));
+      const color = palette[nearest(r, g, b, a)];
+      output.set(color, o);
+
+      if (working) {
+        const er = r - color[0];
+        const eg = g - color[1];
+        const eb = b - color[2];
+        const ea = a - color[3];
+        const spread = (dx: number, dy: number, factor: number) => {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || nx >= width || ny >= height) return;
+          const n = (ny * width + nx) * 4;
+          working[n] += er * factor;
+          working[n + 1] += eg * factor;
+          working[n + 2] += eb * factor;
+          working[n + 3] += ea * factor;
+        };
+        spread(1, 0, 7 / 16);
+        spread(-1, 1, 3 / 16);
+        spread(0, 1, 5 / 16);
+        spread(1, 1, 1 / 16);
+      }
+    }
+  }
+
+  return { width, height, data: output };
+};
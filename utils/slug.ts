@@ -0,0 +1,15 @@
+/**
+ * Removes accents and other combining marks, e.g. "ação" -> "acao".
+ */
+export const transliterate = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Lowercase ASCII slug for file names and URLs: accents are stripped and any
+ * other run of characters becomes a single hyphen.
+ */
+export const slugify = (text: string, maxLength = 80) =>
+  transliterate(text)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, maxLength)
+    .replace(/^-+|-+$/g, '');
@@ -0,0 +1,226 @@
+import { ConversionErrorKind } from '../types';
+import type { PixelBuffer } from './metrics';
+import { ConversionError } from './conversionErrors';
+
+/**
+ * Decoders for sources the browser cannot open on its own (HEIC, TIFF) and
+ * for the frames of animated GIF/WebP, which <img> and createImageBitmap
+ * reduce to the first frame. They work on raw bytes and return pixel buffers,
+ * so they run on the main thread, in workers and in Node. Codecs are imported
+ * lazily, like the encoders.
+ */
+
+export type SourceKind = 'heic' | 'tiff' | 'svg' | 'gif' | 'webp' | 'other';
+
+export interface AnimationFrames {
+  width: number;
+  height: number;
+  frames: PixelBuffer[]; // Fully composited, all the size of the canvas
+  durations: number[]; // Display time of each frame, in ms
+}
+
+export interface DecodedSource {
+  pixels: PixelBuffer; // The still image, or the first frame of an animation
+  animation: AnimationFrames | null; // Only for sources with more than one frame
+}
+
+// ISO-BMFF major brands of HEIF stills and sequences (AVIF has its own)
+const HEIF_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1']);
+
+// Browsers show frames with delays of 0-10 ms for 100 ms
+const MIN_GIF_DELAY = 20;
+const DEFAULT_GIF_DELAY = 100;
+
+// Every frame is kept decoded at full size: 512 MB is about 60 frames of 1080p
+export const MAX_ANIMATION_BYTES = 512 * 1024 * 1024;
+
+const latin1Decoder = new TextDecoder('latin1');
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+// CommonJS packages expose module.exports as the default export
+const cjsDefault = <T>(module: T): T => (module as { default?: T }).default ?? module;
+
+export const isSvgFile = (file: Blob & { name?: string }) =>
+  file.type === 'image/svg+xml' || /\.svg$/i.test(file.name ?? '');
+
+const isHeif = (bytes: Uint8Array) => {
+  if (!startsWith(bytes, 4, 'ftyp')) return false;
+  const boxEnd = Math.min(bytes.length, new DataView(bytes.buffer, bytes.byteOffset).getUint32(0));
+  const brands = [latin1Decoder.decode(bytes.subarray(8, 12))];
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(latin1Decoder.decode(bytes.subarray(offset, offset + 4)));
+  }
+  // 'mif1' files may be AVIF: the compatible brands tell them apart
+  return HEIF_BRANDS.has(brands[0]) && !brands.includes('avif') && !brands.includes('avis');
+};
+
+/**
+ * Identifies the source from its first bytes; SVG, being text, by type or extension.
+ */
+export const detectSourceKind = async (file: Blob & { name?: string }): Promise<SourceKind> => {
+  const bytes = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+  if (isHeif(bytes)) return 'heic';
+  if (startsWith(bytes, 0, 'II*\0') || startsWith(bytes, 0, 'MM\0*')) return 'tiff';
+  if (startsWith(bytes, 0, 'GIF8')) return 'gif';
+  if (startsWith(bytes, 0, 'RIFF') && startsWith(bytes, 8, 'WEBP')) return 'webp';
+  if (isSvgFile(file)) return 'svg';
+  return 'other';
+};
+
+// WebP with the animation flag of its VP8X header; needs the first 21 bytes
+export const isAnimatedWebp = (bytes: Uint8Array) =>
+  startsWith(bytes, 12, 'VP8X') && (bytes[20] & 0x02) !== 0;
+
+/**
+ * Decodes a HEIC/HEIF photo. libheif applies the rotation and mirroring
+ * stored in the file, as browsers do with the EXIF orientation.
+ */
+export const decodeHeic = async (buffer: ArrayBuffer): Promise<PixelBuffer> => {
+  const decode = cjsDefault(await import('heic-decode'));
+  const { width, height, data } = await decode({ buffer: new Uint8Array(buffer) });
+  return { width, height, data };
+};
+
+/**
+ * Decodes the first page of a TIFF.
+ */
+export const decodeTiff = async (buffer: ArrayBuffer): Promise<PixelBuffer> => {
+  const UTIF = cjsDefault(await import('utif2'));
+  const [page] = UTIF.decode(buffer);
+  if (!page) throw new Error('TIFF sem imagens');
+  UTIF.decodeImage(buffer, page);
+  const rgba = UTIF.toRGBA8(page);
+  return { width: page.width, height: page.height, data: new Uint8ClampedArray(rgba) };
+};
+
+/**
+ * Decodes a JPEG XL output, which most browsers can neither show nor decode.
+ */
+export const decodeJxl = async (blob: Blob): Promise<PixelBuffer> => {
+  const { default: decode } = await import('@jsquash/jxl/decode.js');
+  return decode(await blob.arrayBuffer());
+};
+
+/**
+ * Refuses animations whose decoded frames would not fit in MAX_ANIMATION_BYTES,
+ * before decoding any of them.
+ */
+const checkAnimationSize = (width: number, height: number, frameCount: number) => {
+  const bytes = width * height * 4 * frameCount;
+  if (bytes > MAX_ANIMATION_BYTES) {
+    throw new ConversionError(
+      ConversionErrorKind.OUT_OF_MEMORY,
+      `Animação de ${frameCount} quadros de ${width}x${height} precisaria de ${Math.round(bytes / 1024 / 1024)} MB`
+    );
+  }
+};
+
+// Frames of an animated WebP and its canvas size, read from the RIFF chunks
+const readWebpAnimationInfo = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const width = 1 + (bytes[24] | bytes[25] << 8 | bytes[26] << 16);
+  const height = 1 + (bytes[27] | bytes[28] << 8 | bytes[29] << 16);
+  let frameCount = 0;
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    if (startsWith(bytes, offset, 'ANMF')) frameCount++;
+    const size = view.getUint32(offset + 4, true);
+    offset += 8 + size + (size & 1);
+  }
+  return { width, height, frameCount };
+};
+
+/**
+ * Composites the frames of a GIF, honoring each frame's disposal method.
+ */
+const decodeGifFrames = async (buffer: ArrayBuffer): Promise<AnimationFrames> => {
+  const { parseGIF, decompressFrames } = await import('gifuct-js');
+  const gif = parseGIF(buffer);
+  const { width, height } = gif.lsd;
+  checkAnimationSize(width, height, gif.frames.filter(frame => 'image' in frame).length);
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: PixelBuffer[] = [];
+  const durations: number[] = [];
+
+  for (const frame of decompressFrames(gif, true)) {
+    const { left, top, width: frameWidth, height: frameHeight } = frame.dims;
+    // Disposal 3 restores what was under the frame once it has been shown
+    const previous = frame.disposalType === 3 ? canvas.slice() : null;
+
+    for (let y = 0; y < frameHeight && top + y < height; y++) {
+      for (let x = 0; x < frameWidth && left + x < width; x++) {
+        const from = (y * frameWidth + x) * 4;
+        if (frame.patch[from + 3] === 0) continue;
+        canvas.set(frame.patch.subarray(from, from + 4), ((top + y) * width + left + x) * 4);
+      }
+    }
+    frames.push({ width, height, data: canvas.slice() });
+    durations.push(frame.delay >= MIN_GIF_DELAY ? frame.delay : DEFAULT_GIF_DELAY);
+
+    if (frame.disposalType === 2) {
+      // Back to transparent
+      for (let y = top; y < Math.min(height, top + frameHeight); y++) {
+        canvas.fill(0, (y * width + left) * 4, (y * width + Math.min(width, left + frameWidth)) * 4);
+      }
+    } else if (previous) {
+      canvas.set(previous);
+    }
+  }
+
+  if (frames.length === 0) throw new Error('GIF sem quadros');
+  return { width, height, frames, durations };
+};
+
+const decodeWebpFrames = async (buffer: ArrayBuffer): Promise<AnimationFrames> => {
+  const info = readWebpAnimationInfo(new Uint8Array(buffer));
+  checkAnimationSize(info.width, info.height, info.frameCount);
+  const { decodeAnimation } = await import('wasm-webp');
+  const decoded = await decodeAnimation(new Uint8Array(buffer), true);
+  if (!decoded?.length) throw new Error('Não foi possível decodificar o WebP animado');
+  const { width, height } = decoded[0];
+  return {
+    width,
+    height,
+    frames: decoded.map(frame => ({ width: frame.width, height: frame.height, data: new Uint8ClampedArray(frame.data) })),
+    durations: decoded.map(frame => frame.duration)
+  };
+};
+
+/**
+ * Whether a GIF or WebP has more than one frame, without decoding them.
+ */
+export const isAnimatedSource = async (file: Blob & { name?: string }): Promise<boolean> => {
+  const kind = await detectSourceKind(file);
+  if (kind === 'webp') return isAnimatedWebp(new Uint8Array(await file.slice(0, 32).arrayBuffer()));
+  if (kind !== 'gif') return false;
+  const { parseGIF } = await import('gifuct-js');
+  return parseGIF(await file.arrayBuffer()).frames.filter(frame => 'image' in frame).length > 1;
+};
+
+/**
+ * Decodes the sources that need a bundled codec: HEIC, TIFF, GIF and animated
+ * WebP. Resolves to null for everything else, which the environment's own
+ * decoder handles.
+ */
+export const decodeWithCodecs = async (file: Blob, kind: SourceKind): Promise<DecodedSource | null> => {
+  if (kind === 'heic' || kind === 'tiff') {
+    const buffer = await file.arrayBuffer();
+    return { pixels: kind === 'heic' ? await decodeHeic(buffer) : await decodeTiff(buffer), animation: null };
+  }
+  if (kind === 'webp') {
+    const buffer = await file.arrayBuffer();
+    if (!isAnimatedWebp(new Uint8Array(buffer, 0, Math.min(32, buffer.byteLength)))) return null;
+    const animation = await decodeWebpFrames(buffer);
+    return { pixels: animation.frames[0], animation: animation.frames.length > 1 ? animation : null };
+  }
+  if (kind === 'gif') {
+    const animation = await decodeGifFrames(await file.arrayBuffer());
+    return { pixels: animation.frames[0], animation: animation.frames.length > 1 ? animation : null };
+  }
+  return null;
+};
@@ -0,0 +1,118 @@
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelay: number; // ms before the first retry, doubled on each attempt
+  maxDelay: number;
+  isRetryable: (error: unknown) => boolean;
+}
+
+export interface TaskHooks {
+  onStart?: (attempt: number) => void;
+  onRetry?: (attempt: number, delay: number, error: unknown) => void;
+}
+
+export interface TaskQueue<T> {
+  run: (key: string, task: (signal: AbortSignal) => Promise<T>, hooks?: TaskHooks) => Promise<T>;
+  cancel: (key: string) => void;
+  cancelAll: () => void;
+  setConcurrency: (concurrency: number) => void;
+}
+
+interface Task<T> {
+  key: string;
+  execute: (signal: AbortSignal) => Promise<T>;
+  hooks?: TaskHooks;
+  controller: AbortController;
+  resolve: (result: T) => void;
+  reject: (error: unknown) => void;
+}
+
+const abortError = () => new DOMException('Task cancelled', 'AbortError');
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Keyed async queue running at most `concurrency` tasks at once, retrying
+ * failures the policy deems transient with exponential backoff (and jitter).
+ * A task keeps its slot while it waits to retry, so a rate-limited API slows
+ * the whole queue down. Cancelled tasks reject with an AbortError.
+ */
+export const createTaskQueue = <T>(concurrency: number, policy: RetryPolicy): TaskQueue<T> => {
+  const queue: Task<T>[] = [];
+  const running = new Map<string, Task<T>>();
+  let limit = Math.max(1, concurrency);
+
+  const execute = async (task: Task<T>) => {
+    const { signal } = task.controller;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          task.hooks?.onStart?.(attempt);
+          const result = await task.execute(signal);
+          if (signal.aborted) throw abortError();
+          task.resolve(result);
+          return;
+        } catch (error) {
+          if (signal.aborted) throw abortError();
+          if (attempt >= policy.maxRetries || !policy.isRetryable(error)) throw error;
+
+          const delay = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+          task.hooks?.onRetry?.(attempt + 1, delay, error);
+          await sleep(delay, signal);
+        }
+      }
+    } catch (error) {
+      task.reject(error);
+    } finally {
+      if (running.get(task.key) === task) running.delete(task.key);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (running.size < limit && queue.length > 0) {
+      const task = queue.shift()!;
+      running.set(task.key, task);
+      execute(task);
+    }
+  };
+
+  const cancel = (key: string) => {
+    const queuedIndex = queue.findIndex(task => task.key === key);
+    if (queuedIndex !== -1) {
+      const [task] = queue.splice(queuedIndex, 1);
+      task.reject(abortError());
+    }
+    running.get(key)?.controller.abort();
+  };
+
+  const run = (key: string, execute: (signal: AbortSignal) => Promise<T>, hooks?: TaskHooks) => {
+    // A key only has one task at a time; the newest request wins
+    cancel(key);
+    return new Promise<T>((resolve, reject) => {
+      queue.push({ key, execute, hooks, controller: new AbortController(), resolve, reject });
+      pump();
+    });
+  };
+
+  const cancelAll = () => {
+    [...queue.map(task => task.key), ...running.keys()].forEach(cancel);
+  };
+
+  const setConcurrency = (value: number) => {
+    limit = Math.max(1, Math.floor(value));
+    pump();
+  };
+
+  return { run, cancel, cancelAll, setConcurrency };
+};
@@ -0,0 +1,111 @@
+import { WatermarkKind, WatermarkPosition, WatermarkSettings } from '../types';
+
+/**
+ * Watermark stage of the pipeline: drawn over the image on every render, so it
+ * is sized and placed relative to each output (main and variants) after resizing.
+ */
+
+export interface DecodedLogo {
+  image: CanvasImageSource;
+  width: number;
+  height: number;
+}
+
+// Watermark settings with the logo already decoded for the current environment
+export interface PreparedWatermark {
+  settings: WatermarkSettings;
+  logo?: DecodedLogo;
+}
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const FONT_FAMILY = "Inter, 'Helvetica Neue', Arial, sans-serif";
+const TILE_ANGLE = -Math.PI / 6;
+
+export const isWatermarkActive = (watermark: WatermarkSettings) =>
+  watermark.enabled && (watermark.kind === WatermarkKind.TEXT ? !!watermark.text.trim() : !!watermark.imageDataUrl);
+
+/**
+ * Decodes the logo (when needed) with the environment's decoder. Returns
+ * undefined when there is nothing to draw.
+ */
+export const prepareWatermark = async (
+  watermark: WatermarkSettings,
+  decodeLogo: (dataUrl: string) => Promise<DecodedLogo>
+): Promise<PreparedWatermark | undefined> => {
+  if (!isWatermarkActive(watermark)) return undefined;
+  if (watermark.kind === WatermarkKind.IMAGE) {
+    return { settings: watermark, logo: await decodeLogo(watermark.imageDataUrl!) };
+  }
+  return { settings: watermark };
+};
+
+/**
+ * Draws the watermark over a `width`×`height` canvas.
+ */
+export const drawWatermark = (ctx: Context2D, width: number, height: number, { settings, logo }: PreparedWatermark) => {
+  const markWidth = Math.max(1, settings.scale * width);
+  const margin = settings.margin * width;
+  let markHeight: number;
+  let drawMark: (x: number, y: number) => void;
+
+  ctx.save();
+  ctx.globalAlpha = settings.opacity;
+
+  if (settings.kind === WatermarkKind.IMAGE) {
+    if (!logo) {
+      ctx.restore();
+      return;
+    }
+    markHeight = markWidth * logo.height / logo.width;
+    drawMark = (x, y) => ctx.drawImage(logo.image, x, y, markWidth, markHeight);
+  } else {
+    const text = settings.text.trim();
+    // Measure at a reference size, then scale the font so the text spans markWidth
+    ctx.font = `bold 100px ${FONT_FAMILY}`;
+    const fontSize = 100 * markWidth / Math.max(1, ctx.measureText(text).width);
+    ctx.font = `bold ${fontSize}px ${FONT_FAMILY}`;
+    ctx.fillStyle = settings.color;
+    ctx.textBaseline = 'alphabetic';
+    const metrics = ctx.measureText(text);
+    const ascent = metrics.actualBoundingBoxAscent || fontSize * 0.8;
+    markHeight = ascent + (metrics.actualBoundingBoxDescent || fontSize * 0.2);
+    drawMark = (x, y) => ctx.fillText(text, x, y + ascent);
+  }
+
+  const right = width - markWidth - margin;
+  const bottom = height - markHeight - margin;
+
+  switch (settings.position) {
+    case WatermarkPosition.TOP_LEFT:
+      drawMark(margin, margin);
+      break;
+    case WatermarkPosition.TOP_RIGHT:
+      drawMark(right, margin);
+      break;
+    case WatermarkPosition.BOTTOM_LEFT:
+      drawMark(margin, bottom);
+      break;
+    case WatermarkPosition.CENTER:
+      drawMark((width - markWidth) / 2, (height - markHeight) / 2);
+      break;
+    case WatermarkPosition.TILED: {
+      // Staggered rows over the rotated bounding square of the image
+      const stepX = markWidth + Math.max(margin, markWidth * 0.5);
+      const stepY = markHeight + Math.max(margin, markHeight * 2);
+      const half = Math.hypot(width, height) / 2;
+      ctx.translate(width / 2, height / 2);
+      ctx.rotate(TILE_ANGLE);
+      for (let row = 0, y = -half; y < half; row++, y += stepY) {
+        for (let x = -half - (row % 2) * stepX / 2; x < half; x += stepX) {
+          drawMark(x, y);
+        }
+      }
+      break;
+    }
+    default:
+      drawMark(right, bottom);
+  }
+
+  ctx.restore();
+};
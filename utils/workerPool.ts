@@ -0,0 +1,161 @@
+import { ConversionErrorKind, ConversionSettings, ImageEdits } from '../types';
+import { convertImageClientSide } from './converter';
+import { ConversionResult } from './pipeline';
+import { ConversionError } from './conversionErrors';
+import type { WorkerRequest, WorkerResponse } from './conversionWorker';
+import { isSvgFile } from './sourceDecoders';
+
+interface Job {
+  id: number;
+  file: File;
+  settings: ConversionSettings;
+  edits?: ImageEdits;
+  signal?: AbortSignal;
+  worker?: Worker;
+  settled: boolean;
+  onAbort: () => void;
+  resolve: (result: ConversionResult) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface ConversionPool {
+  convert: (file: File, settings: ConversionSettings, edits?: ImageEdits, signal?: AbortSignal) => Promise<ConversionResult>;
+  setConcurrency: (concurrency: number) => void;
+  dispose: () => void;
+}
+
+export const isWorkerConversionSupported = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap !== 'undefined' &&
+  'convertToBlob' in OffscreenCanvas.prototype;
+
+export const getDefaultConcurrency = () =>
+  Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Creates a queue that converts images in a pool of Web Workers (OffscreenCanvas),
+ * running at most `concurrency` jobs at once. Falls back to the main-thread
+ * canvas converter when workers or OffscreenCanvas are unavailable, and for
+ * SVGs, which workers cannot decode.
+ */
+export const createConversionPool = (concurrency = getDefaultConcurrency()): ConversionPool => {
+  const useWorkers = isWorkerConversionSupported();
+  const queue: Job[] = [];
+  const running = new Set<Job>();
+  const idleWorkers: Worker[] = [];
+  let limit = Math.max(1, concurrency);
+  let nextJobId = 1;
+
+  const spawnWorker = () =>
+    new Worker(new URL('./conversionWorker.ts', import.meta.url), { type: 'module' });
+
+  const settle = (job: Job, complete: () => void) => {
+    if (job.settled) return;
+    job.settled = true;
+    job.signal?.removeEventListener('abort', job.onAbort);
+    running.delete(job);
+    complete();
+    pump();
+  };
+
+  const runInWorker = (job: Job) => {
+    const worker = idleWorkers.pop() ?? spawnWorker();
+    job.worker = worker;
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const response = e.data;
+      if (response.jobId !== job.id) return;
+      job.worker = undefined;
+      idleWorkers.push(worker);
+      if (response.error !== undefined) {
+        settle(job, () => job.reject(new ConversionError(response.error!.kind, response.error!.detail)));
+      } else {
+        settle(job, () => job.resolve(response.result!));
+      }
+    };
+
+    worker.onerror = (e) => {
+      // A crashed worker (e.g. out of memory) is discarded instead of reused
+      worker.terminate();
+      job.worker = undefined;
+      settle(job, () => job.reject(new ConversionError(ConversionErrorKind.OUT_OF_MEMORY, e.message || 'Worker crashed')));
+    };
+
+    const request: WorkerRequest = { jobId: job.id, file: job.file, settings: job.settings, edits: job.edits };
+    worker.postMessage(request);
+  };
+
+  const runOnMainThread = (job: Job) => {
+    convertImageClientSide(job.file, job.settings, job.edits).then(
+      result => settle(job, () => job.resolve(result)),
+      error => settle(job, () => job.reject(error))
+    );
+  };
+
+  const pump = () => {
+    while (running.size < limit && queue.length > 0) {
+      const job = queue.shift()!;
+      running.add(job);
+      if (useWorkers && !isSvgFile(job.file)) {
+        runInWorker(job);
+      } else {
+        runOnMainThread(job);
+      }
+    }
+
+    // Shrink the pool if the concurrency limit was lowered
+    while (idleWorkers.length > limit) {
+      idleWorkers.pop()!.terminate();
+    }
+  };
+
+  const convert = (file: File, settings: ConversionSettings, edits?: ImageEdits, signal?: AbortSignal) => {
+    return new Promise<ConversionResult>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Conversion cancelled', 'AbortError'));
+        return;
+      }
+
+      const job: Job = {
+        id: nextJobId++,
+        file,
+        settings,
+        edits,
+        signal,
+        settled: false,
+        resolve,
+        reject,
+        onAbort: () => {
+          const queuedIndex = queue.indexOf(job);
+          if (queuedIndex !== -1) queue.splice(queuedIndex, 1);
+          // Terminating is the only way to interrupt a busy worker
+          if (job.worker) {
+            job.worker.terminate();
+            job.worker = undefined;
+          }
+          settle(job, () => reject(new DOMException('Conversion cancelled', 'AbortError')));
+        }
+      };
+
+      signal?.addEventListener('abort', job.onAbort);
+      queue.push(job);
+      pump();
+    });
+  };
+
+  const setConcurrency = (value: number) => {
+    limit = Math.max(1, Math.floor(value));
+    pump();
+  };
+
+  const dispose = () => {
+    [...queue, ...running].forEach(job => job.onAbort());
+    idleWorkers.splice(0).forEach(worker => worker.terminate());
+  };
+
+  return { convert, setConcurrency, dispose };
+};
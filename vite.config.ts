@@ -4,10 +4,18 @@ import react from '@vitejs/plugin-react';
 export default defineConfig({
   plugins: [react()],
   define: {
-    // Garante que o process.env.API_KEY esteja disponível no navegador
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY),
+    // Endpoint padrão do proxy de legendas; a chave do Gemini nunca entra no bundle
+    'process.env.CAPTION_ENDPOINT': JSON.stringify(process.env.CAPTION_ENDPOINT ?? ''),
   },
   build: {
     outDir: 'dist',
+  },
+  worker: {
+    // WASM encoders are loaded with dynamic imports from the conversion worker
+    format: 'es',
+  },
+  optimizeDeps: {
+    // Pre-bundling breaks the codecs' relative .wasm URLs
+    exclude: ['@jsquash/avif', '@jsquash/jpeg', '@jsquash/jxl', '@jsquash/oxipng', '@jsquash/webp', 'wasm-webp'],
   }
 });
\ No newline at end of file